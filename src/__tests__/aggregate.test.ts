@@ -0,0 +1,134 @@
+/**
+ * Aggregation Tests
+ */
+
+import { aggregateProfiles, MISSING_GROUP_VALUE } from "../aggregate";
+import { Batch, COA, TerpeneProfile } from "../models";
+
+function batch(
+  id: string,
+  strain: string,
+  dispensary: string,
+  lab: string,
+  thca: number,
+  terpenes: Record<string, number> = {}
+): Batch {
+  return {
+    id,
+    name: `${strain} ${id}`,
+    strain,
+    dispensaryId: dispensary.toLowerCase(),
+    dispensaryName: dispensary,
+    processedDate: new Date("2024-01-01"),
+    labResult: {
+      cannabinoids: [
+        { name: "THCA", percentage: thca },
+        { name: "CBDA", percentage: 1 },
+      ],
+      terpenes: Object.entries(terpenes).map(([name, percentage]) => ({ name, percentage })),
+      testDate: new Date("2024-01-10"),
+      labName: lab,
+    },
+  };
+}
+
+const batches = [
+  batch("1", "Blue Dream", "Trulieve", "ACS", 20, { "beta-Myrcene": 0.8, Limonene: 0.4 }),
+  batch("2", "Blue Dream", "Trulieve", "ACS", 22, { "beta-Myrcene": 0.6, Limonene: 0.4 }),
+  batch("3", "Blue Dream", "Curaleaf", "EVIO", 24),
+  batch("4", "Gelato", "Trulieve", "EVIO", 26, { Limonene: 0.9 }),
+  batch("5", "Gelato", "Curaleaf", "ACS", 28, { Limonene: 0.7 }),
+];
+
+describe("Aggregation", () => {
+  test("summarizes each compound, total and ratio per strain", () => {
+    const report = aggregateProfiles(batches);
+    expect(report.groupBy).toEqual(["strain"]);
+    expect(report.groups.map((g) => [g.keys.strain, g.count])).toEqual([["Blue Dream", 3], ["Gelato", 2]]);
+
+    const blueDream = report.groups[0];
+    const thca = blueDream.metrics.find((m) => m.metric === "THCA")!;
+    expect(thca).toEqual(expect.objectContaining({ metricType: "cannabinoid", count: 3, mean: 22, median: 22, sd: 2, min: 20, max: 24 }));
+    expect(thca.percentiles).toEqual({ p5: 20.2, p25: 21, p75: 23, p95: 23.8 });
+
+    const totalThc = blueDream.metrics.find((m) => m.metric === "Total THC")!;
+    expect(totalThc.metricType).toBe("total");
+    expect(totalThc.mean).toBeCloseTo(22 * 0.877, 3);
+    expect(blueDream.metrics.find((m) => m.metric === "THC:CBD")!.metricType).toBe("ratio");
+    expect(blueDream.metrics.find((m) => m.metric === "dominanceIndex")).toBeDefined();
+
+    // Only the two batches with a terpene panel count towards terpene metrics
+    const myrcene = blueDream.metrics.find((m) => m.metric === "β-Myrcene")!;
+    expect(myrcene).toEqual(expect.objectContaining({ metricType: "terpene", count: 2, mean: 0.7 }));
+  });
+
+  test("groups by combined keys and custom key functions", () => {
+    const report = aggregateProfiles(batches, { groupBy: ["dispensary", "lab"], metrics: ["total"] });
+    expect(report.groupBy).toEqual(["dispensary", "lab"]);
+    expect(report.groups[0].keys).toEqual({ dispensary: "Trulieve", lab: "ACS" });
+    expect(report.groups[0].batchIds).toEqual(["1", "2"]);
+    expect(report.groups).toHaveLength(4);
+    expect(report.groups.flatMap((g) => g.metrics).every((m) => m.metricType === "total")).toBe(true);
+
+    const potent = aggregateProfiles(batches, {
+      groupBy: { name: "tier", value: (input) => ((input as Batch).labResult!.cannabinoids[0].percentage >= 24 ? "high" : "standard") },
+    });
+    expect(potent.groups.map((g) => [g.keys.tier, g.count])).toEqual([["high", 3], ["standard", 2]]);
+  });
+
+  test("computes reproducible bootstrap intervals around the statistic", () => {
+    const a = aggregateProfiles(batches, { metrics: ["cannabinoid"], seed: 7 });
+    const b = aggregateProfiles(batches, { metrics: ["cannabinoid"], seed: 7 });
+    expect(a.groups).toEqual(b.groups);
+
+    const thca = a.groups[0].metrics.find((m) => m.metric === "THCA")!;
+    expect(thca.ci!.lower).toBeGreaterThanOrEqual(20);
+    expect(thca.ci!.lower).toBeLessThan(thca.mean);
+    expect(thca.ci!.upper).toBeGreaterThan(thca.mean);
+    expect(thca.ci!.upper).toBeLessThanOrEqual(24);
+
+    const single = aggregateProfiles([batches[0]], { bootstrapStatistic: "median" });
+    expect(single.groups[0].metrics.every((m) => m.ci === null)).toBe(true);
+    expect(aggregateProfiles(batches, { bootstrapSamples: 0 }).groups[0].metrics[0].ci).toBeNull();
+  });
+
+  test("flattens groups into Power BI rows", () => {
+    const report = aggregateProfiles(batches, { groupBy: "dispensary", metrics: ["total"], percentiles: [50, 90] });
+    const row = report.rows.find((r) => r.dispensary === "Trulieve" && r.metric === "Total THC")!;
+    expect(Object.keys(row)).toEqual([
+      "dispensary", "metric", "metricType", "count", "mean", "median", "sd", "min", "max", "p50", "p90", "ciLower", "ciUpper",
+    ]);
+    expect(row.count).toBe(3);
+    expect(report.rows).toHaveLength(report.groups.reduce((sum, g) => sum + g.metrics.length, 0));
+  });
+
+  test("merges profiles by batch id, reads COAs and validates options", () => {
+    const coa: COA = {
+      id: "coa-1",
+      lab: { name: "ACS" },
+      sample: { batchNumber: "C1", productName: "GSC", strainName: "GSC", producerName: "Grower Co" },
+      overallStatus: "pass",
+      cannabinoids: [{ name: "THCA", percentage: 25 }],
+    };
+    const terpenes: TerpeneProfile = {
+      batchId: "C1",
+      batchName: "GSC",
+      terpenes: new Map([["Limonene", 0.5]]),
+      totalTerpenes: 0.5,
+    };
+    const orphan: TerpeneProfile = { batchId: "X", batchName: "X", terpenes: new Map([["Linalool", 0.2]]), totalTerpenes: 0.2 };
+
+    const report = aggregateProfiles([coa, terpenes, orphan], { groupBy: ["producer", "lab"] });
+    expect(report.groups.map((g) => g.keys)).toEqual([
+      { producer: "Grower Co", lab: "ACS" },
+      { producer: MISSING_GROUP_VALUE, lab: MISSING_GROUP_VALUE },
+    ]);
+    const merged = report.groups[0];
+    expect(merged.count).toBe(1);
+    expect(merged.metrics.map((m) => m.metric)).toEqual(expect.arrayContaining(["THCA", "δ-Limonene", "Total Terpenes"]));
+
+    expect(() => aggregateProfiles(batches, { percentiles: [150], confidence: 1 })).toThrow(
+      "Invalid aggregate options: percentiles: expected numbers from 0 to 100; confidence: expected a number between 0 and 1"
+    );
+  });
+});
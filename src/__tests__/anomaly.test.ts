@@ -0,0 +1,128 @@
+/**
+ * Anomaly Detection Tests
+ */
+
+import { detectAnomalies, robustZScores } from "../anomaly";
+import { CannabinoidProfile, COA } from "../models";
+
+function coa(
+  id: string,
+  strain: string,
+  cannabinoids: Record<string, number>,
+  extra: Partial<COA> = {}
+): COA {
+  return {
+    id,
+    lab: { name: "Lab" },
+    sample: { batchNumber: id, productName: strain, strainName: strain, productType: "flower" },
+    overallStatus: "pass",
+    cannabinoids: Object.entries(cannabinoids).map(([name, percentage]) => ({ name, percentage })),
+    ...extra,
+  };
+}
+
+function profile(batchId: string, values: Record<string, number>, total?: number): CannabinoidProfile {
+  return {
+    batchId,
+    batchName: batchId,
+    cannabinoids: new Map(Object.entries(values)),
+    totalCannabinoids: total ?? Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+const history = [20, 21, 22, 21.5, 20.5, 21, 22.5].map((thca, i) =>
+  coa(`H${i}`, "Blue Dream", { THCA: thca, THC: 0.5, CBGA: 0.8 })
+);
+
+describe("Anomaly Detection", () => {
+  test("computes robust z-scores", () => {
+    const z = robustZScores([10, 11, 12, 13, 50]);
+    expect(z[2]).toBe(0);
+    expect(z[4]).toBeCloseTo(38 / 1.4826);
+    expect(robustZScores([5, 5, 5, 5, 9])[4]).toBeCloseTo(4 / (0.8 * 1.2533));
+    expect(robustZScores([3, 3, 3])).toEqual([0, 0, 0]);
+  });
+
+  test("clean records score 0", () => {
+    const results = detectAnomalies(history);
+    expect(results.map((r) => r.score)).toEqual(new Array(history.length).fill(0));
+    expect(results[0].strain).toBe("Blue Dream");
+    expect(results[0].robustZ.totalThc).toBeDefined();
+  });
+
+  test("flags THC well above the strain's history", () => {
+    const inflated = coa("X", "Blue Dream", { THCA: 31, THC: 0.5, CBGA: 0.8 });
+    const [result] = detectAnomalies([inflated, ...history]).filter((r) => r.id === "X");
+
+    expect(result.reasons.map((r) => r.code)).toContain("thc-outlier");
+    const reason = result.reasons.find((r) => r.code === "thc-outlier")!;
+    expect(reason.message).toMatch(/^Total THC 27\.69% is \d+\.\d robust SDs above the Blue Dream median of/);
+    expect(result.score).toBeGreaterThan(50);
+  });
+
+  test("uses the whole collection for strains with little history", () => {
+    const single = coa("S", "Rare Strain", { THCA: 33, THC: 0.5 });
+    const [result] = detectAnomalies([...history, single]).slice(-1);
+    expect(result.reasons.find((r) => r.code === "thc-outlier")!.message).toContain("collection median");
+  });
+
+  test("checks reported totals against their parts", () => {
+    const result = detectAnomalies([
+      coa("T", "Gelato", { THCA: 20, THC: 1 }, {
+        potencyResults: { status: "pass", totalThc: 25, totalCannabinoids: 21.2 },
+      }),
+      profile("P", { THCA: 20, CBDA: 1 }, 30),
+    ]);
+
+    expect(result[0].reasons.map((r) => r.code)).toEqual(["total-thc-mismatch"]);
+    expect(result[0].reasons[0].message).toBe(
+      "Reported Total THC 25.00% does not match THC + 0.877 × THCA (18.54%)"
+    );
+    expect(result[0].score).toBe(100);
+    expect(result[1].id).toBe("P");
+    expect(result[1].reasons.map((r) => r.code)).toEqual(["total-mismatch"]);
+  });
+
+  test("ignores total rows printed among the cannabinoids", () => {
+    const [result] = detectAnomalies([
+      coa("R", "Gelato", { THC: 0.5, THCA: 24, "Total THC": 21.55, "Total Cannabinoids": 24.5 }, {
+        potencyResults: { status: "pass", totalThc: 21.55, totalCannabinoids: 24.5 },
+      }),
+    ]);
+
+    expect(result.reasons).toEqual([]);
+    expect(result.score).toBe(0);
+  });
+
+  test("flags impossible flower chemistry and terpene totals", () => {
+    const [ratio, potency, terpenes, vape] = detectAnomalies([
+      coa("R", "Gelato", { THCA: 5, THC: 18 }),
+      coa("P", "Gelato", { THCA: 45 }),
+      coa("T", "Gelato", { THCA: 20 }, {
+        terpenes: [{ name: "β-Myrcene", percentage: 6 }, { name: "δ-Limonene", percentage: 4 }],
+      }),
+      coa("V", "Gelato", { THC: 85 }, {
+        sample: { batchNumber: "V", productName: "Cart", productType: "vape" },
+        terpenes: [{ name: "β-Myrcene", percentage: 6 }, { name: "δ-Limonene", percentage: 4 }],
+      }),
+    ]);
+
+    expect(ratio.reasons.map((r) => r.code)).toEqual(["acid-ratio"]);
+    expect(ratio.score).toBe(50);
+    expect(potency.reasons.map((r) => r.code)).toEqual(["potency-limit"]);
+    expect(terpenes.reasons[0]).toEqual(expect.objectContaining({
+      code: "terpene-limit",
+      message: "Total terpenes 10.00% is above the physical limit of 8% for flower",
+    }));
+    expect(vape.reasons).toEqual([]);
+  });
+
+  test("accepts custom limits and strain lookup", () => {
+    const results = detectAnomalies(
+      [profile("A", { THCA: 20 }), profile("B", { THCA: 20 })],
+      { limits: { totalTolerance: 0 }, strainOf: (input) => ("batchName" in input ? input.batchName : undefined) }
+    );
+    expect(results[0].strain).toBe("A");
+    expect(results[0].reasons).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Archetype Model Tests
+ */
+
+import {
+  fitArchetypeModel,
+  fitArchetypeModelFromClusters,
+  loadArchetypeModel,
+} from "../archetypeModel";
+import { kMeansClustering } from "../clustering";
+import {
+  classifyArchetype,
+  computeClrCoordinates,
+  computeRatioMetrics,
+  DEFAULT_ARCHETYPE_MODEL,
+  FIXED_TERPENE_ORDER,
+  TerpeneArchetype,
+} from "../ratioAnalysis";
+import { TerpeneProfile } from "../models";
+
+function terpenes(batchId: string, values: Record<string, number>): TerpeneProfile {
+  return {
+    batchId,
+    batchName: batchId,
+    terpenes: new Map(Object.entries(values)),
+    totalTerpenes: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+const citrus = [
+  { "δ-Limonene": 0.9, "β-Myrcene": 0.2, "β-Caryophyllene": 0.1 },
+  { "δ-Limonene": 1.2, "β-Myrcene": 0.3, "β-Caryophyllene": 0.15 },
+];
+const gas = [
+  { "β-Caryophyllene": 0.8, "α-Humulene": 0.3, "β-Myrcene": 0.2 },
+  { "β-Caryophyllene": 0.6, "α-Humulene": 0.25, "β-Myrcene": 0.1 },
+];
+
+describe("Archetype Models", () => {
+  test("the built-in model is the default", () => {
+    const clr = computeClrCoordinates({ myrcene: 1.0, limonene: 0.2, caryophyllene: 0.1 });
+    expect(classifyArchetype(clr)).toEqual(classifyArchetype(clr, DEFAULT_ARCHETYPE_MODEL));
+    expect(classifyArchetype(clr).primaryArchetype).toBe(TerpeneArchetype.ARCH_MYR);
+    expect(DEFAULT_ARCHETYPE_MODEL.metadata.terpenePanel).toEqual(FIXED_TERPENE_ORDER);
+  });
+
+  test("fits centroids as mean CLR coordinates with metadata", () => {
+    const model = fitArchetypeModel(
+      [
+        ...citrus.map((t) => ({ terpenes: t, label: "citrus" as const })),
+        ...gas.map((t, i) => ({ terpenes: terpenes(`G${i}`, t), label: "gas" as const })),
+        { terpenes: {}, label: "gas" as const },
+      ],
+      { version: "2026.1", trainedAt: "2026-01-15T00:00:00.000Z", source: "Market data" }
+    );
+
+    expect(model.metadata).toEqual({
+      version: "2026.1",
+      trainingSize: 4,
+      trainedAt: "2026-01-15T00:00:00.000Z",
+      terpenePanel: FIXED_TERPENE_ORDER,
+      sampleCounts: { citrus: 2, gas: 2 },
+      source: "Market data",
+    });
+
+    const clr1 = computeClrCoordinates({ limonene: 0.9, myrcene: 0.2, caryophyllene: 0.1 });
+    const clr2 = computeClrCoordinates({ limonene: 1.2, myrcene: 0.3, caryophyllene: 0.15 });
+    expect(model.centroids.citrus!.limonene).toBeCloseTo((clr1.limonene + clr2.limonene) / 2);
+
+    const metrics = computeRatioMetrics({ caryophyllene: 0.7, humulene: 0.3, myrcene: 0.1 }, model);
+    expect(metrics.archetypeClassification!.primaryArchetype).toBe("gas");
+  });
+
+  test("drops labels below minSamplesPerLabel and rejects empty training sets", () => {
+    const model = fitArchetypeModel(
+      [
+        ...citrus.map((t) => ({ terpenes: t, label: "citrus" })),
+        ...gas.map((t) => ({ terpenes: t, label: "gas" })),
+        { terpenes: { "α-Pinene": 0.8, "β-Myrcene": 0.2 }, label: "pine" },
+      ],
+      { minSamplesPerLabel: 2 }
+    );
+    expect(Object.keys(model.centroids)).toEqual(["citrus", "gas"]);
+    expect(() => fitArchetypeModel([{ terpenes: {}, label: "x" }])).toThrow("Cannot fit archetype model");
+  });
+
+  test("fits from a clustering result", () => {
+    const profiles = [...citrus, ...gas].map((t, i) => terpenes(`B${i}`, t));
+    const clustering = kMeansClustering(profiles, { space: "clr", k: 2 });
+    const model = fitArchetypeModelFromClusters(profiles, clustering, { 0: "citrus" });
+
+    expect(Object.keys(model.centroids).sort()).toEqual(["citrus", "cluster-1"]);
+    expect(model.metadata.trainingSize).toBe(4);
+  });
+
+  test("round-trips through JSON and rejects invalid models", () => {
+    const model = fitArchetypeModel(
+      [...citrus.map((t) => ({ terpenes: t, label: "citrus" })), ...gas.map((t) => ({ terpenes: t, label: "gas" }))],
+      { trainedAt: new Date("2026-03-01") }
+    );
+    const loaded = loadArchetypeModel(JSON.parse(JSON.stringify(model)));
+    expect(loaded).toEqual(model);
+    expect(loadArchetypeModel(JSON.parse(JSON.stringify(DEFAULT_ARCHETYPE_MODEL)))).toEqual(DEFAULT_ARCHETYPE_MODEL);
+
+    // A single surviving label would fit a model that cannot classify or load
+    const singleLabel = [
+      ...citrus.map((t) => ({ terpenes: t, label: "citrus" })),
+      { terpenes: gas[0], label: "gas" },
+    ];
+    expect(() => fitArchetypeModel(singleLabel, { minSamplesPerLabel: 2 })).toThrow(
+      "Cannot fit archetype model: 1 label(s) have enough profiles with terpene data, at least 2 are needed"
+    );
+    const twoLabels = fitArchetypeModel(singleLabel);
+    expect(loadArchetypeModel(JSON.parse(JSON.stringify(twoLabels)))).toEqual(twoLabels);
+
+    expect(() => loadArchetypeModel("nope")).toThrow("expected an object");
+    expect(() =>
+      loadArchetypeModel({
+        metadata: { version: "", trainingSize: -1, trainedAt: "soon", terpenePanel: ["myrcene"] },
+        centroids: { a: { myrcene: 1 }, b: { myrcene: "x" } },
+      })
+    ).toThrow(
+      "Invalid archetype model: metadata.version: expected a non-empty string; " +
+        "metadata.trainingSize: expected a number >= 0 or null; " +
+        "metadata.trainedAt: expected an ISO date or null; " +
+        "centroids.b.myrcene: expected a number"
+    );
+  });
+});
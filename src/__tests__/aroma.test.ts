@@ -0,0 +1,86 @@
+/**
+ * Aroma Wheel Tests
+ */
+
+import { AROMA_FAMILIES, scoreAromaProfile } from "../aroma";
+import { CDESAnalyzer } from "../analyzer";
+import { TerpeneProfile } from "../models";
+import { TerpeneRef } from "../reference";
+
+function terpenes(values: Record<string, number>): TerpeneProfile {
+  return {
+    batchId: "T1",
+    batchName: "Terp Batch",
+    terpenes: new Map(Object.entries(values)),
+    totalTerpenes: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+describe("Aroma Wheel", () => {
+  test("maps terpene descriptors to families weighted by concentration", () => {
+    // Limonene: citrus, lemon, orange, bright → all citrus
+    // Myrcene: earthy, musky, herbal, mango → 3 earthy + 1 sweet
+    const result = scoreAromaProfile(terpenes({ "δ-Limonene": 0.8, "beta-myrcene": 0.4 }));
+
+    expect(result.families.map((f) => f.family)).toHaveLength(AROMA_FAMILIES.length);
+    expect(result.dominantFamily).toBe("citrus");
+    const citrus = result.families.find((f) => f.family === "citrus")!;
+    const earthy = result.families.find((f) => f.family === "earthy")!;
+    const sweet = result.families.find((f) => f.family === "sweet")!;
+    expect(citrus.intensity).toBeCloseTo(0.8);
+    expect(earthy.intensity).toBeCloseTo(0.3);
+    expect(sweet.intensity).toBeCloseTo(0.1);
+    expect(citrus.share).toBeCloseTo(0.8 / 1.2);
+    expect(sweet.descriptors).toEqual([{ descriptor: "mango", intensity: 0.1, terpenes: ["β-Myrcene"] }]);
+    expect(result.mainDescriptor).toBe("citrus");
+    expect(result.unmapped).toEqual([]);
+  });
+
+  test("builds sunburst wheel data", () => {
+    const { wheel } = scoreAromaProfile(terpenes({ Linalool: 0.3 }));
+    expect(wheel.name).toBe("Terp Batch");
+    expect(wheel.value).toBeCloseTo(0.3);
+    expect(wheel.children!.map((node) => node.name)).toEqual(["floral", "sweet"]);
+    expect(wheel.children![0]).toEqual({
+      name: "floral",
+      value: 0.2,
+      color: "#C71585",
+      children: [
+        { name: "floral", value: 0.1 },
+        { name: "lavender", value: 0.1 },
+      ],
+    });
+  });
+
+  test("uses reference aroma and flavor arrays", () => {
+    const ref = {
+      name: "Myrcene",
+      alternateName: ["beta-Myrcene"],
+      aroma: ["Earthy"],
+      flavor: ["Grape", "Unknown note"],
+    } as TerpeneRef;
+    const result = scoreAromaProfile(terpenes({ "β-Myrcene": 0.6, "Mystery Terpene": 0.1 }), {
+      terpeneReferences: [ref],
+    });
+    expect(result.families.find((f) => f.family === "earthy")!.intensity).toBeCloseTo(0.3);
+    expect(result.families.find((f) => f.family === "sweet")!.intensity).toBeCloseTo(0.3);
+    expect(result.unmapped).toEqual(["Mystery Terpene"]);
+
+    const custom = scoreAromaProfile(terpenes({ "β-Myrcene": 0.6 }), {
+      terpeneReferences: [ref],
+      descriptorFamilies: { "unknown note": "spicy" },
+    });
+    expect(custom.families.find((f) => f.family === "spicy")!.intensity).toBeCloseTo(0.2);
+  });
+
+  test("handles profiles without aroma data and is exposed on the analyzer", () => {
+    const empty = scoreAromaProfile(terpenes({}));
+    expect(empty.dominantFamily).toBeNull();
+    expect(empty.mainDescriptor).toBeNull();
+    expect(empty.wheel.children).toEqual([]);
+
+    const profile = terpenes({ "α-Pinene": 0.5 });
+    expect(CDESAnalyzer.scoreAromaProfile(profile)).toEqual(scoreAromaProfile(profile));
+    expect(CDESAnalyzer.scoreAromaProfile(profile).dominantFamily).toBe("pine");
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Chemotype Tests
+ */
+
+import { classifyChemotype, DEFAULT_CHEMOTYPE_THRESHOLDS } from "../chemotype";
+import { CannabinoidProfile, COA } from "../models";
+
+function profile(values: Record<string, number>): CannabinoidProfile {
+  return {
+    batchId: "B1",
+    batchName: "Batch 1",
+    cannabinoids: new Map(Object.entries(values)),
+    totalCannabinoids: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+describe("Chemotypes", () => {
+  test("classifies types I-III from decarboxylated THC:CBD", () => {
+    const typeI = classifyChemotype(profile({ THCA: 24, THC: 0.5, CBDA: 0.1 }));
+    expect(typeI.chemotype).toBe("I");
+    expect(typeI.label).toBe("Type I (THC-dominant)");
+    expect(typeI.totals.thc).toBeCloseTo(0.5 + 0.877 * 24);
+    expect(typeI.ratioBand).toEqual({ label: "≥ 20:1 THC:CBD", min: 20, max: null });
+
+    // THCA alone would look like "no THC" to a THC-only comparison
+    const typeII = classifyChemotype(profile({ THCA: 8, CBDA: 10 }));
+    expect(typeII.chemotype).toBe("II");
+    expect(typeII.thcCbdRatio).toBeCloseTo(0.8);
+    expect(typeII.ratioBand).toEqual({ label: "1:2 – 2:1 THC:CBD", min: 0.5, max: 2 });
+
+    const typeIII = classifyChemotype(profile({ CBDA: 12, CBD: 1, THCA: 0.4 }));
+    expect(typeIII.chemotype).toBe("III");
+    expect(typeIII.ratioBand).toEqual({ label: "< 1:20 THC:CBD", min: null, max: 0.05 });
+
+    const thcOnly = classifyChemotype(profile({ THC: 18 }));
+    expect(thcOnly.thcCbdRatio).toBeNull();
+    expect(thcOnly.chemotype).toBe("I");
+  });
+
+  test("classifies CBG-dominant and cannabinoid-free profiles", () => {
+    const typeIV = classifyChemotype(profile({ CBGA: 12, THCA: 0.3 }));
+    expect(typeIV.chemotype).toBe("IV");
+    expect(typeIV.enrichments).toEqual([]);
+
+    const typeV = classifyChemotype(profile({ THCA: 0.1, CBDA: 0.1 }));
+    expect(typeV.chemotype).toBe("V");
+    expect(classifyChemotype(new Map()).ratioBand.label).toBe("No THC or CBD");
+  });
+
+  test("labels minor cannabinoid enrichment", () => {
+    const result = classifyChemotype([
+      { name: "THCA", percentage: 20 },
+      { name: "THCVA", percentage: 1 },
+      { name: "CBN", percentage: 0.6 },
+      { name: "CBGA", percentage: 1.5 },
+      { name: "CBC", percentage: 0.2 },
+    ]);
+    expect(result.enrichments.map((e) => e.label)).toEqual(["THCV-rich", "CBG-rich", "CBN-elevated"]);
+    expect(result.enrichments[0]).toEqual({ compound: "THCV", value: 0.867, threshold: 0.5, label: "THCV-rich" });
+  });
+
+  test("ignores total rows and repeated compounds", () => {
+    const result = classifyChemotype([
+      { name: "THC", percentage: 0.5 },
+      { name: "THCA", percentage: 24 },
+      { name: "Total THC", percentage: 21.55 },
+      { name: "Total Cannabinoids", percentage: 25.5 },
+      { name: "CBDA", percentage: 1 },
+      { name: "CBD-A", percentage: 1 },
+    ]);
+
+    expect(result.totals.thc).toBeCloseTo(21.548, 3);
+    expect(result.totals.cbd).toBeCloseTo(0.877, 3);
+    expect(result.chemotype).toBe("I");
+  });
+
+  test("accepts COAs and custom thresholds", () => {
+    const coa: COA = {
+      id: "C1",
+      lab: { name: "Lab" },
+      sample: { batchNumber: "C1", productName: "Sample" },
+      overallStatus: "pass",
+      cannabinoids: [
+        { name: "THCA", percentage: 12 },
+        { name: "CBDA", percentage: 3 },
+      ],
+    };
+    expect(classifyChemotype(coa).chemotype).toBe("II");
+
+    const relaxed = classifyChemotype(coa, { thresholds: { typeIMinRatio: 3 } });
+    expect(relaxed.chemotype).toBe("I");
+    expect(relaxed.thresholds.typeIMinRatio).toBe(3);
+    expect(relaxed.thresholds.minTotal).toBe(DEFAULT_CHEMOTYPE_THRESHOLDS.minTotal);
+
+    expect(() => classifyChemotype(coa, { thresholds: { typeIIIMaxRatio: 6 } }))
+      .toThrow("Invalid chemotype thresholds: typeIIIMaxRatio: expected less than typeIMinRatio");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Chemovar Fingerprint Tests
+ */
+
+import {
+  buildChemovarFingerprint,
+  compareChemovars,
+  Chemovar,
+  ChemovarOptions,
+} from "../chemovar";
+import { toRatioTerpeneValues } from "../ratioAnalysis";
+import { CDESAnalyzer } from "../analyzer";
+
+function chemovar(
+  batchId: string,
+  cannabinoids: Record<string, number>,
+  terpenes?: Record<string, number>
+): Chemovar {
+  const result: Chemovar = {
+    cannabinoids: {
+      batchId,
+      batchName: batchId,
+      cannabinoids: new Map(Object.entries(cannabinoids)),
+      totalCannabinoids: Object.values(cannabinoids).reduce((sum, v) => sum + v, 0),
+    },
+  };
+  if (terpenes) {
+    result.terpenes = {
+      batchId,
+      batchName: batchId,
+      terpenes: new Map(Object.entries(terpenes)),
+      totalTerpenes: Object.values(terpenes).reduce((sum, v) => sum + v, 0),
+    };
+  }
+  return result;
+}
+
+const target = chemovar("target", { THC: 20, CBD: 0.5 }, { "β-Myrcene": 0.8, "δ-Limonene": 0.3, "β-Caryophyllene": 0.2 });
+const sameTerpenes = chemovar("same", { THC: 23, CBD: 0.4 }, { "beta-Myrcene": 0.75, Limonene: 0.3, "β-Caryophyllene": 0.25 });
+const otherTerpenes = chemovar("other", { THC: 20, CBD: 0.5 }, { Terpinolene: 0.9, "α-Pinene": 0.3, "β-Myrcene": 0.05 });
+
+describe("Chemovar Fingerprints", () => {
+  test("re-keys terpene names for ratio analysis", () => {
+    expect(toRatioTerpeneValues(new Map([["beta-Myrcene", 0.5], ["δ-Limonene", 0.2], ["Nerolidol", 0.1]]))).toEqual({
+      myrcene: 0.5,
+      limonene: 0.2,
+    });
+  });
+
+  test("builds all three blocks", () => {
+    const fingerprint = buildChemovarFingerprint(target);
+
+    expect(fingerprint.cannabinoids.get("THC")).toBe(20);
+    expect(fingerprint.terpenes.size).toBe(3);
+    expect(fingerprint.clrCoordinates?.get("myrcene")).toBeGreaterThan(0);
+    expect(buildChemovarFingerprint(chemovar("c", { THC: 1 })).clrCoordinates).toBeNull();
+  });
+
+  test("terpenes separate batches with identical cannabinoids", () => {
+    const cannabinoidsOnly = CDESAnalyzer.compareProfiles(target.cannabinoids, otherTerpenes.cannabinoids);
+    const combined = compareChemovars(target, otherTerpenes);
+
+    expect(cannabinoidsOnly.similarity).toBe(100);
+    expect(combined.blocks.cannabinoids).toBe(100);
+    expect(combined.blocks.terpeneRatios).toBeLessThan(50);
+    expect(combined.similarity).toBeLessThan(compareChemovars(target, sameTerpenes).similarity);
+  });
+
+  test("block weights change the ranking", () => {
+    const byTerpenes = CDESAnalyzer.findSimilarChemovars(target, [otherTerpenes, sameTerpenes, target], 5, 0);
+    expect(byTerpenes.map((r) => r.chemovar.cannabinoids.batchId)).toEqual(["same", "other"]);
+    expect(byTerpenes[0].rank).toBe(1);
+
+    const byCannabinoids = CDESAnalyzer.findSimilarChemovars(target, [otherTerpenes, sameTerpenes], 5, 0, {
+      blockWeights: { terpenes: 0, terpeneRatios: 0 },
+    });
+    expect(byCannabinoids[0].chemovar.cannabinoids.batchId).toBe("other");
+  });
+
+  test("falls back to cannabinoids when terpenes are missing", () => {
+    const comparison = compareChemovars(target, chemovar("no-terps", { THC: 20, CBD: 0.5 }));
+
+    expect(comparison.blocks).toEqual({ cannabinoids: 100 });
+    expect(comparison.blocksCompared).toEqual(["cannabinoids"]);
+    expect(comparison.coverage).toBeCloseTo(1 / 3);
+    expect(comparison.similarity).toBe(100);
+  });
+
+  test("missing-block policy ranks full and partial candidates", () => {
+    const partial = chemovar("partial", { THC: 20, CBD: 0.5 });
+    const candidates = [partial, sameTerpenes, otherTerpenes];
+    const ids = (options: ChemovarOptions) =>
+      CDESAnalyzer.findSimilarChemovars(target, candidates, 5, 0, options).map((r) => r.chemovar.cannabinoids.batchId);
+
+    // Identical cannabinoids win when the missing terpene blocks are dropped
+    expect(ids({})[0]).toBe("partial");
+    expect(ids({ missingBlocks: "penalize" })).toEqual(["same", "other", "partial"]);
+    expect(ids({ missingBlocks: "require" })).toEqual(["same", "other"]);
+
+    const penalized = compareChemovars(target, partial, { missingBlocks: "penalize" });
+    expect(penalized.similarity).toBeCloseTo(100 / 3);
+  });
+});
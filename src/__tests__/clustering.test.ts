@@ -0,0 +1,151 @@
+/**
+ * Profile Clustering Tests
+ */
+
+import {
+  buildProfileMatrix,
+  hierarchicalClustering,
+  kMeansClustering,
+  silhouetteScores,
+} from "../clustering";
+import { CannabinoidProfile, TerpeneProfile } from "../models";
+
+function profile(batchId: string, values: Record<string, number>): CannabinoidProfile {
+  return {
+    batchId,
+    batchName: batchId,
+    cannabinoids: new Map(Object.entries(values)),
+    totalCannabinoids: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+function terpenes(batchId: string, values: Record<string, number>): TerpeneProfile {
+  return {
+    batchId,
+    batchName: batchId,
+    terpenes: new Map(Object.entries(values)),
+    totalTerpenes: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+// Three well-separated groups: THC-dominant, CBD-dominant, balanced
+const portfolio = [
+  profile("T1", { THCA: 25, CBDA: 0.1 }),
+  profile("C1", { THCA: 0.5, CBDA: 15 }),
+  profile("T2", { THCA: 24, CBDA: 0.2 }),
+  profile("B1", { THCA: 8, CBDA: 8 }),
+  profile("C2", { THCA: 0.6, CBDA: 14 }),
+  profile("T3", { THCA: 26, CBDA: 0.1 }),
+  profile("B2", { THCA: 7, CBDA: 9 }),
+  profile("C3", { THCA: 0.4, CBDA: 16 }),
+  profile("B3", { THCA: 9, CBDA: 7.5 }),
+];
+
+function groups(assignments: Array<{ batchId: string; cluster: number }>): string[][] {
+  const byCluster = new Map<number, string[]>();
+  for (const { batchId, cluster } of assignments) {
+    byCluster.set(cluster, [...(byCluster.get(cluster) ?? []), batchId]);
+  }
+  return [...byCluster.values()];
+}
+
+const expectedGroups = [["T1", "T2", "T3"], ["C1", "C2", "C3"], ["B1", "B2", "B3"]];
+
+describe("Profile Clustering", () => {
+  test("k-means picks k by silhouette and is deterministic", () => {
+    const result = kMeansClustering(portfolio);
+
+    expect(result.k).toBe(3);
+    expect(groups(result.assignments)).toEqual(expectedGroups);
+    expect(result.assignments[0].cluster).toBe(0);
+    expect(result.silhouette).toBeGreaterThan(0.8);
+    expect(Object.keys(result.silhouetteByK).map(Number)).toEqual([2, 3, 4, 5, 6, 7, 8]);
+    expect(result.centroids[0]).toEqual({
+      cluster: 0,
+      size: 3,
+      values: { THCA: expect.closeTo(25), CBDA: expect.closeTo(0.4 / 3) },
+    });
+    expect(kMeansClustering(portfolio)).toEqual(result);
+  });
+
+  test("k-means honours a fixed k", () => {
+    const result = kMeansClustering(portfolio, { k: 2, seed: 7 });
+    expect(result.k).toBe(2);
+    expect(result.centroids).toHaveLength(2);
+    expect(result.silhouetteByK).toEqual({ 2: result.silhouette });
+  });
+
+  test("k-means reports the clusters it could fill when k exceeds the distinct profiles", () => {
+    const duplicates = [
+      profile("A1", { THCA: 20, CBDA: 1 }),
+      profile("A2", { THCA: 20, CBDA: 1 }),
+      profile("A3", { THCA: 20, CBDA: 1 }),
+      profile("B1", { THCA: 1, CBDA: 12 }),
+      profile("B2", { THCA: 1, CBDA: 12 }),
+    ];
+    const result = kMeansClustering(duplicates, { k: 4 });
+
+    expect(result.k).toBe(2);
+    expect(result.centroids).toHaveLength(result.k);
+    expect(result.centroids.map((c) => c.size)).toEqual([3, 2]);
+    expect(result.silhouetteByK).toEqual({ 2: result.silhouette });
+    expect(groups(result.assignments)).toEqual([["A1", "A2", "A3"], ["B1", "B2"]]);
+    expect(result.inertia).toBe(0);
+  });
+
+  test.each(["ward", "average", "complete"] as const)("hierarchical clustering with %s linkage", (linkage) => {
+    const result = hierarchicalClustering(portfolio, { linkage });
+
+    expect(result.k).toBe(3);
+    expect(groups(result.assignments)).toEqual(expectedGroups);
+    expect(result.merges).toHaveLength(portfolio.length - 1);
+    expect(result.dendrogram.size).toBe(portfolio.length);
+    expect(result.dendrogram.id).toBe(2 * portfolio.length - 2);
+    expect([...result.leafOrder].sort()).toEqual(portfolio.map((p) => p.batchId).sort());
+
+    const heights = result.merges.map((m) => m.height);
+    expect(heights).toEqual([...heights].sort((a, b) => a - b));
+  });
+
+  test("dendrogram leaves keep the batch id and merges reference earlier nodes", () => {
+    const result = hierarchicalClustering(portfolio.slice(0, 3), { linkage: "complete", k: 2 });
+
+    expect(result.merges[0]).toEqual({ left: 0, right: 2, height: expect.closeTo(Math.hypot(1, 0.1)), size: 2 });
+    expect(result.dendrogram.children![0].id).toBe(1);
+    expect(result.dendrogram.children![1].children!.map((c) => c.batchId)).toEqual(["T1", "T2"]);
+    expect(result.leafOrder).toEqual(["C1", "T1", "T2"]);
+  });
+
+  test("clusters terpene profiles in CLR space", () => {
+    const sets = [
+      terpenes("M1", { "β-Myrcene": 1.0, "δ-Limonene": 0.1 }),
+      terpenes("M2", { "β-Myrcene": 0.5, "δ-Limonene": 0.05 }),
+      terpenes("L1", { "β-Myrcene": 0.1, "δ-Limonene": 1.0 }),
+      terpenes("L2", { "β-Myrcene": 0.04, "δ-Limonene": 0.4 }),
+    ];
+
+    const plain = buildProfileMatrix(sets);
+    const clr = buildProfileMatrix(sets, "clr");
+    expect(plain.features).toEqual(["β-Myrcene", "δ-Limonene"]);
+    expect(clr.rows[0][0]).toBeCloseTo(clr.rows[1][0]);
+    expect(clr.rows[0][0] + clr.rows[0][1]).toBeCloseTo(0);
+
+    // Same ratios at different totals group together only in CLR space
+    const result = kMeansClustering(sets, { space: "clr", k: 2 });
+    expect(groups(result.assignments)).toEqual([["M1", "M2"], ["L1", "L2"]]);
+    expect(result.space).toBe("clr");
+  });
+
+  test("silhouette scores", () => {
+    const rows = [[0], [1], [10], [11]];
+    const scores = silhouetteScores(rows, [0, 0, 1, 1]);
+    expect(scores[0]).toBeCloseTo(1 - 1 / 10.5);
+    expect(silhouetteScores(rows, [0, 0, 0, 0])).toEqual([0, 0, 0, 0]);
+    expect(silhouetteScores(rows, [0, 1, 1, 1])[0]).toBe(0);
+  });
+
+  test("rejects an empty input", () => {
+    expect(() => kMeansClustering([])).toThrow("empty");
+    expect(() => hierarchicalClustering([])).toThrow("empty");
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Compliance Rule Pack Tests
+ */
+
+import {
+  evaluateCompliance,
+  loadCompliancePack,
+  registerCompliancePack,
+  getCompliancePack,
+  clearCompliancePacks,
+  CompliancePack,
+} from "../compliance";
+import { COA } from "../models";
+
+const packJSON = {
+  id: "ex-flower",
+  jurisdiction: "EX",
+  version: "2026.1",
+  productTypes: ["flower"],
+  categories: {
+    heavyMetals: {
+      analytes: [
+        { analyte: "Lead", aliases: ["Pb"], limit: 0.5, unit: "ppm" },
+        { analyte: "Arsenic", limit: 0.2, unit: "ppm" },
+      ],
+    },
+    microbials: {
+      analytes: [{ analyte: "Salmonella", limit: 0, unit: "CFU/g", type: "absence" }],
+    },
+  },
+};
+
+function makeCOA(): COA {
+  return {
+    id: "coa-1",
+    lab: { name: "Acme Labs" },
+    sample: { batchNumber: "B-1", productName: "Flower", productType: "flower" },
+    overallStatus: "pass",
+    safetyTests: {
+      heavyMetals: {
+        status: "pass",
+        analytes: [
+          { analyte: "Pb", result: 600, unit: "ppb", limit: 1, status: "pass" },
+          { analyte: "Arsenic", resultText: "ND", status: "pass" },
+        ],
+      },
+      microbials: {
+        status: "pass",
+        analytes: [{ analyte: "Salmonella", resultText: "Not Detected", status: "not-detected" }],
+      },
+    },
+  };
+}
+
+describe("Compliance Rule Packs", () => {
+  afterEach(() => clearCompliancePacks());
+
+  test("loadCompliancePack rejects malformed packs", () => {
+    expect(() =>
+      loadCompliancePack({
+        id: "bad",
+        jurisdiction: "EX",
+        version: "1",
+        categories: { pesticide: { analytes: [] }, heavyMetals: { analytes: [{ analyte: "Lead" }] } },
+      })
+    ).toThrow(/categories\.pesticide: unknown.*heavyMetals\.analytes\[0\]\.limit/);
+  });
+
+  test("registry prefers product-specific packs", () => {
+    const flower = loadCompliancePack(packJSON);
+    const general: CompliancePack = { ...flower, id: "ex-all", productTypes: undefined };
+    registerCompliancePack(general);
+    registerCompliancePack(flower);
+
+    expect(getCompliancePack("ex", "flower")?.id).toBe("ex-flower");
+    expect(getCompliancePack("EX", "edible")?.id).toBe("ex-all");
+    expect(getCompliancePack("ZZ")).toBeUndefined();
+  });
+
+  test("re-evaluates analytes with unit conversion and reports disagreements", () => {
+    const report = evaluateCompliance(makeCOA(), loadCompliancePack(packJSON));
+    const metals = report.categories.find((c) => c.category === "heavyMetals")!;
+
+    // 600 ppb = 0.6 ppm, above the 0.5 ppm limit
+    expect(metals.analytes[0].computedStatus).toBe("fail");
+    expect(metals.analytes[1].computedStatus).toBe("pass");
+    expect(metals.computedStatus).toBe("fail");
+    expect(report.overallStatus).toBe("fail");
+    expect(report.agreesWithLab).toBe(false);
+    expect(report.discrepancies.map((d) => [d.path, d.kind])).toEqual([
+      ["safetyTests.heavyMetals.analytes[0].status", "analyte-status"],
+      ["safetyTests.heavyMetals.analytes[0].limit", "limit"],
+      ["safetyTests.heavyMetals.status", "category-status"],
+      ["overallStatus", "overall-status"],
+    ]);
+  });
+
+  test("below-LOQ and trace results pass only against a known LOQ", () => {
+    const coa = makeCOA();
+    coa.safetyTests!.heavyMetals!.analytes = [
+      { analyte: "Lead", resultText: "<LOQ", unit: "ppm", status: "pass" },
+      { analyte: "Arsenic", resultText: "Trace", unit: "ppm", status: "pass" },
+    ];
+    const unknown = evaluateCompliance(coa, loadCompliancePack(packJSON));
+    const metals = unknown.categories.find((c) => c.category === "heavyMetals")!;
+
+    expect(metals.analytes.map((a) => a.computedStatus)).toEqual(["pending", "pending"]);
+
+    coa.safetyTests!.heavyMetals!.analytes![0].resultText = "<0.05";
+    const known = evaluateCompliance(coa, loadCompliancePack(packJSON));
+
+    expect(known.categories.find((c) => c.category === "heavyMetals")!.analytes[0].computedStatus).toBe("pass");
+  });
+
+  test("missing categories and analytes are not treated as passing", () => {
+    const coa = makeCOA();
+    delete coa.safetyTests!.microbials;
+    coa.safetyTests!.heavyMetals!.analytes = [
+      { analyte: "Lead", result: 0.1, unit: "ppm", status: "pass" },
+    ];
+
+    const report = evaluateCompliance(coa, loadCompliancePack(packJSON));
+
+    expect(report.categories.map((c) => c.computedStatus)).toEqual(["not-tested", "pending"]);
+    expect(report.overallStatus).toBe("pending");
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Compound Name Resolution Tests
+ */
+
+import { resolveCompoundName } from "../compounds";
+
+describe("resolveCompoundName", () => {
+  test.each([
+    ["THC", "THC", undefined],
+    ["Δ9-THC (%)", "THC", "%"],
+    ["d9-THCA", "THCA", undefined],
+    ["THCa mg/g", "THCA", "mg/g"],
+    ["delta-8 THC", "Delta-8 THC", undefined],
+    ["Δ8-THC", "Delta-8 THC", undefined],
+    ["CBD-A", "CBDA", undefined],
+    ["Cannabigerol", "CBG", undefined],
+    ["cbgA", "CBGA", undefined],
+  ])("resolves cannabinoid label %s", (label, name, unit) => {
+    expect(resolveCompoundName(label)).toEqual(
+      unit ? { kind: "cannabinoid", name, unit } : { kind: "cannabinoid", name }
+    );
+  });
+
+  test("resolves terpene aliases", () => {
+    expect(resolveCompoundName("beta-Myrcene")).toEqual({ kind: "terpene", name: "β-Myrcene" });
+    expect(resolveCompoundName("Limonene (mg/g)")).toEqual({
+      kind: "terpene",
+      name: "δ-Limonene",
+      unit: "mg/g",
+    });
+  });
+
+  test("ignores totals and unknown labels", () => {
+    expect(resolveCompoundName("Total THC")).toBeUndefined();
+    expect(resolveCompoundName("Total Terpenes (%)")).toBeUndefined();
+    expect(resolveCompoundName("total_thc")).toBeUndefined();
+    expect(resolveCompoundName("totalTHC")).toBeUndefined();
+    expect(resolveCompoundName("Batch Count")).toBeUndefined();
+    expect(resolveCompoundName("")).toBeUndefined();
+  });
+
+  test("ignores trailing totals, sums and ratios", () => {
+    expect(resolveCompoundName("THC Total")).toBeUndefined();
+    expect(resolveCompoundName("thc_total")).toBeUndefined();
+    expect(resolveCompoundName("thcTotal")).toBeUndefined();
+    expect(resolveCompoundName("Sum of Cannabinoids")).toBeUndefined();
+    expect(resolveCompoundName("THC:CBD Ratio")).toBeUndefined();
+    expect(resolveCompoundName("THC:CBD")).toBeUndefined();
+    expect(resolveCompoundName("CBD Ratio")).toBeUndefined();
+    expect(resolveCompoundName("cbdRatio (%)")).toBeUndefined();
+    expect(resolveCompoundName("THCa Result")).toEqual({ kind: "cannabinoid", name: "THCA" });
+  });
+
+  test("only accepts result and unit words next to an abbreviation", () => {
+    expect(resolveCompoundName("CBD Concentration (mg/g)")).toEqual({ kind: "cannabinoid", name: "CBD", unit: "mg/g" });
+    expect(resolveCompoundName("Exo-THC")).toBeUndefined();
+    expect(resolveCompoundName("THC Isomer")).toBeUndefined();
+    expect(resolveCompoundName("THC CBD")).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * CSV / TSV Import Tests
+ */
+
+import { detectDelimiter, parseDelimitedText, resolveCSVColumn } from "../csv";
+import { CDESParser } from "../parser";
+import { validateCOA } from "../validation";
+
+const WIDE_CSV = [
+  "﻿Batch #,Strain,Lab,Product Type,Δ9-THC (%),THCa mg/g,CBD (%),beta-Myrcene,Moisture",
+  'B-100,"OG Kush, Phenotype 2",Acme Labs,Flower,0.8,245.0,ND,0.61,9.8',
+  "B-101,Harlequin,Acme Labs,Flower,0.3,<LOQ,9.4,0.22,10.1",
+].join("\r\n");
+
+describe("CSV Import", () => {
+  test("sniffs delimiters and tokenizes quoted cells", () => {
+    expect(detectDelimiter("a,b,c\n1,2,3")).toBe(",");
+    expect(detectDelimiter("a\tb\tc\n1\t2,5\t3")).toBe("\t");
+    expect(detectDelimiter("a;b;c\n1;2,5;3")).toBe(";");
+
+    expect(parseDelimitedText('a,"b ""quoted""","multi\nline"\n\n1,2,3\n', ",")).toEqual([
+      ["a", 'b "quoted"', "multi\nline"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  test("recognizes metadata column aliases", () => {
+    expect(resolveCSVColumn("Batch #")).toBe("batchId");
+    expect(resolveCSVColumn("Lot Number")).toBe("batchId");
+    expect(resolveCSVColumn("Cultivar")).toBe("strainName");
+    expect(resolveCSVColumn("THC")).toBeUndefined();
+  });
+
+  test("imports a wide export into profiles and COAs", () => {
+    const result = CDESParser.parseCSV(WIDE_CSV);
+
+    expect(result.delimiter).toBe(",");
+    expect(result.parseMode).toBe("cdes");
+    expect(result.profiles).toHaveLength(2);
+
+    const [first, second] = result.profiles;
+    expect(first.batchName).toBe("OG Kush, Phenotype 2");
+    expect(first.cannabinoids.get("THC")).toBe(0.8);
+    expect(first.cannabinoids.get("THCA")).toBeCloseTo(24.5);
+    expect(first.measurements?.get("CBD")?.state).toBe("not-detected");
+    expect(second.measurements?.get("THCA")?.state).toBe("below-loq");
+    expect(result.terpeneProfiles?.[0].terpenes.get("β-Myrcene")).toBe(0.61);
+
+    expect(result.unmappedColumns).toEqual([{ index: 8, displayName: "Moisture" }]);
+    expect(result.diagnostics?.counts["unknown-compound"]).toBe(1);
+
+    const coa = result.coas[0];
+    expect(validateCOA(coa).valid).toBe(true);
+    expect(coa.lab.name).toBe("Acme Labs");
+    expect(coa.sample).toMatchObject({ batchNumber: "B-100", productType: "flower" });
+    expect(coa.potencyResults?.totalThc).toBeCloseTo(0.8 + 0.877 * 24.5);
+    expect(coa.cannabinoids?.find((c) => c.name === "CBD")).toMatchObject({
+      percentage: 0,
+      measurement: { state: "not-detected" },
+    });
+  });
+
+  test("reports potency of mg columns without a unit context as a diagnostic", () => {
+    const csv = "Batch ID,Strain,THC (mg),THCA (mg)\nB1,Blue Dream,5,20\n";
+    const result = CDESParser.parseCSV(csv, { targetUnit: "mg" });
+
+    expect(result.profiles[0].cannabinoids.get("THCA")).toBe(20);
+    expect(result.coas[0].potencyResults).toEqual({ status: "not-tested" });
+    expect(result.diagnostics?.counts["unit-conversion"]).toBe(1);
+    expect(result.diagnostics?.issues[0]).toMatchObject({ code: "unit-conversion", batchId: "B1" });
+  });
+
+  test("imports a long TSV export with a unit column", () => {
+    const tsv = [
+      "Sample ID\tAnalyte\tResult\tUnits",
+      "S-1\tTHCA\t212\tmg/g",
+      "S-1\tLimonene\t0.45\t%",
+      "S-1\tUnobtainium\t1\t%",
+      "S-1\tTHCA\t215\tmg/g",
+    ].join("\n");
+
+    const result = CDESParser.parseCSV(tsv);
+
+    expect(result.delimiter).toBe("\t");
+    expect(result.parseMode).toBe("standard");
+    expect(result.profiles[0].cannabinoids.get("THCA")).toBeCloseTo(21.2);
+    expect(result.terpeneProfiles?.[0].terpenes.get("δ-Limonene")).toBe(0.45);
+    expect(result.diagnostics?.issues.map((i) => [i.code, i.row])).toEqual([
+      ["unknown-compound", 2],
+      ["duplicate", 3],
+    ]);
+    expect(result.diagnostics?.rowsSkipped).toBe(2);
+  });
+});
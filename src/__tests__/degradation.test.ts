@@ -0,0 +1,110 @@
+/**
+ * Degradation Tests
+ */
+
+import { DEFAULT_DEGRADATION_RATES, projectDegradation } from "../degradation";
+import { Batch, COA } from "../models";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function batch(cannabinoids: Record<string, number>, terpenes: Record<string, number> = {}): Batch {
+  return {
+    id: "B1",
+    name: "Batch 1",
+    strain: "Blue Dream",
+    dispensaryId: "D1",
+    processedDate: new Date("2026-01-01"),
+    labResult: {
+      cannabinoids: Object.entries(cannabinoids).map(([name, percentage]) => ({ name, percentage })),
+      terpenes: Object.entries(terpenes).map(([name, percentage]) => ({ name, percentage })),
+      testDate: new Date("2026-01-10"),
+    },
+  };
+}
+
+const tested = new Date("2026-01-10");
+const after = (days: number) => new Date(tested.getTime() + days * DAY);
+
+describe("Degradation", () => {
+  test("oxidizes THC to CBN with first-order kinetics", () => {
+    const projection = projectDegradation(batch({ THC: 20 }), { asOf: after(365) });
+    const k = DEFAULT_DEGRADATION_RATES.oxidation;
+
+    expect(projection.days).toBe(365);
+    const thc = projection.cannabinoids.find((c) => c.compound === "THC")!;
+    const cbn = projection.cannabinoids.find((c) => c.compound === "CBN")!;
+    expect(thc.initial).toBe(20);
+    expect(thc.estimate).toBeCloseTo(20 * Math.exp(-k * 365), 3);
+    expect(thc.lower).toBeCloseTo(20 * Math.exp(-k * 1.5 * 365), 3);
+    expect(thc.upper).toBeCloseTo(20 * Math.exp(-k * 0.5 * 365), 3);
+    expect(cbn.initial).toBe(0);
+    expect(cbn.estimate).toBeCloseTo(0.5 * (20 - thc.estimate), 3);
+    expect(projection.totalThc.estimate).toBeCloseTo(thc.estimate, 3);
+  });
+
+  test("decarboxylates THCA without changing Total THC", () => {
+    const projection = projectDegradation(batch({ THCA: 20 }), {
+      asOf: after(100),
+      rates: { oxidation: 0 },
+    });
+    const thca = projection.cannabinoids.find((c) => c.compound === "THCA")!;
+    const thc = projection.cannabinoids.find((c) => c.compound === "THC")!;
+
+    expect(thca.estimate).toBeCloseTo(20 * Math.exp(-0.0005 * 100), 3);
+    expect(thc.estimate).toBeCloseTo(0.877 * (20 - thca.estimate), 3);
+    expect(projection.totalThc.estimate).toBeCloseTo(projection.totalThc.initial, 3);
+    expect(projection.shelfLife.belowClaimDate).toBeNull();
+  });
+
+  test("volatilizes low-boiling terpenes faster, more so when warm and opened", () => {
+    // boilingPointC: myrcene 167 °C, linalool 198 °C
+    const input = batch({ THC: 20 }, { "β-Myrcene": 1, Linalool: 1 });
+    const sealed = projectDegradation(input, { asOf: after(180) });
+    const myrcene = sealed.terpenes.find((t) => t.compound === "β-Myrcene")!;
+    const linalool = sealed.terpenes.find((t) => t.compound === "Linalool")!;
+    expect(myrcene.estimate).toBeCloseTo(Math.exp(-0.003 * Math.exp(-17 / 30) * 180), 3);
+    expect(myrcene.estimate).toBeLessThan(linalool.estimate);
+    expect(sealed.totalTerpenes.initial).toBe(2);
+
+    const warm = projectDegradation(input, {
+      asOf: after(180),
+      storage: { temperatureC: 31, packaging: "opened", light: "direct" },
+    });
+    expect(warm.totalTerpenes.estimate).toBeLessThan(sealed.totalTerpenes.estimate);
+    expect(warm.totalThc.estimate).toBeCloseTo(20 * Math.exp(-0.0005 * 2 * 4 * 180), 3);
+  });
+
+  test("projects the date Total THC drops below the label claim", () => {
+    const projection = projectDegradation(batch({ THC: 20 }), {
+      asOf: after(30),
+      labelClaim: { totalThc: 20, tolerance: 0.1 },
+    });
+    const { shelfLife } = projection;
+    const expectedDays = Math.log(1 / 0.9) / 0.0005;
+
+    expect(shelfLife.threshold).toBeCloseTo(18);
+    expect(shelfLife.withinTolerance).toBe(true);
+    expect((shelfLife.belowClaimDate!.getTime() - tested.getTime()) / DAY).toBeCloseTo(expectedDays, 0);
+    expect(shelfLife.earliestDate!.getTime()).toBeLessThan(shelfLife.belowClaimDate!.getTime());
+    expect(shelfLife.latestDate!.getTime()).toBeGreaterThan(shelfLife.belowClaimDate!.getTime());
+
+    const overClaimed = projectDegradation(batch({ THC: 15 }), { asOf: after(30), labelClaim: { totalThc: 20 } });
+    expect(overClaimed.shelfLife.belowClaimDate).toEqual(tested);
+    expect(overClaimed.shelfLife.withinTolerance).toBe(false);
+  });
+
+  test("reads COA test dates and rejects inputs without one", () => {
+    const coa: COA = {
+      id: "C1",
+      lab: { name: "Lab" },
+      sample: { batchNumber: "C1", productName: "Flower", testedDate: "2026-01-10" },
+      overallStatus: "pass",
+      cannabinoids: [{ name: "THCa", percentage: 22 }],
+    };
+    expect(projectDegradation(coa, { asOf: after(10) }).days).toBe(10);
+    expect(projectDegradation(coa, { asOf: after(10) }).cannabinoids[0].compound).toBe("THCA");
+
+    expect(() => projectDegradation({ ...coa, sample: { batchNumber: "C1", productName: "Flower" } }))
+      .toThrow("Cannot project degradation: no valid test date");
+  });
+});
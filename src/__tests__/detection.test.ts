@@ -0,0 +1,109 @@
+/**
+ * Detection Value Tests
+ */
+
+import {
+  parseMeasuredValue,
+  measuredAmount,
+  formatMeasuredValue,
+  isQuantified,
+} from "../detection";
+import { CDESParser } from "../parser";
+import { evaluateCompliance, loadCompliancePack } from "../compliance";
+import { validateCOA } from "../validation";
+import { COA } from "../models";
+
+describe("Detection Values", () => {
+  test("parses lab result text into detection states", () => {
+    expect(parseMeasuredValue("12.3")).toEqual({ state: "detected", value: 12.3, raw: "12.3" });
+    expect(parseMeasuredValue(0.4)).toEqual({ state: "detected", value: 0.4 });
+    expect(parseMeasuredValue("ND")?.state).toBe("not-detected");
+    expect(parseMeasuredValue("<LOD")?.state).toBe("not-detected");
+    expect(parseMeasuredValue("<LOQ")?.state).toBe("below-loq");
+    expect(parseMeasuredValue("BLQ")?.state).toBe("below-loq");
+    expect(parseMeasuredValue("<0.05")).toEqual({ state: "below-loq", loq: 0.05, raw: "<0.05" });
+    expect(parseMeasuredValue("Trace")?.state).toBe("trace");
+    expect(parseMeasuredValue("NT")?.state).toBe("not-tested");
+    expect(parseMeasuredValue("")?.state).toBe("not-tested");
+    expect(parseMeasuredValue("lots")).toBeUndefined();
+  });
+
+  test("applies known detection limits to numbers", () => {
+    expect(parseMeasuredValue(0.01, { lod: 0.02, loq: 0.05 })?.state).toBe("not-detected");
+    expect(parseMeasuredValue(0.03, { lod: 0.02, loq: 0.05 })?.state).toBe("below-loq");
+    expect(parseMeasuredValue(0.08, { lod: 0.02, loq: 0.05 })).toMatchObject({
+      state: "detected",
+      lod: 0.02,
+      loq: 0.05,
+    });
+  });
+
+  test("keeps not detected and not tested apart", () => {
+    const nd = parseMeasuredValue("ND", { lod: 0.02 })!;
+    const bloq = parseMeasuredValue("<0.05")!;
+
+    expect(measuredAmount(nd)).toBe(0);
+    expect(measuredAmount(nd, "half-limit")).toBe(0.01);
+    expect(measuredAmount(bloq, "limit")).toBe(0.05);
+    expect(measuredAmount({ state: "not-tested" })).toBeUndefined();
+    expect(isQuantified(nd)).toBe(false);
+    expect(formatMeasuredValue(bloq)).toBe("<0.05");
+    expect(formatMeasuredValue(nd)).toBe("ND");
+  });
+
+  test("parser keeps non-detects in measurements", () => {
+    const { profile, diagnostics } = CDESParser.parseBatchJSONWithDiagnostics(
+      { id: "b1", unit: "mg/g", thc: "210", cbd: "ND", cbn: "<0.5", cbg: "Trace" }
+    );
+
+    expect(diagnostics.issues).toHaveLength(0);
+    expect(profile.cannabinoids.get("THC")).toBe(21);
+    expect(profile.cannabinoids.has("CBD")).toBe(false);
+    expect(profile.measurements?.get("CBD")?.state).toBe("not-detected");
+    expect(profile.measurements?.get("CBN")).toMatchObject({ state: "below-loq", loq: 0.05 });
+    expect(profile.measurements?.get("CBG")?.state).toBe("trace");
+    expect(profile.measurements?.has("CBC")).toBe(false);
+  });
+
+  test("compliance checks the LOQ of below-LOQ results against the limit", () => {
+    const pack = loadCompliancePack({
+      id: "ex",
+      jurisdiction: "EX",
+      version: "1",
+      categories: {
+        pesticides: {
+          analytes: [
+            { analyte: "Myclobutanil", limit: 0.1, unit: "ppm" },
+            { analyte: "Bifenazate", limit: 0.1, unit: "ppm" },
+          ],
+        },
+      },
+    });
+    const coa: COA = {
+      id: "coa-1",
+      lab: { name: "Acme Labs" },
+      sample: { batchNumber: "B-1", productName: "Flower" },
+      overallStatus: "pass",
+      safetyTests: {
+        pesticides: {
+          status: "pass",
+          analytes: [
+            { analyte: "Myclobutanil", resultText: "<0.05", unit: "ppm", status: "pass" },
+            {
+              analyte: "Bifenazate",
+              unit: "ppm",
+              status: "pass",
+              measurement: { state: "below-loq", loq: 0.2 },
+            },
+          ],
+        },
+      },
+    };
+
+    const report = evaluateCompliance(coa, pack);
+    const statuses = report.categories[0].analytes.map((a) => a.computedStatus);
+
+    expect(validateCOA(coa).valid).toBe(true);
+    expect(statuses).toEqual(["pass", "pending"]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Distance Metric Tests
+ */
+
+import {
+  calculateDistance,
+  distanceToSimilarity,
+  DISTANCE_METRICS,
+  DistanceMetric,
+} from "../distance";
+import { CDESAnalyzer } from "../analyzer";
+import { CannabinoidProfile } from "../models";
+
+function profile(batchId: string, values: Record<string, number>): CannabinoidProfile {
+  const cannabinoids = new Map(Object.entries(values));
+  return {
+    batchId,
+    batchName: batchId,
+    cannabinoids,
+    totalCannabinoids: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+describe("Distance Metrics", () => {
+  const a = new Map([["THC", 20], ["CBD", 1], ["CBG", 0.1]]);
+  const b = new Map([["THC", 20], ["CBD", 1], ["CBG", 2]]);
+
+  test("identical profiles have zero distance under every metric", () => {
+    for (const metric of Object.keys(DISTANCE_METRICS) as DistanceMetric[]) {
+      expect(calculateDistance(a, new Map(a), { metric })).toBeCloseTo(0);
+      expect(distanceToSimilarity(0, metric)).toBe(100);
+    }
+  });
+
+  test("computes each metric", () => {
+    expect(calculateDistance(a, b)).toBeCloseTo(1.9);
+    expect(calculateDistance(a, b, { metric: "manhattan" })).toBeCloseTo(1.9);
+    expect(calculateDistance(a, b, { metric: "bray-curtis" })).toBeCloseTo(1.9 / 44.2);
+    expect(calculateDistance(a, b, { metric: "weighted-euclidean", weights: { CBG: 4 } })).toBeCloseTo(3.8);
+    expect(
+      calculateDistance(new Map([["THC", 1]]), new Map([["CBD", 1]]), { metric: "cosine" })
+    ).toBeCloseTo(1);
+  });
+
+  test("aitchison lets minor compounds count", () => {
+    const euclidean = distanceToSimilarity(calculateDistance(a, b), "euclidean");
+    const aitchison = distanceToSimilarity(
+      calculateDistance(a, b, { metric: "aitchison" }),
+      "aitchison"
+    );
+
+    expect(euclidean).toBeGreaterThan(80);
+    expect(aitchison).toBeLessThan(60);
+  });
+
+  test("analyzer records the metric it used", () => {
+    const p1 = profile("p1", { THC: 20, CBD: 1, CBG: 0.1 });
+    const p2 = profile("p2", { THC: 20, CBD: 1, CBG: 2 });
+
+    expect(CDESAnalyzer.compareProfiles(p1, p2).metric).toBe("euclidean");
+
+    const comparison = CDESAnalyzer.compareProfiles(p1, p2, { metric: "cosine" });
+    expect(comparison.metric).toBe("cosine");
+    expect(comparison.similarity).toBeCloseTo(100 * (1 - comparison.distance));
+
+    const similar = CDESAnalyzer.findSimilarProfiles(p1, [p1, p2], 5, 0, { metric: "aitchison" });
+    expect(similar).toHaveLength(1);
+    expect(similar[0].metric).toBe("aitchison");
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Inter-Lab Bias Tests
+ */
+
+import { analyzeLabBias, applyLabCorrections } from "../labBias";
+import { Batch, COA } from "../models";
+
+function coa(
+  id: string,
+  lab: string,
+  strain: string,
+  cannabinoids: Record<string, number>,
+  terpenes: Record<string, number> = {}
+): COA {
+  return {
+    id,
+    lab: { name: lab },
+    sample: { batchNumber: id, productName: strain, strainName: strain },
+    overallStatus: "pass",
+    cannabinoids: Object.entries(cannabinoids).map(([name, percentage]) => ({ name, percentage })),
+    terpenes: Object.entries(terpenes).map(([name, percentage]) => ({ name, percentage })),
+  };
+}
+
+const strains: Array<[string, number]> = [
+  ["Blue Dream", 20],
+  ["Gelato", 24],
+  ["OG Kush", 18],
+  ["Sour Diesel", 22],
+  ["Wedding Cake", 26],
+];
+
+// Lab A reads 10% high; labs B, C and D agree with each other within noise
+const noise = {
+  B: [0.1, -0.1, 0, 0.1, -0.1],
+  C: [0.2, -0.2, 0.15, -0.05, 0.1],
+  D: [-0.1, 0, 0.1, -0.1, 0],
+};
+const coas = strains.flatMap(([strain, thca], i) => [
+  coa(`A${i}`, "Lab A", strain, { THCA: thca * 1.1, CBGA: 1 }, { "beta-Myrcene": 0.5 }),
+  ...(["B", "C", "D"] as const).map((lab) =>
+    coa(`${lab}${i}`, `Lab ${lab}`, strain, { THCA: thca + noise[lab][i], CBGA: 1 }, { "beta-Myrcene": 0.5 })
+  ),
+]);
+
+describe("Inter-Lab Bias", () => {
+  test("estimates offsets and scale factors per lab and compound", () => {
+    const report = analyzeLabBias(coas);
+    expect(report.labs.map((l) => l.lab)).toEqual(["Lab A", "Lab B", "Lab C", "Lab D"]);
+    expect(report.labs[0]).toEqual(expect.objectContaining({ resultCount: 5, sharedGroups: 5 }));
+
+    const labA = report.labs[0].estimates.find((e) => e.compound === "THCA")!;
+    expect(labA.compoundType).toBe("cannabinoid");
+    expect(labA.scale!.estimate).toBeGreaterThan(1.09);
+    expect(labA.scale!.estimate).toBeLessThan(1.11);
+    expect(labA.scale!.lower).toBeGreaterThan(1);
+    expect(labA.offset.estimate).toBeCloseTo(2.2, 0);
+    expect(labA.offset.n).toBe(5);
+    expect(labA.significant).toBe(true);
+
+    const labC = report.labs[2].estimates.find((e) => e.compound === "THCA")!;
+    expect(labC.significant).toBe(false);
+    expect(labC.scale!.estimate).toBeCloseTo(1, 1);
+  });
+
+  test("includes terpenes under canonical names unless disabled", () => {
+    const report = analyzeLabBias(coas);
+    const myrcene = report.estimates.find((e) => e.lab === "Lab B" && e.compoundType === "terpene")!;
+    expect(myrcene.compound).toBe("β-Myrcene");
+    expect(myrcene.offset).toEqual({ estimate: 0, lower: 0, upper: 0, n: 5 });
+
+    const cannabinoidsOnly = analyzeLabBias(coas, { includeTerpenes: false });
+    expect(cannabinoidsOnly.estimates.every((e) => e.compoundType === "cannabinoid")).toBe(true);
+  });
+
+  test("uses Student-t intervals against the consensus or a reference lab", () => {
+    const pairs = [
+      coa("1", "X", "S1", { CBD: 11 }), coa("2", "Y", "S1", { CBD: 10 }),
+      coa("3", "X", "S2", { CBD: 12 }), coa("4", "Y", "S2", { CBD: 10 }),
+      coa("5", "X", "S3", { CBD: 13 }), coa("6", "Y", "S3", { CBD: 10 }),
+    ];
+
+    // With two labs each is compared with the other, so the full offset shows
+    const consensus = analyzeLabBias(pairs);
+    const x = consensus.estimates.find((e) => e.lab === "X")!;
+    expect(consensus.referenceLab).toBeNull();
+    expect(x.offset.estimate).toBeCloseTo(2);
+    expect(x.offset.upper! - x.offset.estimate).toBeCloseTo(4.303 / Math.sqrt(3), 2);
+    expect(x.scale!.estimate).toBeCloseTo(Math.cbrt(1.1 * 1.2 * 1.3), 4);
+    expect(consensus.estimates.find((e) => e.lab === "Y")!.offset.estimate).toBeCloseTo(-2);
+
+    const againstY = analyzeLabBias(pairs, { referenceLab: "Y" });
+    expect(againstY.labs.map((l) => l.lab)).toEqual(["X"]);
+    expect(againstY.estimates[0].offset.estimate).toBeCloseTo(2);
+    expect(againstY.estimates[0].offset.lower).toBeCloseTo(2 - 4.303 / Math.sqrt(3), 2);
+  });
+
+  test("matches split samples and batches by lab name", () => {
+    const batch = (id: string, lab: string, thca: number): Batch => ({
+      id,
+      name: "Split",
+      strain: "Gelato",
+      dispensaryId: "d1",
+      processedDate: new Date("2024-01-01"),
+      labResult: {
+        cannabinoids: [{ name: "THCA", percentage: thca }],
+        terpenes: [],
+        testDate: new Date("2024-01-02"),
+        labName: lab,
+      },
+    });
+
+    const report = analyzeLabBias(
+      [batch("S1", "Lab A", 22), batch("S1", "Lab B", 20), batch("S2", "Lab A", 30), batch("S3", "Lab B", 20)],
+      { matchBy: "sample" }
+    );
+    expect(report.matchBy).toBe("sample");
+    const labA = report.estimates.find((e) => e.lab === "Lab A")!;
+    expect(labA.offset).toEqual({ estimate: 2, lower: null, upper: null, n: 1 });
+    expect(labA.significant).toBe(false);
+    expect(report.labs[0].sharedGroups).toBe(1);
+  });
+
+  test("applies corrections to produce comparable profiles", () => {
+    const report = analyzeLabBias(coas);
+    const [corrected] = applyLabCorrections([coas[0]], report);
+    const scale = report.estimates.find((e) => e.lab === "Lab A" && e.compound === "THCA")!.scale!.estimate;
+
+    expect(corrected.batchId).toBe("A0");
+    expect(corrected.cannabinoids.get("THCA")).toBeCloseTo(22 / scale);
+    expect(corrected.totalCannabinoids).toBeCloseTo(22 / scale + 1);
+
+    const [offset] = applyLabCorrections([coas[0]], report, "offset");
+    const shift = report.estimates.find((e) => e.lab === "Lab A" && e.compound === "THCA")!.offset.estimate;
+    expect(offset.cannabinoids.get("THCA")).toBeCloseTo(22 - shift);
+
+    const unknown = applyLabCorrections([coa("Z", "Lab Z", "Blue Dream", { THCA: 20 })], report);
+    expect(unknown[0].cannabinoids.get("THCA")).toBe(20);
+  });
+});
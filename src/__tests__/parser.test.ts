@@ -137,6 +137,203 @@ describe("CDES SDK", () => {
     });
   });
 
+  describe("CDES Parser - Column Mapping", () => {
+    test("maps reordered measures by header", () => {
+      const data: PowerBICategoricalData = {
+        categories: [{ values: ["batch1"], source: { displayName: "Batch" } }],
+        values: [
+          { values: [0.9], source: { displayName: "CBGA" } },
+          { values: [24], source: { displayName: "THCa (%)" } },
+          { values: [0.4], source: { displayName: "Δ9-THC" } },
+          { values: [1.2], source: { displayName: "Delta-8 THC" } },
+          { values: [7], source: { displayName: "Batch Count" } },
+        ],
+      };
+
+      const result = CDESParser.parseDataView(data);
+      const cannabinoids = result.profiles[0].cannabinoids;
+
+      expect(cannabinoids.get("CBGA")).toBe(0.9);
+      expect(cannabinoids.get("THCA")).toBe(24);
+      expect(cannabinoids.get("THC")).toBe(0.4);
+      expect(cannabinoids.get("Delta-8 THC")).toBe(1.2);
+      expect(cannabinoids.size).toBe(4);
+      expect(result.unmappedColumns).toEqual([{ index: 4, displayName: "Batch Count" }]);
+    });
+
+    test("falls back to the fixed order without headers", () => {
+      const data: PowerBICategoricalData = {
+        categories: [{ values: ["batch1"] }],
+        values: [{ values: [20] }, { values: [1] }, { values: [0.5] }],
+      };
+
+      const result = CDESParser.parseDataView(data);
+
+      expect(Array.from(result.profiles[0].cannabinoids.entries())).toEqual([
+        ["THC", 20],
+        ["CBD", 1],
+        ["CBN", 0.5],
+      ]);
+      expect(result.unmappedColumns).toEqual([]);
+    });
+  });
+
+  describe("CDES Parser - Terpenes", () => {
+    test("separates terpene rows in the standard structure", () => {
+      const data: PowerBICategoricalData = {
+        categories: [
+          {
+            values: ["batch1", "batch1", "batch1", "batch1", "batch2"],
+            source: { displayName: "Batch" },
+          },
+          {
+            values: ["THC", "beta-Myrcene", "Limonene", "bcp", "CBD"],
+            source: { displayName: "Compound" },
+          },
+        ],
+        values: [{ values: [22, 0.8, 0.4, 0.3, 12], source: { displayName: "Percentage" } }],
+      };
+
+      const result = CDESParser.parseDataView(data);
+
+      expect(result.profiles.length).toBe(2);
+      expect(Array.from(result.profiles[0].cannabinoids.keys())).toEqual(["THC"]);
+      expect(result.terpeneProfiles?.length).toBe(1);
+
+      const terpenes = result.terpeneProfiles![0];
+      expect(terpenes.batchId).toBe("batch1");
+      expect(terpenes.terpenes.get("β-Myrcene")).toBe(0.8);
+      expect(terpenes.terpenes.get("δ-Limonene")).toBe(0.4);
+      expect(terpenes.terpenes.get("β-Caryophyllene")).toBe(0.3);
+      expect(terpenes.totalTerpenes).toBeCloseTo(1.5);
+    });
+
+    test("reads terpene measures in the CDES structure", () => {
+      const data: PowerBICategoricalData = {
+        categories: [{ values: ["batch1", "batch2"], source: { displayName: "Batch" } }],
+        values: [
+          { values: [20, 18], source: { displayName: "THC" } },
+          { values: [0.6, 0.2], source: { displayName: "Myrcene" } },
+          { values: [1, 2], source: { displayName: "CBD" } },
+          { values: [3, 1], source: { displayName: "Linalool (mg/g)" } },
+        ],
+      };
+
+      const result = CDESParser.parseDataView(data);
+
+      expect(result.parseMode).toBe("cdes");
+      expect(result.profiles[0].cannabinoids.get("CBD")).toBe(1);
+      expect(result.profiles[0].cannabinoids.has("CBN")).toBe(false);
+      expect(result.terpeneProfiles?.length).toBe(2);
+      expect(result.terpeneProfiles![0].totalTerpenes).toBeCloseTo(0.9);
+      expect(result.terpeneProfiles![1].totalTerpenes).toBeCloseTo(0.3);
+      expect(result.terpeneProfiles![1].terpenes.get("Linalool")).toBe(0.1);
+    });
+  });
+
+  describe("CDES Parser - Units", () => {
+    test("converts mg/g measures to percent", () => {
+      const data: PowerBICategoricalData = {
+        categories: [{ values: ["batch1"], source: { displayName: "Batch" } }],
+        values: [
+          { values: [200], source: { displayName: "THC (mg/g)" } },
+          { values: [1.5], source: { displayName: "CBD (%)" } },
+        ],
+      };
+
+      const result = CDESParser.parseDataView(data);
+
+      expect(result.profiles[0].unit).toBe("%");
+      expect(result.profiles[0].cannabinoids.get("THC")).toBe(20);
+      expect(result.profiles[0].cannabinoids.get("CBD")).toBe(1.5);
+    });
+
+    test("uses the batch unit field and unit context for JSON", () => {
+      const profile = CDESParser.parseBatchJSON(
+        { id: "gummy", unit: "mg", thc: 10 },
+        { unitContext: { unitMassGrams: 4 } }
+      );
+
+      expect(profile.cannabinoids.get("THC")).toBeCloseTo(0.25);
+      expect(
+        CDESParser.parseBatchJSON({ id: "gummy", unit: "mg", thc: 10 }).cannabinoids.size
+      ).toBe(0);
+    });
+  });
+
+  describe("CDES Parser - Diagnostics", () => {
+    test("reports skipped rows in the standard structure", () => {
+      const data: PowerBICategoricalData = {
+        categories: [
+          { values: ["b1", "b1", "b1", "", "b1", "b1"] },
+          { values: ["THC", "CBD", "THC", "THC", "Mystery", "CBN"] },
+        ],
+        values: [{ values: [20, "high", 21, 5, 1, -0.2] }],
+      };
+
+      const { profiles, diagnostics } = CDESParser.parseDataView(data);
+
+      expect(profiles[0].cannabinoids.get("THC")).toBe(20);
+      expect(profiles[0].cannabinoids.get("Mystery")).toBe(1);
+      expect(diagnostics?.counts["non-numeric"]).toBe(1);
+      expect(diagnostics?.counts.duplicate).toBe(1);
+      expect(diagnostics?.counts["missing-batch-id"]).toBe(1);
+      expect(diagnostics?.counts["unknown-compound"]).toBe(1);
+      expect(diagnostics?.counts["negative-value"]).toBe(1);
+      expect(diagnostics?.errorCount).toBe(2);
+      expect(diagnostics?.rowsSkipped).toBe(4);
+
+      const duplicate = diagnostics?.issues.find((i) => i.code === "duplicate");
+      expect(duplicate).toMatchObject({ row: 2, batchId: "b1", compound: "THC", value: 21 });
+    });
+
+    test("reports unmapped CDES columns with their index", () => {
+      const data: PowerBICategoricalData = {
+        categories: [{ values: ["b1"] }],
+        values: [
+          { values: [20], source: { displayName: "THC" } },
+          { values: [3], source: { displayName: "Moisture" } },
+        ],
+      };
+
+      const { diagnostics } = CDESParser.parseDataView(data);
+
+      expect(diagnostics?.issues).toEqual([
+        expect.objectContaining({ code: "unknown-compound", column: 1, severity: "warning" }),
+      ]);
+    });
+
+    test("applies severity overrides", () => {
+      const data: PowerBICategoricalData = {
+        categories: [{ values: ["b1"] }, { values: ["Mystery"] }],
+        values: [{ values: [1] }],
+      };
+
+      const { diagnostics } = CDESParser.parseDataView(data, {
+        severityOverrides: { "unknown-compound": "error" },
+      });
+
+      expect(diagnostics?.errorCount).toBe(1);
+    });
+
+    test("reports JSON batch issues by array index", () => {
+      const { profiles, diagnostics } = CDESParser.parseBatchesJSONWithDiagnostics([
+        { id: "a", thc: "18.5", cbd: "lots" },
+        { thc: 10 },
+        { id: "a", unit: "mg", thc: 5 },
+      ]);
+
+      expect(profiles[0].cannabinoids.get("THC")).toBe(18.5);
+      expect(diagnostics.issues.map((i) => [i.code, i.row])).toEqual([
+        ["non-numeric", 0],
+        ["missing-batch-id", 1],
+        ["unit-conversion", 2],
+        ["duplicate", 2],
+      ]);
+      expect(diagnostics.errorCount).toBe(2);
+    });
+  });
+
   describe("CDES Parser - JSON Batch", () => {
     test("parseBatchJSON from object", () => {
       const batch = {
@@ -167,6 +364,86 @@ describe("CDES SDK", () => {
       expect(profiles[0].batchId).toBe("batch1");
       expect(profiles[1].batchId).toBe("batch2");
     });
+    test("reads any recognized top-level compound key", () => {
+      const profile = CDESParser.parseBatchJSON({
+        id: "b1",
+        thc_pct: 19,
+        cbga: 1.2,
+        d8_thc: 0.4,
+        total_thc: 21,
+        harvest: 2026,
+      });
+
+      expect(Object.fromEntries(profile.cannabinoids)).toEqual({
+        THC: 19,
+        CBGA: 1.2,
+        "Delta-8 THC": 0.4,
+      });
+    });
+
+    test("accepts the SDK Batch and COA shapes", () => {
+      const fromBatch = CDESParser.parseBatchJSONWithDiagnostics({
+        id: "b2",
+        name: "Harlequin",
+        strain: "Harlequin",
+        labResult: {
+          cannabinoids: [
+            { name: "THCA", percentage: 120, unit: "mg/g" },
+            { name: "CBD", percentage: 0, measurement: { state: "not-detected" } },
+          ],
+          terpenes: [{ name: "beta-Caryophyllene", percentage: 0.35 }],
+        },
+      });
+
+      expect(fromBatch.profile.cannabinoids.get("THCA")).toBeCloseTo(12);
+      expect(fromBatch.profile.measurements?.get("CBD")?.state).toBe("not-detected");
+      expect(fromBatch.terpeneProfile?.terpenes.get("β-Caryophyllene")).toBe(0.35);
+      expect(fromBatch.diagnostics.issues).toHaveLength(0);
+
+      const malformed = CDESParser.parseBatchJSONWithDiagnostics({
+        id: "b3",
+        labResult: {
+          cannabinoids: [
+            { name: "THCA", percentage: 18, measurement: { state: "bogus", value: "high" } },
+            { name: "CBD", percentage: 0.4, measurement: { state: "below-loq", loq: "0.5" } },
+          ],
+        },
+      });
+      expect(malformed.profile.cannabinoids.get("THCA")).toBe(18);
+      expect(malformed.profile.cannabinoids.get("CBD")).toBe(0.4);
+
+      const fromCOA = CDESParser.parseBatchJSON({
+        id: "coa-9",
+        sample: { batchNumber: "B-9", productName: "Flower" },
+        cannabinoids: { THC: 22, Mystery: 1 },
+      });
+
+      expect(fromCOA.batchId).toBe("B-9");
+      expect(fromCOA.batchName).toBe("Flower");
+      expect(fromCOA.cannabinoids.get("THC")).toBe(22);
+    });
+
+    test("follows caller-supplied paths", () => {
+      const { profile, diagnostics } = CDESParser.parseBatchJSONWithDiagnostics(
+        {
+          meta: { lot: "L-7", label: "Blue Dream" },
+          panels: [{ analytes: { d9: { value: "18.5" } } }],
+          thc: 99,
+        },
+        {
+          paths: {
+            batchId: "meta.lot",
+            batchName: "meta.label",
+            compounds: { THC: "panels[0].analytes.d9.value" },
+          },
+        }
+      );
+
+      expect(profile.batchId).toBe("L-7");
+      expect(profile.batchName).toBe("Blue Dream");
+      expect(profile.cannabinoids.get("THC")).toBe(18.5);
+      expect(diagnostics.counts.duplicate).toBe(1);
+    });
   });
 
   describe("CDES Analyzer", () => {
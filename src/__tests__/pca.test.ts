@@ -0,0 +1,88 @@
+/**
+ * Compositional PCA Tests
+ */
+
+import { fitCompositionalPCA, projectPCA } from "../pca";
+import { FIXED_TERPENE_ORDER } from "../ratioAnalysis";
+import { TerpeneProfile } from "../models";
+
+function terpenes(batchId: string, values: Record<string, number>): TerpeneProfile {
+  return {
+    batchId,
+    batchName: batchId,
+    terpenes: new Map(Object.entries(values)),
+    totalTerpenes: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+const profiles = [
+  terpenes("A", { "β-Myrcene": 1.0, "δ-Limonene": 0.3, "β-Caryophyllene": 0.2, "α-Pinene": 0.1 }),
+  terpenes("B", { "β-Myrcene": 0.8, "δ-Limonene": 0.5, "β-Caryophyllene": 0.3, "α-Pinene": 0.05, Linalool: 0.1 }),
+  terpenes("C", { "β-Myrcene": 0.2, "δ-Limonene": 1.1, "β-Caryophyllene": 0.2, "α-Humulene": 0.1 }),
+  terpenes("D", { "β-Myrcene": 0.3, "δ-Limonene": 0.2, "β-Caryophyllene": 0.9, "α-Humulene": 0.4 }),
+  terpenes("E", { Terpinolene: 0.9, Ocimene: 0.3, "β-Myrcene": 0.2, "α-Pinene": 0.2 }),
+  terpenes("F", { "δ-Limonene": 0.6, "β-Caryophyllene": 0.6, Linalool: 0.3, "α-Bisabolol": 0.1 }),
+];
+
+function variance(values: number[]): number {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+describe("Compositional PCA", () => {
+  test("scores have the explained variance and components are orthonormal", () => {
+    const pca = fitCompositionalPCA(profiles, { components: 3 });
+
+    expect(pca.scores.map((s) => s.batchId)).toEqual(["A", "B", "C", "D", "E", "F"]);
+    expect(pca.loadings.map((l) => l.key)).toEqual(FIXED_TERPENE_ORDER);
+    expect(pca.loadings[0].terpene).toBe("β-Myrcene");
+
+    for (let c = 0; c < 3; c++) {
+      expect(variance(pca.scores.map((s) => s.values[c]))).toBeCloseTo(pca.explainedVariance[c], 8);
+      for (let d = 0; d < 3; d++) {
+        const dot = pca.loadings.reduce((sum, l) => sum + l.values[c] * l.values[d], 0);
+        expect(dot).toBeCloseTo(c === d ? 1 : 0, 8);
+      }
+    }
+    expect(pca.explainedVariance[0]).toBeGreaterThanOrEqual(pca.explainedVariance[1]);
+    expect(pca.explainedVariance[1]).toBeGreaterThanOrEqual(pca.explainedVariance[2]);
+  });
+
+  test("explained variance ratios cover the total CLR variance", () => {
+    const pca = fitCompositionalPCA(profiles, { components: 9 });
+    expect(pca.explainedVarianceRatio.reduce((s, r) => s + r, 0)).toBeCloseTo(1, 8);
+    expect(pca.explainedVarianceRatio[0]).toBeGreaterThan(pca.explainedVarianceRatio[8]);
+  });
+
+  test("is deterministic with a fixed sign convention", () => {
+    const pca = fitCompositionalPCA(profiles);
+    const reversed = fitCompositionalPCA([...profiles].reverse());
+
+    for (let c = 0; c < 2; c++) {
+      const column = pca.loadings.map((l) => l.values[c]);
+      const largest = column.reduce((best, x) => (Math.abs(x) > Math.abs(best) ? x : best), 0);
+      expect(largest).toBeGreaterThan(0);
+      reversed.loadings.forEach((l, i) => expect(l.values[c]).toBeCloseTo(column[i], 8));
+    }
+    expect(fitCompositionalPCA(profiles)).toEqual(pca);
+  });
+
+  test("projects new profiles into the same space", () => {
+    const pca = fitCompositionalPCA(profiles);
+    const [a] = pca.scores;
+
+    const projected = projectPCA(pca, profiles[0])!;
+    expect(projected).toHaveLength(2);
+    projected.forEach((v, i) => expect(v).toBeCloseTo(a.values[i], 10));
+
+    expect(projectPCA(pca, { myrcene: 1.0, limonene: 0.3, caryophyllene: 0.2, pinene: 0.1 })![0]).toBeCloseTo(a.values[0], 10);
+    expect(projectPCA(JSON.parse(JSON.stringify(pca)), new Map([["Linalool", 1]]))).toHaveLength(2);
+    expect(projectPCA(pca, {})).toBeNull();
+  });
+
+  test("skips profiles without ratio terpenes and needs two profiles", () => {
+    const pca = fitCompositionalPCA([...profiles, terpenes("X", { Nerolidol: 0.4 })]);
+    expect(pca.skipped).toEqual(["X"]);
+    expect(() => fitCompositionalPCA(profiles.slice(0, 1))).toThrow("at least two profiles");
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Potency Calculation Tests
+ */
+
+import { calculatePotency, decarboxylate } from "../potency";
+
+describe("calculatePotency", () => {
+  test("applies decarboxylation factors to acid forms", () => {
+    const potency = calculatePotency([
+      { name: "THC", percentage: 0.5 },
+      { name: "THCA", percentage: 24 },
+      { name: "CBDA", percentage: 1 },
+      { name: "CBGA", percentage: 0.5 },
+    ]);
+
+    expect(potency.results.status).toBe("pass");
+    expect(potency.results.totalThc).toBeCloseTo(0.5 + 0.877 * 24, 4);
+    expect(potency.results.totalCbd).toBeCloseTo(0.877, 4);
+    expect(potency.totalCbg.value).toBeCloseTo(0.439, 4);
+    expect(potency.results.totalCannabinoids).toBeCloseTo(26, 4);
+  });
+
+  test("explains how each total was calculated", () => {
+    const potency = calculatePotency(
+      new Map([
+        ["THC", 0.5],
+        ["THCA", 24],
+      ])
+    );
+
+    expect(potency.totalThc.terms.map((t) => t.compound)).toEqual(["THC", "THCA"]);
+    expect(potency.totalThc.formula).toBe(
+      "THC 0.50% + 0.877 × THCA 24.00% = 21.55%"
+    );
+    expect(potency.results.totalCbd).toBeUndefined();
+    expect(potency.totalCbd.formula).toBe("No data");
+  });
+
+  test("resolves name variants and reports empty input as not tested", () => {
+    const potency = calculatePotency([{ name: "thca %", percentage: 10 }]);
+    expect(potency.results.totalThc).toBeCloseTo(8.77, 4);
+
+    expect(calculatePotency([]).results).toEqual({ status: "not-tested" });
+  });
+
+  test("ignores total rows printed on the COA", () => {
+    const potency = calculatePotency([
+      { name: "THC", percentage: 0.5 },
+      { name: "THCA", percentage: 24 },
+      { name: "Total THC", percentage: 21.55 },
+      { name: "Total Cannabinoids", percentage: 24.5 },
+    ]);
+
+    expect(potency.results.totalThc).toBeCloseTo(21.548, 4);
+    expect(potency.totalThc.formula).toBe("THC 0.50% + 0.877 × THCA 24.00% = 21.55%");
+    expect(potency.results.totalCannabinoids).toBeCloseTo(24.5, 4);
+  });
+
+  test("decarboxylate leaves neutral forms unchanged", () => {
+    expect(decarboxylate("CBDA", 10)).toBeCloseTo(8.77, 4);
+    expect(decarboxylate("CBN", 10)).toBe(10);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Recommendation Tests
+ */
+
+import { recommendBatches } from "../recommend";
+import { Batch } from "../models";
+import { TerpeneRef } from "../reference";
+
+function batch(
+  id: string,
+  cannabinoids: Record<string, number>,
+  terpenes: Record<string, number> = {}
+): Batch {
+  return {
+    id,
+    name: `Batch ${id}`,
+    strain: `Strain ${id}`,
+    dispensaryId: "D1",
+    processedDate: new Date(2026, 0, 1),
+    labResult: {
+      cannabinoids: Object.entries(cannabinoids).map(([name, percentage]) => ({ name, percentage })),
+      terpenes: Object.entries(terpenes).map(([name, percentage]) => ({ name, percentage })),
+      testDate: new Date(2026, 0, 2),
+    },
+  };
+}
+
+const sleepy = batch("S", { THCA: 20, CBN: 1 }, { "β-Myrcene": 1.2, Linalool: 0.4 });
+const zippy = batch("Z", { THCA: 20, THCV: 1 }, { "δ-Limonene": 1.0, "α-Pinene": 0.5 });
+const calm = batch("C", { CBDA: 12, THCA: 0.5 }, { "β-Caryophyllene": 0.6 });
+
+describe("Recommendations", () => {
+  test("ranks batches by desired effects with top contributors", () => {
+    const [first, ...rest] = recommendBatches([zippy, sleepy, calm], { desired: ["sleep"] });
+
+    expect(first.batchId).toBe("S");
+    expect(first.score).toBeGreaterThan(0);
+    expect(first.contributors.length).toBeLessThanOrEqual(3);
+    expect(first.contributors.map((c) => c.compound)).toEqual(expect.arrayContaining(["β-Myrcene", "CBN"]));
+    const myrcene = first.contributors.find((c) => c.compound === "β-Myrcene")!;
+    expect(myrcene.effects).toEqual(["Sedation"]);
+    expect(myrcene.contribution).toBeCloseTo(0.5 * (1.2 / 1.4));
+    expect(rest.every((r) => r.score < first.score)).toBe(true);
+  });
+
+  test("rewards relief of avoided effects and penalizes opposite effects", () => {
+    const anxiety = recommendBatches([zippy, sleepy, calm], { desired: [], avoid: ["anxiety"] });
+    const calmResult = anxiety.find((r) => r.batchId === "C")!;
+    expect(anxiety[0].batchId).toBe("C");
+    expect(calmResult.contributors.find((c) => c.compound === "CBD")!.effects).toEqual(["Anxiety"]);
+
+    const appetite = recommendBatches([zippy, calm], { desired: ["appetite"] });
+    const thcv = appetite.find((r) => r.batchId === "Z")!.contributors.find((c) => c.compound === "THCV")!;
+    expect(thcv.effects).toEqual(["Appetite Suppression"]);
+    expect(thcv.contribution).toBeLessThan(0);
+  });
+
+  test("counts acid cannabinoids as their decarboxylated form", () => {
+    const [result] = recommendBatches([batch("P", { THCA: 10 })], { desired: ["pain relief"] });
+    const thc = result.contributors[0];
+    expect(thc.compound).toBe("THC");
+    expect(thc.value).toBeCloseTo(8.77);
+    expect(thc.effects).toEqual(["Pain Relief"]);
+    expect(thc.contribution).toBeCloseTo(0.5 * (8.77 / 9.77));
+  });
+
+  test("ignores total rows printed among the cannabinoids", () => {
+    const withTotals = batch("T", { THCA: 10, "Total THC": 8.77, "Total Cannabinoids": 10 });
+    const [result] = recommendBatches([withTotals], { desired: ["pain relief"] });
+    const thc = result.contributors[0];
+    expect(thc.compound).toBe("THC");
+    expect(thc.value).toBeCloseTo(8.77);
+    expect(thc.contribution).toBeCloseTo(0.5 * (8.77 / 9.77));
+  });
+
+  test("weights reference effects by strength and evidence", () => {
+    const myrcene: TerpeneRef = {
+      id: "myrcene",
+      name: "Myrcene",
+      casNumber: "123-35-3",
+      pubchemId: "31253",
+      molecularFormula: "C10H16",
+      category: "monoterpene",
+      boilingPoint: { celsius: 167, fahrenheit: 333 },
+      aroma: ["earthy"],
+      naturalSources: ["mango"],
+      effects: [{ effect: "Sedative", strength: "strong", evidence: "preclinical" }],
+      prevalence: "very common",
+      typicalRange: { min: 0.1, max: 2, unit: "%" },
+    };
+    const [result] = recommendBatches([batch("M", {}, { "beta-myrcene": 0.2 })], { desired: ["sleep"] }, {
+      terpeneReferences: [myrcene],
+    });
+    expect(result.contributors[0].effects).toEqual(["Sedative"]);
+    expect(result.contributors[0].contribution).toBeCloseTo(0.6 * 0.5);
+  });
+
+  test("skips batches without lab results and applies limits", () => {
+    const results = recommendBatches(
+      [sleepy, { ...zippy, labResult: undefined }, calm],
+      { desired: ["sleep"] },
+      { limit: 1, topContributors: 1 }
+    );
+    expect(results).toHaveLength(1);
+    expect(results[0].contributors).toHaveLength(1);
+    expect(() => recommendBatches([sleepy], { desired: [] })).toThrow("Cannot recommend batches");
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Similarity Index Tests
+ */
+
+import { SimilarityIndex } from "../similarityIndex";
+import { CDESAnalyzer } from "../analyzer";
+import { DistanceMetric } from "../distance";
+import { CannabinoidProfile } from "../models";
+
+function profile(batchId: string, values: Record<string, number>): CannabinoidProfile {
+  return {
+    batchId,
+    batchName: batchId,
+    cannabinoids: new Map(Object.entries(values)),
+    totalCannabinoids: Object.values(values).reduce((sum, v) => sum + v, 0),
+  };
+}
+
+/** Deterministic pseudo-random profiles, with repeated values to force ties */
+function catalog(count: number, seed = 7): CannabinoidProfile[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, (_, i) =>
+    profile(`B${i}`, {
+      THCA: Math.round(next() * 30),
+      CBDA: Math.round(next() * 10),
+      CBG: Math.round(next() * 4) / 2,
+    })
+  );
+}
+
+describe("SimilarityIndex", () => {
+  const profiles = catalog(300);
+
+  test.each<DistanceMetric>(["euclidean", "manhattan", "weighted-euclidean", "cosine", "aitchison"])(
+    "matches findSimilarProfiles exactly (%s)",
+    (metric) => {
+      const options = { metric, weights: { CBG: 3 }, leafSize: 4 };
+      const index = SimilarityIndex.build(profiles, options);
+
+      for (const target of [profiles[0], profiles[150], profile("NEW", { THCA: 12, CBDA: 3 })]) {
+        for (const [limit, minSimilarity] of [[5, 50], [20, 0], [300, 30]]) {
+          expect(index.findSimilar(target, limit, minSimilarity)).toEqual(
+            CDESAnalyzer.findSimilarProfiles(target, profiles, limit, minSimilarity, options)
+          );
+        }
+      }
+    }
+  );
+
+  test("uses the tree only for true metrics", () => {
+    expect(new SimilarityIndex().usesTree).toBe(true);
+    expect(new SimilarityIndex({ metric: "cosine" }).usesTree).toBe(false);
+    expect(new SimilarityIndex({ metric: "weighted-euclidean", weights: { THC: -1 } }).usesTree).toBe(false);
+  });
+
+  test("answers k-NN and radius queries", () => {
+    const index = SimilarityIndex.build(profiles, { leafSize: 4 });
+    const target = profile("NEW", { THCA: 20, CBDA: 1 });
+    const everything = CDESAnalyzer.findSimilarProfiles(target, profiles, Infinity, 0);
+
+    expect(index.nearest(target, 10)).toEqual(everything.slice(0, 10));
+
+    const within = index.withinDistance(target, 3);
+    expect(within.length).toBeGreaterThan(0);
+    expect(within.map((r) => r.profile)).toEqual(
+      everything.filter((r) => r.distance <= 3).map((r) => r.profile)
+    );
+  });
+
+  test("supports incremental insert and remove", () => {
+    const index = SimilarityIndex.build(profiles.slice(0, 100), { leafSize: 4 });
+    profiles.slice(100).forEach((p) => index.insert(p));
+    for (let i = 0; i < 300; i += 3) {
+      expect(index.remove(`B${i}`)).toBe(true);
+    }
+    expect(index.remove("B0")).toBe(false);
+    index.insert(profile("B1", { THCA: 25, CBDA: 0.5 }));
+
+    expect(index.size).toBe(200);
+    expect(index.has("B3")).toBe(false);
+
+    const live = index.profiles();
+    expect(live[live.length - 1].batchId).toBe("B1");
+    for (const target of [live[0], profile("NEW", { THCA: 25 })]) {
+      expect(index.findSimilar(target, 15, 20)).toEqual(
+        CDESAnalyzer.findSimilarProfiles(target, live, 15, 20)
+      );
+    }
+  });
+
+  test("round-trips through JSON", () => {
+    const index = SimilarityIndex.build(profiles.slice(0, 50), { metric: "manhattan", leafSize: 4 });
+    index.insert(profile("EXTRA", { THCA: 18, CBDA: 2 }));
+    index.remove("B10");
+
+    const restored = SimilarityIndex.fromJSON(JSON.parse(JSON.stringify(index)));
+    const target = profile("NEW", { THCA: 18, CBDA: 2 });
+
+    expect(restored.size).toBe(index.size);
+    expect(restored.toJSON()).toEqual(index.toJSON());
+    expect(restored.findSimilar(target, 10, 0)).toEqual(index.findSimilar(target, 10, 0));
+    expect(() => SimilarityIndex.fromJSON({} as never)).toThrow("Invalid similarity index");
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Statistical Process Control Tests
+ */
+
+import {
+  analyzeStrainConsistency,
+  compoundStatistics,
+  controlLimits,
+  westernElectricViolations,
+} from "../spc";
+import { Batch } from "../models";
+import { StrainResolver } from "../strains";
+
+function batch(
+  id: string,
+  strain: string,
+  day: number,
+  thca: number,
+  terpenes: Record<string, number> = {},
+  dispensaryId = "D1"
+): Batch {
+  return {
+    id,
+    name: id,
+    strain,
+    dispensaryId,
+    dispensaryName: `Producer ${dispensaryId}`,
+    processedDate: new Date(2026, 0, day),
+    labResult: {
+      cannabinoids: [
+        { name: "THCa", percentage: thca },
+        { name: "CBG", percentage: 0.5 },
+      ],
+      terpenes: Object.entries(terpenes).map(([name, percentage]) => ({ name, percentage })),
+      testDate: new Date(2026, 0, day + 2),
+    },
+  };
+}
+
+describe("Statistical Process Control", () => {
+  test("computes compound statistics", () => {
+    const stats = compoundStatistics([20, 22, 24]);
+    expect(stats).toEqual({ n: 3, mean: 22, sd: 2, cv: expect.closeTo(9.0909, 3), min: 20, max: 24 });
+    expect(compoundStatistics([0, 0]).cv).toBeNull();
+    expect(compoundStatistics([]).n).toBe(0);
+  });
+
+  test("computes individuals-chart limits", () => {
+    const limits = controlLimits([20, 22, 21, 23]);
+    const sigma = (2 + 1 + 2) / 3 / 1.128;
+    expect(limits.center).toBe(21.5);
+    expect(limits.sigma).toBeCloseTo(sigma);
+    expect(limits.ucl).toBeCloseTo(21.5 + 3 * sigma);
+    expect(limits.lowerWarning).toBeCloseTo(21.5 - 2 * sigma);
+    expect(controlLimits([1, 5], "sample").sigma).toBeCloseTo(Math.SQRT2 * 2);
+    expect(controlLimits([0.1, 3]).lcl).toBe(0);
+  });
+
+  test("flags each Western Electric rule", () => {
+    const limits = { center: 0, sigma: 1 };
+    expect(westernElectricViolations([0, 3.5, 0], limits)).toEqual([{ rule: 1, index: 1 }]);
+    expect(westernElectricViolations([2.5, 0, 2.5], limits)).toEqual([{ rule: 2, index: 2 }]);
+    expect(westernElectricViolations([1.5, 1.5, 0, 1.5, 1.5], limits)).toEqual([{ rule: 3, index: 4 }]);
+    expect(westernElectricViolations([-2.5, 0, 2.5], limits)).toEqual([]);
+    expect(westernElectricViolations(new Array(8).fill(0.5), limits)).toEqual([{ rule: 4, index: 7 }]);
+    expect(westernElectricViolations([3.5, 2.5], limits, [2])).toEqual([{ rule: 2, index: 1 }]);
+    expect(westernElectricViolations([5, 5], { center: 5, sigma: 0 })).toEqual([]);
+  });
+
+  test("groups batches by strain in time order", () => {
+    const batches = [
+      batch("B3", "Blue Dream", 20, 22),
+      batch("B1", "Blue Dream", 1, 20),
+      batch("X1", "OG Kush", 5, 25),
+      batch("B2", " blue dream ", 10, 21),
+      { ...batch("NL", "Blue Dream", 30, 19), labResult: undefined },
+    ];
+    const reports = analyzeStrainConsistency(batches, { includeTerpenes: false, minBatches: 2 });
+
+    expect(reports).toHaveLength(1);
+    const [report] = reports;
+    expect(report.strain).toBe("Blue Dream");
+    expect(report.batchCount).toBe(3);
+    expect(report.firstDate).toEqual(new Date(2026, 0, 3));
+    expect(report.series.map((s) => s.compound)).toEqual(["THCA", "CBG"]);
+
+    const thca = report.series[0];
+    expect(thca.points.map((p) => p.batchId)).toEqual(["B1", "B2", "B3"]);
+    expect(thca.statistics.mean).toBe(21);
+    expect(thca.points[2].sigmaScore).toBeCloseTo(1.128);
+    expect(report.series[1].statistics.sd).toBe(0);
+    expect(report.archetypeDrift).toBeNull();
+
+    const byProcessed = analyzeStrainConsistency(batches, { dateField: "processedDate", includeTerpenes: false });
+    expect(byProcessed[0].firstDate).toEqual(new Date(2026, 0, 1));
+  });
+
+  test("groups strain name variants with a resolver", () => {
+    const batches = [
+      batch("G1", "GSC", 1, 20),
+      batch("G2", "Girl Scout Cookies #4 (Smalls)", 2, 21),
+      batch("G3", "GS Cookies", 3, 22),
+    ];
+    expect(analyzeStrainConsistency(batches, { includeTerpenes: false })).toHaveLength(0);
+
+    const [report] = analyzeStrainConsistency(batches, {
+      includeTerpenes: false,
+      strainResolver: new StrainResolver(),
+    });
+    expect(report.strain).toBe("Girl Scout Cookies");
+    expect(report.batchCount).toBe(3);
+  });
+
+  test("reports violations for an out-of-control batch", () => {
+    const values = [20, 20.4, 19.8, 20.2, 19.9, 20.1, 20.3, 19.7, 27];
+    const batches = values.map((v, i) => batch(`R${i}`, "Runtz", i + 1, v));
+    const [report] = analyzeStrainConsistency(batches, { includeTerpenes: false });
+
+    const thca = report.series[0];
+    expect(thca.violations).toContainEqual(
+      expect.objectContaining({ rule: 1, index: 8, batchId: "R8", description: "One point beyond 3σ" })
+    );
+    expect(thca.points[8].violations).toContain(1);
+    expect(report.violationCount).toBe(thca.violations.length);
+  });
+
+  test("separates producers and tracks archetype drift", () => {
+    const myrcene = { "β-Myrcene": 1.0, "δ-Limonene": 0.2, "β-Caryophyllene": 0.1 };
+    const limonene = { "δ-Limonene": 1.0, "β-Myrcene": 0.2, "α-Pinene": 0.3 };
+    const batches = [
+      batch("A1", "Gelato", 1, 20, myrcene),
+      batch("A2", "Gelato", 2, 21, myrcene),
+      batch("A3", "Gelato", 3, 20, limonene),
+      batch("Z1", "Gelato", 1, 18, limonene, "D2"),
+      batch("Z2", "Gelato", 2, 18, limonene, "D2"),
+    ];
+    const reports = analyzeStrainConsistency(batches, { groupBy: "strain-producer" });
+
+    expect(reports.map((r) => [r.producerId, r.producerName, r.batchCount])).toEqual([
+      ["D1", "Producer D1", 3],
+      ["D2", "Producer D2", 2],
+    ]);
+    expect(reports[0].series.map((s) => s.compoundType)).toContain("terpene");
+
+    // A producer named in metadata groups its batches across dispensaries
+    const grown = batches.map((b) => ({ ...b, metadata: { producer: "Grower Co" } }));
+    expect(
+      analyzeStrainConsistency(grown, { groupBy: "strain-producer" }).map((r) => [r.producerId, r.producerName, r.batchCount])
+    ).toEqual([["Grower Co", "Grower Co", 5]]);
+
+    const drift = reports[0].archetypeDrift!;
+    expect(drift.dominantArchetype).toBe("ARCH_MYR");
+    expect(drift.consistency).toBeCloseTo(2 / 3);
+    expect(drift.changes).toEqual([
+      { batchId: "A3", date: new Date(2026, 0, 5), from: "ARCH_MYR", to: "ARCH_LIM" },
+    ]);
+    expect(reports[1].archetypeDrift!.changes).toEqual([]);
+  });
+});
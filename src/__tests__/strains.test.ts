@@ -0,0 +1,99 @@
+/**
+ * Strain Name Tests
+ */
+
+import { clusterStrainNames, resolveStrainName, StrainResolver } from "../strains";
+
+describe("Strain Names", () => {
+  test("resolves canonical names and aliases", () => {
+    expect(resolveStrainName("Blue Dream")).toEqual({
+      input: "Blue Dream",
+      canonical: "Blue Dream",
+      method: "exact",
+      confidence: 1,
+      matchedAlias: "Blue Dream",
+    });
+    expect(resolveStrainName("GSC")).toEqual(expect.objectContaining({
+      canonical: "Girl Scout Cookies",
+      method: "alias",
+      matchedAlias: "GSC",
+    }));
+    expect(resolveStrainName("gs-cookies").canonical).toBe("Girl Scout Cookies");
+    expect(resolveStrainName("Do Si Dos").canonical).toBe("Do-Si-Dos");
+    expect(resolveStrainName("  CHEM DOG  ").canonical).toBe("Chemdawg");
+  });
+
+  test("separates phenotype and size suffixes", () => {
+    const gsc = resolveStrainName("Girl Scout Cookies #4 (Smalls)");
+    expect(gsc).toEqual(expect.objectContaining({
+      canonical: "Girl Scout Cookies",
+      method: "exact",
+      confidence: 1,
+      phenotype: "#4",
+      size: "smalls",
+    }));
+
+    expect(resolveStrainName("Gelato pheno 41 - 3.5g").phenotype).toBe("pheno 41");
+    expect(resolveStrainName("Gelato pheno 41 - 3.5g").size).toBe("3.5g");
+    expect(resolveStrainName("Blue Dream Flower (Sativa)").method).toBe("exact");
+
+    // A number that is part of the canonical name matches as a whole
+    const glue = resolveStrainName("Gorilla Glue #4");
+    expect(glue.canonical).toBe("Gorilla Glue #4");
+    expect(glue.phenotype).toBeUndefined();
+    expect(resolveStrainName("GG #4").canonical).toBe("Gorilla Glue #4");
+  });
+
+  test("falls back to fuzzy matching with a confidence score", () => {
+    const typo = resolveStrainName("Sour Deisel");
+    expect(typo.method).toBe("fuzzy");
+    expect(typo.canonical).toBe("Sour Diesel");
+    expect(typo.confidence).toBeCloseTo(0.9);
+
+    const unknown = resolveStrainName("blue   zushi!");
+    expect(unknown).toEqual(expect.objectContaining({
+      canonical: "Blue Zushi",
+      method: "unresolved",
+      confidence: 0,
+    }));
+
+    const strict = new StrainResolver({ minConfidence: 0.95 });
+    expect(strict.resolve("Sour Deisel").method).toBe("unresolved");
+  });
+
+  test("accepts custom aliases", () => {
+    const resolver = new StrainResolver({ aliases: { "Blue Zushi": ["BZ", "Zushi Blue"] } });
+    expect(resolver.resolve("bz").canonical).toBe("Blue Zushi");
+    expect(resolver.canonicalNames()).toContain("Blue Zushi");
+
+    resolver.addAliases("Girl Scout Cookies", ["Cookies"]);
+    expect(resolver.resolve("Cookies").canonical).toBe("Girl Scout Cookies");
+
+    const bare = new StrainResolver({ includeBuiltIn: false });
+    expect(bare.canonicalNames()).toEqual([]);
+    expect(bare.resolve("GSC").method).toBe("unresolved");
+  });
+
+  test("clusters raw names into canonical entities", () => {
+    const clusters = clusterStrainNames([
+      "GSC", "Girl Scout Cookies", "GSC", "Girl Scout Cookies #4 (Smalls)", "GS Cookies",
+      "Blue Zushi", "Blue Zushii", "Blue Zushi",
+      "Lemon Cherry Gelato",
+    ]);
+
+    expect(clusters.map((c) => c.canonical)).toEqual(["Girl Scout Cookies", "Blue Zushi", "Lemon Cherry Gelato"]);
+    expect(clusters[0]).toEqual({
+      canonical: "Girl Scout Cookies",
+      resolved: true,
+      names: ["GSC", "Girl Scout Cookies", "Girl Scout Cookies #4 (Smalls)", "GS Cookies"],
+      count: 5,
+      confidence: 1,
+    });
+    expect(clusters[1]).toEqual(expect.objectContaining({
+      resolved: false,
+      names: ["Blue Zushi", "Blue Zushii"],
+      count: 3,
+    }));
+    expect(clusters[1].confidence).toBeCloseTo(0.9);
+  });
+});
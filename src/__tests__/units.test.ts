@@ -0,0 +1,76 @@
+/**
+ * Unit Normalization Tests
+ */
+
+import {
+  convertCompoundValue,
+  canConvertUnits,
+  normalizeCompounds,
+  normalizeCannabinoidProfile,
+  parseUnitFromLabel,
+  stripUnitFromLabel,
+} from "../units";
+import { CDESAnalyzer } from "../analyzer";
+import { Cannabinoid, CannabinoidProfile } from "../models";
+
+describe("Unit Normalization", () => {
+  test("converts between %, mg/g and mg", () => {
+    expect(convertCompoundValue(21.5, "%", "mg/g")).toBeCloseTo(215);
+    expect(convertCompoundValue(215, "mg/g", "%")).toBeCloseTo(21.5);
+    expect(convertCompoundValue(100, "mg", "%", { unitMassGrams: 0.5 })).toBeCloseTo(20);
+    expect(
+      convertCompoundValue(5, "mg", "mg/g", {
+        mgBasis: "serving",
+        servingSizeGrams: 2.5,
+      })
+    ).toBeCloseTo(2);
+    expect(convertCompoundValue(1, "%", "mg", { mgBasis: "package", packageSizeGrams: 3.5 })).toBeCloseTo(35);
+  });
+
+  test("requires a basis mass for mg conversions", () => {
+    expect(canConvertUnits("mg", "%")).toBe(false);
+    expect(canConvertUnits("mg/g", "%")).toBe(true);
+    expect(() => convertCompoundValue(10, "mg", "%")).toThrow(/unitMassGrams/);
+  });
+
+  test("normalizes mixed compound arrays", () => {
+    const compounds: Cannabinoid[] = [
+      { name: "THCA", percentage: 240, unit: "mg/g" },
+      { name: "CBD", percentage: 0.5 },
+    ];
+    const normalized = normalizeCompounds(compounds);
+
+    expect(normalized.map((c) => c.percentage)).toEqual([24, 0.5]);
+    expect(normalized.every((c) => c.unit === "%")).toBe(true);
+  });
+
+  test("reads and strips units in labels", () => {
+    expect(parseUnitFromLabel("THC (mg/g)")).toBe("mg/g");
+    expect(parseUnitFromLabel("THCa mg/g")).toBe("mg/g");
+    expect(parseUnitFromLabel("Δ9-THC (%)")).toBe("%");
+    expect(parseUnitFromLabel("CBD mg")).toBe("mg");
+    expect(parseUnitFromLabel("CBD")).toBeUndefined();
+    expect(stripUnitFromLabel("THCa mg/g")).toBe("THCa");
+    expect(stripUnitFromLabel("Δ9-THC (%)")).toBe("Δ9-THC");
+  });
+
+  test("analyzer compares mg/g and % profiles on the same scale", () => {
+    const percent: CannabinoidProfile = {
+      batchId: "a",
+      batchName: "A",
+      cannabinoids: new Map([["THC", 20]]),
+      totalCannabinoids: 20,
+    };
+    const mgPerGram: CannabinoidProfile = {
+      batchId: "b",
+      batchName: "B",
+      cannabinoids: new Map([["THC", 200]]),
+      totalCannabinoids: 200,
+      unit: "mg/g",
+    };
+
+    expect(normalizeCannabinoidProfile(mgPerGram).cannabinoids.get("THC")).toBe(20);
+    expect(CDESAnalyzer.compareProfiles(percent, mgPerGram).distance).toBe(0);
+    expect(CDESAnalyzer.classifyStrain(mgPerGram).thcContent).toBe("Moderate");
+  });
+});
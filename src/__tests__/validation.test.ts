@@ -0,0 +1,121 @@
+/**
+ * COA Validation Tests
+ */
+
+import { validateCOA, isValidCOA } from "../validation";
+
+function makeCOA(): Record<string, any> {
+  return {
+    id: "coa-1",
+    lab: { name: "Acme Labs", accreditations: ["ISO 17025"] },
+    sample: {
+      batchNumber: "B-100",
+      productName: "Blue Dream 3.5g",
+      productType: "flower",
+    },
+    overallStatus: "pass",
+    cannabinoids: [{ name: "THCA", percentage: 24.1, unit: "%" }],
+    potencyResults: { status: "pass", totalThc: 21.3 },
+    safetyTests: {
+      pesticides: {
+        status: "pass",
+        analytes: [
+          { analyte: "Abamectin", result: 0, limit: 0.1, unit: "ppm", status: "pass" },
+        ],
+      },
+    },
+    testMethod: "HPLC",
+  };
+}
+
+describe("validateCOA", () => {
+  test("accepts a well-formed COA", () => {
+    const result = validateCOA(makeCOA());
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    if (result.valid) {
+      expect(result.coa.sample.batchNumber).toBe("B-100");
+    }
+    expect(isValidCOA(makeCOA())).toBe(true);
+  });
+
+  test("returns only schema fields", () => {
+    const input = makeCOA();
+    input.extra = "dropped";
+    input.sample.internalCode = 7;
+    input.cannabinoids[0].legacyValue = "24.1";
+    input.metadata = { source: "import" };
+    const result = validateCOA(input);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      const { extra, ...expected } = input;
+      delete expected.sample.internalCode;
+      delete expected.cannabinoids[0].legacyValue;
+      expect(extra).toBe("dropped");
+      expect(result.coa).toStrictEqual(expected);
+    }
+  });
+
+  test("reports missing required fields with paths", () => {
+    const coa = makeCOA();
+    delete coa.sample.batchNumber;
+    delete coa.lab;
+
+    const result = validateCOA(coa);
+    const paths = result.errors.map((e) => e.path);
+
+    expect(result.valid).toBe(false);
+    expect(paths).toContain("sample.batchNumber");
+    expect(paths).toContain("lab");
+    expect(result.errors.every((e) => e.code === "required")).toBe(true);
+  });
+
+  test("locates errors inside nested arrays", () => {
+    const coa = makeCOA();
+    coa.safetyTests.pesticides.analytes.push(
+      { analyte: "Bifenazate", status: "ok" },
+      { analyte: "Myclobutanil", result: "0.2", status: "pass" }
+    );
+
+    const result = validateCOA(coa);
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        path: "safetyTests.pesticides.analytes[1].status",
+        code: "enum",
+      }),
+      expect.objectContaining({
+        path: "safetyTests.pesticides.analytes[2].result",
+        code: "type",
+      }),
+    ]);
+  });
+
+  test("checks enums and numeric ranges", () => {
+    const coa = makeCOA();
+    coa.sample.productType = "seeds";
+    coa.testMethod = "NMR";
+    coa.overallStatus = "ok";
+    coa.cannabinoids[0].percentage = -1;
+    coa.potencyResults.status = "unknown";
+
+    const paths = validateCOA(coa).errors.map((e) => e.path);
+
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        "sample.productType",
+        "testMethod",
+        "overallStatus",
+        "cannabinoids[0].percentage",
+        "potencyResults.status",
+      ])
+    );
+  });
+
+  test("rejects non-object input", () => {
+    expect(validateCOA(null).valid).toBe(false);
+    expect(validateCOA([makeCOA()]).errors[0].code).toBe("type");
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * CDES Aggregation
+ * Grouped statistical summaries of batches, COAs and profiles
+ *
+ * Inputs are grouped by strain, producer, dispensary, lab or any custom
+ * key, alone or combined. Every group gets count, mean, median, standard
+ * deviation, percentiles and a bootstrap confidence interval for each
+ * compound, potency total and ratio metric. `rows` flattens the result to
+ * one row per group and metric, ready to load as a Power BI table.
+ *
+ * Values are in % throughout. A metric's statistics only use the inputs
+ * that report it: a batch without a terpene panel does not count as zero
+ * terpenes.
+ *
+ * @module aggregate
+ */
+
+import { Batch, CannabinoidProfile, COA, TerpeneProfile } from "./models";
+import { batchProducer, canonicalCannabinoidName, inputCompounds, isCOA } from "./inputs";
+import { calculatePotency } from "./potency";
+import { computeRatioMetrics, toRatioTerpeneValues } from "./ratioAnalysis";
+import { StrainResolver } from "./strains";
+import { normalizeTerpeneName } from "./terpenes";
+import { normalizeCannabinoidProfile, normalizeTerpeneProfile, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Data `aggregateProfiles` accepts */
+export type AggregateInput = Batch | COA | CannabinoidProfile | TerpeneProfile;
+
+/**
+ * Built-in grouping field
+ * - `strain`: `Batch.strain`, COA `sample.strainName`
+ * - `producer`: COA `sample.producerName`; for a batch `metadata.producer`,
+ *   falling back to the dispensary (as in `analyzeStrainConsistency`)
+ * - `dispensary`: `Batch.dispensaryName`, falling back to `dispensaryId`;
+ *   COA `metadata.dispensary`
+ * - `lab`: `labResult.labName` (or `labId`), COA `lab.name`
+ */
+export type AggregateField = "strain" | "producer" | "dispensary" | "lab";
+
+/** Custom grouping key, e.g. for profiles, which carry no metadata */
+export interface AggregateKeyFunction {
+  /** Column name in the output */
+  name: string;
+  value: (input: AggregateInput) => string | undefined;
+}
+
+/** Grouping key */
+export type AggregateKey = AggregateField | AggregateKeyFunction;
+
+/** Kind of metric */
+export type AggregateMetricType = "cannabinoid" | "terpene" | "total" | "ratio";
+
+/** Options for `aggregateProfiles` */
+export interface AggregateOptions {
+  /** Key or combination of keys (default: "strain") */
+  groupBy?: AggregateKey | AggregateKey[];
+  /** Metric types to summarize (default: all) */
+  metrics?: AggregateMetricType[];
+  /** Percentiles from 0 to 100 (default: 5, 25, 75, 95) */
+  percentiles?: number[];
+  /** Confidence level of the bootstrap interval (default: 0.95) */
+  confidence?: number;
+  /** Statistic the interval is for (default: "mean") */
+  bootstrapStatistic?: "mean" | "median";
+  /** Bootstrap resamples; 0 leaves the intervals out (default: 1000) */
+  bootstrapSamples?: number;
+  /** Random seed for resampling (default: 42) */
+  seed?: number;
+  /** Groups with fewer inputs are left out (default: 1) */
+  minCount?: number;
+  /** Group strain name variants ("GSC", "Girl Scout Cookies") under their canonical name */
+  strainResolver?: StrainResolver;
+  /** Product context for results reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+/** Summary statistics of one metric within a group */
+export interface MetricSummary {
+  /** Compound name, "Total THC", "THC:CBD", "dominanceIndex", ... */
+  metric: string;
+  metricType: AggregateMetricType;
+  /** Inputs that report this metric */
+  count: number;
+  mean: number;
+  median: number;
+  /** Sample standard deviation (0 for a single value) */
+  sd: number;
+  min: number;
+  max: number;
+  /** Percentile → value, keyed "p5", "p25", ... */
+  percentiles: Record<string, number>;
+  /** Bootstrap percentile interval, or null with fewer than two values */
+  ci: { lower: number; upper: number } | null;
+}
+
+/** One group and its metric summaries */
+export interface AggregateGroup {
+  /** Key column → group value; inputs without a value are grouped under "(none)" */
+  keys: Record<string, string>;
+  /** Inputs in the group */
+  count: number;
+  batchIds: string[];
+  metrics: MetricSummary[];
+}
+
+/** Flat row for Power BI: key columns, metric columns and one column per statistic */
+export type AggregateRow = Record<string, string | number | null>;
+
+/** Result of `aggregateProfiles` */
+export interface AggregateReport {
+  /** Key column names, in grouping order */
+  groupBy: string[];
+  confidence: number;
+  bootstrapStatistic: "mean" | "median";
+  /** Groups, largest first */
+  groups: AggregateGroup[];
+  /** One row per group and metric */
+  rows: AggregateRow[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Group value for inputs that lack a key */
+export const MISSING_GROUP_VALUE = "(none)";
+
+const ALL_METRIC_TYPES: AggregateMetricType[] = ["cannabinoid", "terpene", "total", "ratio"];
+
+const METRIC_TYPE_ORDER: Record<AggregateMetricType, number> = { total: 0, cannabinoid: 1, terpene: 2, ratio: 3 };
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface AggregateRecord {
+  id: string;
+  inputs: AggregateInput[];
+  metrics: Map<string, { metricType: AggregateMetricType; value: number }>;
+}
+
+function isBatch(input: AggregateInput): input is Batch {
+  return "dispensaryId" in input && "strain" in input;
+}
+
+function isCannabinoidProfile(input: AggregateInput): input is CannabinoidProfile {
+  return "cannabinoids" in input && input.cannabinoids instanceof Map;
+}
+
+function trimmed(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function fieldValue(input: AggregateInput, field: AggregateField, resolver: StrainResolver | undefined): string | undefined {
+  if (field === "strain") {
+    const strain = isCOA(input) ? trimmed(input.sample.strainName) : isBatch(input) ? trimmed(input.strain) : undefined;
+    return strain && resolver ? resolver.resolve(strain).canonical : strain;
+  }
+  if (isCOA(input)) {
+    if (field === "producer") return trimmed(input.sample.producerName);
+    if (field === "lab") return trimmed(input.lab?.name);
+    return trimmed(input.metadata?.dispensary);
+  }
+  if (isBatch(input)) {
+    const dispensary = trimmed(input.dispensaryName) ?? trimmed(input.dispensaryId);
+    if (field === "producer") {
+      const producer = batchProducer(input);
+      return trimmed(producer.name) ?? trimmed(producer.id);
+    }
+    if (field === "lab") return trimmed(input.labResult?.labName) ?? trimmed(input.labResult?.labId);
+    return dispensary;
+  }
+  return undefined;
+}
+
+function inputId(input: AggregateInput): string {
+  if (isCOA(input)) return input.sample.batchNumber || input.id;
+  if (isBatch(input)) return input.id;
+  return input.batchId;
+}
+
+function addCompounds(
+  record: AggregateRecord,
+  values: Map<string, number>,
+  metricType: "cannabinoid" | "terpene"
+): void {
+  for (const [rawName, value] of values) {
+    if (!Number.isFinite(value)) continue;
+    const name = metricType === "cannabinoid" ? canonicalCannabinoidName(rawName) : normalizeTerpeneName(rawName);
+    if (!record.metrics.has(name)) record.metrics.set(name, { metricType, value });
+  }
+}
+
+function addDerived(record: AggregateRecord): void {
+  const cannabinoids = new Map<string, number>();
+  const terpenes = new Map<string, number>();
+  for (const [name, { metricType, value }] of record.metrics) {
+    if (metricType === "cannabinoid") cannabinoids.set(name, value);
+    if (metricType === "terpene") terpenes.set(name, value);
+  }
+
+  if (cannabinoids.size > 0) {
+    const potency = calculatePotency(cannabinoids);
+    const set = (metric: string, metricType: AggregateMetricType, value: number) =>
+      record.metrics.set(metric, { metricType, value });
+    if (potency.totalThc.terms.length > 0) set("Total THC", "total", potency.totalThc.value);
+    if (potency.totalCbd.terms.length > 0) set("Total CBD", "total", potency.totalCbd.value);
+    if (potency.totalCbg.terms.length > 0) set("Total CBG", "total", potency.totalCbg.value);
+    set("Total Cannabinoids", "total", potency.totalCannabinoids.value);
+    if (potency.totalCbd.value > 0) set("THC:CBD", "ratio", potency.totalThc.value / potency.totalCbd.value);
+  }
+
+  if (terpenes.size > 0) {
+    const total = Array.from(terpenes.values()).reduce((sum, value) => sum + value, 0);
+    record.metrics.set("Total Terpenes", { metricType: "total", value: total });
+
+    const ratioValues = toRatioTerpeneValues(terpenes);
+    if (Object.values(ratioValues).some((value) => value > 0)) {
+      const ratios = computeRatioMetrics(ratioValues);
+      const derived: Record<string, number> = {
+        dominanceIndex: ratios.dominanceIndex,
+        balanceScoreNormalized: ratios.balanceScoreNormalized,
+        hhi: ratios.hhi,
+        ...ratios.keyRatios,
+      };
+      for (const [metric, value] of Object.entries(derived)) {
+        if (Number.isFinite(value)) record.metrics.set(metric, { metricType: "ratio", value });
+      }
+    }
+  }
+}
+
+/** Merge inputs by batch id, so a cannabinoid and a terpene profile of one batch count once */
+function toRecords(inputs: AggregateInput[], unitContext: UnitContext): AggregateRecord[] {
+  const records = new Map<string, AggregateRecord>();
+  for (const input of inputs) {
+    const id = inputId(input);
+    const record: AggregateRecord = records.get(id) ?? { id, inputs: [], metrics: new Map() };
+    record.inputs.push(input);
+    records.set(id, record);
+
+    if (isCOA(input) || isBatch(input)) {
+      const { cannabinoids, terpenes } = inputCompounds(input, unitContext);
+      addCompounds(record, cannabinoids, "cannabinoid");
+      addCompounds(record, terpenes, "terpene");
+    } else if (isCannabinoidProfile(input)) {
+      addCompounds(record, normalizeCannabinoidProfile(input, "%", unitContext).cannabinoids, "cannabinoid");
+    } else {
+      addCompounds(record, normalizeTerpeneProfile(input, "%", unitContext).terpenes, "terpene");
+    }
+  }
+
+  for (const record of records.values()) addDerived(record);
+  return Array.from(records.values());
+}
+
+/** Mulberry32: small, fast, seedable PRNG returning [0, 1) */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Percentile of sorted values by linear interpolation (p from 0 to 100) */
+function percentile(sorted: number[], p: number): number {
+  const position = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function bootstrapInterval(
+  values: number[],
+  statistic: "mean" | "median",
+  samples: number,
+  confidence: number,
+  random: () => number
+): { lower: number; upper: number } {
+  const estimates: number[] = [];
+  const resample = new Array<number>(values.length);
+  for (let s = 0; s < samples; s++) {
+    for (let i = 0; i < values.length; i++) resample[i] = values[Math.floor(random() * values.length)];
+    estimates.push(statistic === "mean" ? mean(resample) : percentile([...resample].sort((a, b) => a - b), 50));
+  }
+  estimates.sort((a, b) => a - b);
+  const alpha = (1 - confidence) / 2;
+  return { lower: percentile(estimates, alpha * 100), upper: percentile(estimates, (1 - alpha) * 100) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function summarize(
+  metric: string,
+  metricType: AggregateMetricType,
+  values: number[],
+  options: Required<Pick<AggregateOptions, "percentiles" | "confidence" | "bootstrapStatistic" | "bootstrapSamples">>,
+  random: () => number
+): MetricSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const average = mean(values);
+  const sd = values.length > 1
+    ? Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+    : 0;
+
+  const percentiles: Record<string, number> = {};
+  for (const p of options.percentiles) percentiles[`p${p}`] = round(percentile(sorted, p));
+
+  const ci = values.length > 1 && options.bootstrapSamples > 0
+    ? bootstrapInterval(values, options.bootstrapStatistic, options.bootstrapSamples, options.confidence, random)
+    : null;
+
+  return {
+    metric,
+    metricType,
+    count: values.length,
+    mean: round(average),
+    median: round(percentile(sorted, 50)),
+    sd: round(sd),
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    percentiles,
+    ci: ci ? { lower: round(ci.lower), upper: round(ci.upper) } : null,
+  };
+}
+
+function checkOptions(options: AggregateOptions): void {
+  const problems: string[] = [];
+  const { percentiles, confidence, bootstrapSamples, minCount } = options;
+
+  if (percentiles && !percentiles.every((p) => typeof p === "number" && p >= 0 && p <= 100)) {
+    problems.push("percentiles: expected numbers from 0 to 100");
+  }
+  if (confidence !== undefined && !(confidence > 0 && confidence < 1)) {
+    problems.push("confidence: expected a number between 0 and 1");
+  }
+  if (bootstrapSamples !== undefined && !(Number.isInteger(bootstrapSamples) && bootstrapSamples >= 0)) {
+    problems.push("bootstrapSamples: expected an integer >= 0");
+  }
+  if (minCount !== undefined && !(Number.isInteger(minCount) && minCount >= 1)) {
+    problems.push("minCount: expected an integer >= 1");
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid aggregate options: ${problems.join("; ")}`);
+  }
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Summarize batches, COAs or profiles per group.
+ *
+ * Metrics are every reported cannabinoid and terpene, the potency totals
+ * (Total THC, CBD, CBG, Cannabinoids and Terpenes) and the ratio metrics:
+ * THC:CBD and the terpene dominance index, balance score, HHI and key
+ * log-ratios from `computeRatioMetrics`.
+ *
+ * @param inputs - Batches, COAs or profiles; profiles with the same batch id are merged
+ * @param options - Grouping keys, metrics, percentiles and bootstrap settings
+ * @returns Summaries per group and as flat rows
+ * @throws Error if an option is out of range
+ *
+ * @example
+ * ```typescript
+ * const report = aggregateProfiles(batches, { groupBy: "dispensary", metrics: ["total"] });
+ * report.rows.filter((row) => row.metric === "Total THC"); // median THC by dispensary
+ * ```
+ */
+export function aggregateProfiles(
+  inputs: AggregateInput[],
+  options: AggregateOptions = {}
+): AggregateReport {
+  checkOptions(options);
+  const settings = {
+    percentiles: options.percentiles ?? [5, 25, 75, 95],
+    confidence: options.confidence ?? 0.95,
+    bootstrapStatistic: options.bootstrapStatistic ?? "mean",
+    bootstrapSamples: options.bootstrapSamples ?? 1000,
+  };
+  const keys = ([] as AggregateKey[]).concat(options.groupBy ?? "strain");
+  const keyNames = keys.map((key) => (typeof key === "string" ? key : key.name));
+  const metricTypes = new Set(options.metrics ?? ALL_METRIC_TYPES);
+  const random = seededRandom(options.seed ?? 42);
+
+  const groups = new Map<string, { keys: Record<string, string>; records: AggregateRecord[] }>();
+  for (const record of toRecords(inputs, options.unitContext ?? {})) {
+    const keyValues: Record<string, string> = {};
+    keys.forEach((key, i) => {
+      const values = record.inputs.map((input) =>
+        typeof key === "string" ? fieldValue(input, key, options.strainResolver) : trimmed(key.value(input))
+      );
+      keyValues[keyNames[i]] = values.find((value) => value !== undefined) ?? MISSING_GROUP_VALUE;
+    });
+
+    const id = keyNames.map((name) => keyValues[name].toLowerCase()).join("\u0000");
+    const group = groups.get(id) ?? { keys: keyValues, records: [] };
+    group.records.push(record);
+    groups.set(id, group);
+  }
+
+  const result: AggregateGroup[] = [];
+  for (const group of groups.values()) {
+    if (group.records.length < (options.minCount ?? 1)) continue;
+
+    const values = new Map<string, { metricType: AggregateMetricType; values: number[] }>();
+    for (const record of group.records) {
+      for (const [metric, { metricType, value }] of record.metrics) {
+        if (!metricTypes.has(metricType)) continue;
+        const entry = values.get(metric) ?? { metricType, values: [] };
+        entry.values.push(value);
+        values.set(metric, entry);
+      }
+    }
+
+    const metrics = Array.from(values, ([metric, entry]) =>
+      summarize(metric, entry.metricType, entry.values, settings, random)
+    ).sort((a, b) =>
+      METRIC_TYPE_ORDER[a.metricType] - METRIC_TYPE_ORDER[b.metricType] || a.metric.localeCompare(b.metric)
+    );
+
+    result.push({
+      keys: group.keys,
+      count: group.records.length,
+      batchIds: group.records.map((record) => record.id),
+      metrics,
+    });
+  }
+  result.sort((a, b) => b.count - a.count);
+
+  const rows: AggregateRow[] = result.flatMap((group) =>
+    group.metrics.map((summary) => ({
+      ...group.keys,
+      metric: summary.metric,
+      metricType: summary.metricType,
+      count: summary.count,
+      mean: summary.mean,
+      median: summary.median,
+      sd: summary.sd,
+      min: summary.min,
+      max: summary.max,
+      ...summary.percentiles,
+      ciLower: summary.ci?.lower ?? null,
+      ciUpper: summary.ci?.upper ?? null,
+    }))
+  );
+
+  return {
+    groupBy: keyNames,
+    confidence: settings.confidence,
+    bootstrapStatistic: settings.bootstrapStatistic,
+    groups: result,
+    rows,
+  };
+}
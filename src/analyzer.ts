@@ -7,10 +7,37 @@ import {
   CannabinoidProfile,
   Batch,
   LabResult,
+  TerpeneProfile,
 } from "./models";
+import { AromaOptions, AromaProfile, scoreAromaProfile } from "./aroma";
 import {
-  calculateEuclideanDistance,
-} from "./cannabinoids";
+  buildChemovarFingerprint,
+  Chemovar,
+  ChemovarOptions,
+  ChemovarSimilarityResult,
+  compareFingerprints,
+} from "./chemovar";
+import {
+  calculateDistance,
+  DistanceMetric,
+  distanceToSimilarity,
+} from "./distance";
+import {
+  normalizeCannabinoidProfile,
+  UnitContext,
+} from "./units";
+
+/**
+ * Options for analyzer comparisons
+ */
+export interface AnalyzerOptions {
+  /** Product context for profiles reported in `mg` */
+  unitContext?: UnitContext;
+  /** Distance metric for comparisons (default: "euclidean") */
+  metric?: DistanceMetric;
+  /** Per-compound weights for the "weighted-euclidean" metric */
+  weights?: Record<string, number>;
+}
 
 /**
  * Comparison result between two profiles
@@ -20,6 +47,8 @@ export interface ComparisonResult {
   profile2: CannabinoidProfile;
   distance: number;
   similarity: number; // 0-100, higher is more similar
+  /** Metric that produced `distance` and `similarity` */
+  metric: DistanceMetric;
   differences: Map<string, { val1: number; val2: number; delta: number }>;
 }
 
@@ -30,6 +59,8 @@ export interface SimilarityResult {
   profile: CannabinoidProfile;
   distance: number;
   similarity: number; // 0-100
+  /** Metric that produced `distance` and `similarity` */
+  metric: DistanceMetric;
   rank: number;
 }
 
@@ -47,33 +78,34 @@ export interface BatchComparison {
 export class CDESAnalyzer {
   /**
    * Compare two cannabinoid profiles
+   *
+   * Both profiles are brought to % before comparison, so a batch reported
+   * in mg/g can be compared with one reported in %. `options.metric`
+   * selects the distance; each metric has its own similarity curve.
    */
   static compareProfiles(
     profile1: CannabinoidProfile,
-    profile2: CannabinoidProfile
+    profile2: CannabinoidProfile,
+    options: AnalyzerOptions = {}
   ): ComparisonResult {
-    const distance = calculateEuclideanDistance(
-      profile1.cannabinoids,
-      profile2.cannabinoids
-    );
+    const values1 = normalizeCannabinoidProfile(profile1, "%", options.unitContext).cannabinoids;
+    const values2 = normalizeCannabinoidProfile(profile2, "%", options.unitContext).cannabinoids;
+    const metric = options.metric ?? "euclidean";
+    const distance = calculateDistance(values1, values2, options);
 
     // Convert distance to similarity (0-100, higher is more similar)
-    // Using inverse exponential decay: similarity = 100 * e^(-distance/10)
-    const similarity = Math.max(0, Math.min(100, 100 * Math.exp(-distance / 10)));
+    const similarity = distanceToSimilarity(distance, metric);
 
     // Calculate differences
     const differences = new Map<
       string,
       { val1: number; val2: number; delta: number }
     >();
-    const allKeys = new Set([
-      ...profile1.cannabinoids.keys(),
-      ...profile2.cannabinoids.keys(),
-    ]);
+    const allKeys = new Set([...values1.keys(), ...values2.keys()]);
 
     for (const key of allKeys) {
-      const val1 = profile1.cannabinoids.get(key) || 0;
-      const val2 = profile2.cannabinoids.get(key) || 0;
+      const val1 = values1.get(key) || 0;
+      const val2 = values2.get(key) || 0;
       if (val1 !== val2) {
         differences.set(key, {
           val1,
@@ -88,6 +120,7 @@ export class CDESAnalyzer {
       profile2,
       distance,
       similarity,
+      metric,
       differences,
     };
   }
@@ -99,18 +132,24 @@ export class CDESAnalyzer {
     targetProfile: CannabinoidProfile,
     allProfiles: CannabinoidProfile[],
     limit: number = 5,
-    minSimilarity: number = 50
+    minSimilarity: number = 50,
+    options: AnalyzerOptions = {}
   ): SimilarityResult[] {
+    const targetValues = normalizeCannabinoidProfile(
+      targetProfile,
+      "%",
+      options.unitContext
+    ).cannabinoids;
+    const metric = options.metric ?? "euclidean";
+
     return allProfiles
       .map((profile) => {
-        const distance = calculateEuclideanDistance(
-          targetProfile.cannabinoids,
-          profile.cannabinoids
-        );
-        const similarity = Math.max(
-          0,
-          Math.min(100, 100 * Math.exp(-distance / 10))
+        const distance = calculateDistance(
+          targetValues,
+          normalizeCannabinoidProfile(profile, "%", options.unitContext).cannabinoids,
+          options
         );
+        const similarity = distanceToSimilarity(distance, metric);
         return { profile, distance, similarity };
       })
       .filter(
@@ -124,19 +163,60 @@ export class CDESAnalyzer {
         profile: result.profile,
         distance: result.distance,
         similarity: result.similarity,
+        metric,
         rank: index + 1,
       }));
   }
 
   /**
-   * Score profile completeness
+   * Find similar chemovars on the combined cannabinoid + terpene fingerprint
+   *
+   * Batches without terpene data are compared on cannabinoids alone unless
+   * `missingBlocks` says otherwise; with "require" they are left out. See
+   * `compareFingerprints` for how blocks are weighted.
    */
-  static scoreProfileCompleteness(profile: CannabinoidProfile): {
+  static findSimilarChemovars(
+    target: Chemovar,
+    candidates: Chemovar[],
+    limit: number = 5,
+    minSimilarity: number = 50,
+    options: ChemovarOptions = {}
+  ): ChemovarSimilarityResult[] {
+    const targetFingerprint = buildChemovarFingerprint(target, options.unitContext);
+
+    return candidates
+      .filter((chemovar) => chemovar.cannabinoids.batchId !== target.cannabinoids.batchId)
+      .map((chemovar) => ({
+        chemovar,
+        ...compareFingerprints(
+          targetFingerprint,
+          buildChemovarFingerprint(chemovar, options.unitContext),
+          options
+        ),
+      }))
+      .filter(
+        (result) =>
+          result.similarity >= minSimilarity &&
+          (options.missingBlocks !== "require" || result.coverage === 1)
+      )
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map((result, index) => ({ ...result, rank: index + 1 }));
+  }
+
+  /**
+   * Score profile completeness (total thresholds in %)
+   */
+  static scoreProfileCompleteness(
+    profile: CannabinoidProfile,
+    unitContext: UnitContext = {}
+  ): {
     score: number;
     coverage: number;
     message: string;
   } {
-    const detectedCount = profile.cannabinoids.size;
+    const normalized = normalizeCannabinoidProfile(profile, "%", unitContext);
+    const detectedCount = normalized.cannabinoids.size;
     const maxCannabinoids = 9; // THC, CBD, CBN, CBG, CBC, THCV, CBDV, THCA, CBDA
 
     const coverage = (detectedCount / maxCannabinoids) * 100;
@@ -144,7 +224,7 @@ export class CDESAnalyzer {
 
     // Bonus points for high-quality profiles
     if (detectedCount >= 7) score += 20;
-    if (profile.totalCannabinoids > 10) score += 10;
+    if (normalized.totalCannabinoids > 10) score += 10;
 
     score = Math.min(100, score);
 
@@ -158,18 +238,23 @@ export class CDESAnalyzer {
   }
 
   /**
-   * Classify strain by cannabinoid profile
+   * Classify strain by cannabinoid profile (thresholds in %)
+   *
+   * Compares THC with CBD only; use `classifyChemotype` for chemotypes
+   * I-V from decarboxylated totals.
    */
   static classifyStrain(
-    profile: CannabinoidProfile
+    profile: CannabinoidProfile,
+    unitContext: UnitContext = {}
   ): {
     type: "THC-Dominant" | "CBD-Dominant" | "Balanced" | "Unknown";
     thcContent: "High" | "Moderate" | "Low" | "Trace";
     cbdContent: "High" | "Moderate" | "Low" | "Trace";
     ratio: string;
   } {
-    const thc = profile.cannabinoids.get("THC") || 0;
-    const cbd = profile.cannabinoids.get("CBD") || 0;
+    const values = normalizeCannabinoidProfile(profile, "%", unitContext).cannabinoids;
+    const thc = values.get("THC") || 0;
+    const cbd = values.get("CBD") || 0;
 
     let type: "THC-Dominant" | "CBD-Dominant" | "Balanced" | "Unknown" =
       "Unknown";
@@ -204,8 +289,24 @@ export class CDESAnalyzer {
     return { type, thcContent, cbdContent, ratio };
   }
 
+  /**
+   * Score the aroma of a terpene profile on the aroma wheel
+   *
+   * Maps each terpene's aroma descriptors to families (citrus, earthy,
+   * floral, pine, spicy, sweet) weighted by concentration; see `aroma`.
+   */
+  static scoreAromaProfile(
+    profile: TerpeneProfile,
+    options: AromaOptions = {}
+  ): AromaProfile {
+    return scoreAromaProfile(profile, options);
+  }
+
   /**
    * Calculate terpene-equivalent scores for flavor/aroma
+   *
+   * @deprecated Scores cannabinoid diversity, not flavor. Use
+   * `scoreAromaProfile` with a terpene profile instead.
    */
   static scoreFlavorProfile(profile: CannabinoidProfile): {
     score: number;
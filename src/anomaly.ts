@@ -0,0 +1,368 @@
+/**
+ * CDES Anomaly Detection
+ * Flag suspicious COAs and profiles: potency inflation, totals that do not
+ * add up, impossible acid/neutral ratios and terpene totals above physical
+ * limits
+ *
+ * Two kinds of evidence are combined:
+ * - robust z-scores (median / MAD) of Total THC, Total Cannabinoids and
+ *   total terpenes against the same strain's history (or the whole
+ *   collection when the strain has too little history)
+ * - rule-based checks that do not need any history
+ *
+ * Every reason carries a weight in (0, 1]; the anomaly score is
+ * 100 × (1 − Π(1 − weight)), so one critical reason scores 100 and
+ * independent warnings add up.
+ *
+ * @module anomaly
+ */
+
+import { CannabinoidProfile, COA, SampleInfo } from "./models";
+import { isCOA, median } from "./inputs";
+import { calculatePotency } from "./potency";
+import { normalizeCannabinoidProfile, normalizeCompounds, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** A COA or a cannabinoid profile */
+export type AnomalyInput = COA | CannabinoidProfile;
+
+/** Reason code of an anomaly */
+export type AnomalyCode =
+  | "thc-outlier"
+  | "total-cannabinoids-outlier"
+  | "terpene-outlier"
+  | "total-mismatch"
+  | "total-thc-mismatch"
+  | "acid-ratio"
+  | "potency-limit"
+  | "terpene-limit";
+
+/** Why a record was flagged */
+export interface AnomalyReason {
+  code: AnomalyCode;
+  severity: "warning" | "critical";
+  /** Contribution to the score, in (0, 1] */
+  weight: number;
+  message: string;
+}
+
+/** Anomaly assessment of one record */
+export interface AnomalyResult {
+  /** COA id or profile batchId */
+  id: string;
+  input: AnomalyInput;
+  strain?: string;
+  /** 0 (nothing suspicious) to 100 */
+  score: number;
+  reasons: AnomalyReason[];
+  /** Robust z-score of each metric that could be compared */
+  robustZ: Partial<Record<AnomalyMetric, number>>;
+}
+
+/** Metrics compared against history */
+export type AnomalyMetric = "totalThc" | "totalCannabinoids" | "totalTerpenes";
+
+/** Physical and reporting limits used by the rule-based checks */
+export interface AnomalyLimits {
+  /** Highest plausible Total THC in flower / pre-roll, in % */
+  maxFlowerTotalThc: number;
+  /** Highest plausible total terpenes in flower / pre-roll, in % */
+  maxFlowerTerpenes: number;
+  /** Highest plausible total terpenes in any other product, in % */
+  maxTerpenes: number;
+  /** Allowed gap between a reported total and the sum of its parts, in % points */
+  totalTolerance: number;
+  /** Allowed relative gap between a reported total and the sum of its parts (0-1) */
+  totalRelativeTolerance: number;
+}
+
+/** Options for `detectAnomalies` */
+export interface AnomalyOptions {
+  /** Robust z-score above which a metric is an outlier (default: 3.5) */
+  zThreshold?: number;
+  /** Smallest strain history used for z-scores; smaller strains use the whole collection (default: 5) */
+  minHistory?: number;
+  /** Override any of DEFAULT_ANOMALY_LIMITS */
+  limits?: Partial<AnomalyLimits>;
+  /** Strain of each record (default: COA `sample.strainName`, none for profiles) */
+  strainOf?: (input: AnomalyInput) => string | undefined;
+  /** Product context for results reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Default limits for the rule-based checks */
+export const DEFAULT_ANOMALY_LIMITS: AnomalyLimits = {
+  maxFlowerTotalThc: 35,
+  maxFlowerTerpenes: 8,
+  maxTerpenes: 30,
+  totalTolerance: 0.5,
+  totalRelativeTolerance: 0.05,
+};
+
+/** Scale factor that makes the MAD a consistent estimator of the SD */
+const MAD_SCALE = 1.4826;
+
+/** Product types checked against flower limits */
+const FLOWER_TYPES: ReadonlyArray<SampleInfo["productType"]> = ["flower", "pre-roll"];
+
+const METRIC_LABELS: Record<AnomalyMetric, string> = {
+  totalThc: "Total THC",
+  totalCannabinoids: "Total cannabinoids",
+  totalTerpenes: "Total terpenes",
+};
+
+const OUTLIER_CODES: Record<AnomalyMetric, AnomalyCode> = {
+  totalThc: "thc-outlier",
+  totalCannabinoids: "total-cannabinoids-outlier",
+  totalTerpenes: "terpene-outlier",
+};
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface AnomalyRecord {
+  id: string;
+  input: AnomalyInput;
+  strain?: string;
+  productType?: SampleInfo["productType"];
+  cannabinoids: Map<string, number>;
+  metrics: Partial<Record<AnomalyMetric, number>>;
+  reportedTotalThc?: number;
+  reportedTotalCannabinoids?: number;
+}
+
+function toRecord(input: AnomalyInput, options: AnomalyOptions): AnomalyRecord {
+  const strain = (options.strainOf ?? ((i) => (isCOA(i) ? i.sample.strainName : undefined)))(input);
+  const unitContext = options.unitContext ?? {};
+
+  if (isCOA(input)) {
+    const potency = calculatePotency(input.cannabinoids ?? [], unitContext);
+    const terpenes = normalizeCompounds(input.terpenes ?? [], "%", unitContext);
+    const record: AnomalyRecord = {
+      id: input.id,
+      input,
+      strain,
+      productType: input.sample.productType,
+      cannabinoids: new Map(potency.totalCannabinoids.terms.map((t) => [t.compound, t.value])),
+      metrics: {},
+      reportedTotalThc: input.potencyResults?.totalThc,
+      reportedTotalCannabinoids: input.potencyResults?.totalCannabinoids,
+    };
+    if (potency.totalThc.terms.length > 0) record.metrics.totalThc = potency.totalThc.value;
+    if (potency.totalCannabinoids.terms.length > 0) {
+      record.metrics.totalCannabinoids = potency.totalCannabinoids.value;
+    }
+    if (terpenes.length > 0) {
+      record.metrics.totalTerpenes = terpenes.reduce((sum, t) => sum + t.percentage, 0);
+    }
+    return record;
+  }
+
+  const profile = normalizeCannabinoidProfile(input, "%", unitContext);
+  const potency = calculatePotency(profile.cannabinoids);
+  const record: AnomalyRecord = {
+    id: input.batchId,
+    input,
+    strain,
+    cannabinoids: new Map(potency.totalCannabinoids.terms.map((t) => [t.compound, t.value])),
+    metrics: {},
+  };
+  if (potency.totalThc.terms.length > 0) record.metrics.totalThc = potency.totalThc.value;
+  if (potency.totalCannabinoids.terms.length > 0) {
+    record.metrics.totalCannabinoids = potency.totalCannabinoids.value;
+    record.reportedTotalCannabinoids = profile.totalCannabinoids;
+  }
+  return record;
+}
+
+function totalsDiffer(reported: number, computed: number, limits: AnomalyLimits): boolean {
+  const gap = Math.abs(reported - computed);
+  return gap > limits.totalTolerance && gap > limits.totalRelativeTolerance * Math.abs(computed);
+}
+
+function ruleReasons(record: AnomalyRecord, limits: AnomalyLimits): AnomalyReason[] {
+  const reasons: AnomalyReason[] = [];
+  const { metrics } = record;
+  const isFlower = FLOWER_TYPES.includes(record.productType);
+
+  if (record.reportedTotalCannabinoids !== undefined && metrics.totalCannabinoids !== undefined &&
+      totalsDiffer(record.reportedTotalCannabinoids, metrics.totalCannabinoids, limits)) {
+    reasons.push({
+      code: "total-mismatch",
+      severity: "critical",
+      weight: 1,
+      message: `Reported total cannabinoids ${record.reportedTotalCannabinoids.toFixed(2)}% ` +
+        `does not match the sum of its parts (${metrics.totalCannabinoids.toFixed(2)}%)`,
+    });
+  }
+
+  if (record.reportedTotalThc !== undefined && metrics.totalThc !== undefined &&
+      totalsDiffer(record.reportedTotalThc, metrics.totalThc, limits)) {
+    reasons.push({
+      code: "total-thc-mismatch",
+      severity: "critical",
+      weight: 1,
+      message: `Reported Total THC ${record.reportedTotalThc.toFixed(2)}% does not match ` +
+        `THC + 0.877 × THCA (${metrics.totalThc.toFixed(2)}%)`,
+    });
+  }
+
+  const totalCannabinoids = Math.max(metrics.totalCannabinoids ?? 0, record.reportedTotalCannabinoids ?? 0);
+  if (totalCannabinoids > 100) {
+    reasons.push({
+      code: "potency-limit",
+      severity: "critical",
+      weight: 1,
+      message: `Total cannabinoids ${totalCannabinoids.toFixed(2)}% exceeds 100%`,
+    });
+  } else if (isFlower && metrics.totalThc !== undefined && metrics.totalThc > limits.maxFlowerTotalThc) {
+    reasons.push({
+      code: "potency-limit",
+      severity: "critical",
+      weight: 1,
+      message: `Total THC ${metrics.totalThc.toFixed(2)}% is above the ${limits.maxFlowerTotalThc}% plausible for ${record.productType}`,
+    });
+  }
+
+  const thc = record.cannabinoids.get("THC") ?? 0;
+  const thca = record.cannabinoids.get("THCA") ?? 0;
+  if (isFlower && thc > 1 && thc > thca) {
+    reasons.push({
+      code: "acid-ratio",
+      severity: "warning",
+      weight: 0.5,
+      message: `THC (${thc.toFixed(2)}%) exceeds THCA (${thca.toFixed(2)}%), an implausible acid/neutral ratio for ${record.productType}`,
+    });
+  }
+
+  if (metrics.totalTerpenes !== undefined) {
+    const limit = isFlower ? limits.maxFlowerTerpenes : limits.maxTerpenes;
+    if (metrics.totalTerpenes > limit) {
+      reasons.push({
+        code: "terpene-limit",
+        severity: "critical",
+        weight: 1,
+        message: `Total terpenes ${metrics.totalTerpenes.toFixed(2)}% is above the physical limit of ${limit}%` +
+          (record.productType ? ` for ${record.productType}` : ""),
+      });
+    }
+  }
+
+  return reasons;
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Robust z-scores: 0.6745 × (x − median) / MAD.
+ *
+ * When the MAD is 0 (more than half the values are equal) the mean
+ * absolute deviation × 1.2533 is used instead; if that is also 0 every
+ * score is 0.
+ *
+ * @param values - Observations
+ * @returns One score per observation
+ */
+export function robustZScores(values: number[]): number[] {
+  if (values.length === 0) return [];
+
+  const center = median(values);
+  const mad = median(values.map((v) => Math.abs(v - center)));
+  let scale = mad * MAD_SCALE;
+  if (scale === 0) {
+    scale = (values.reduce((sum, v) => sum + Math.abs(v - center), 0) / values.length) * 1.2533;
+  }
+
+  return values.map((v) => (scale > 0 ? (v - center) / scale : 0));
+}
+
+/**
+ * Score a collection of COAs or profiles for signs of inflated or
+ * inconsistent results.
+ *
+ * Only upward outliers are flagged: they are what inflation looks like.
+ *
+ * @param inputs - COAs and/or cannabinoid profiles
+ * @param options - Thresholds, limits and strain lookup
+ * @returns One result per input, in input order
+ */
+export function detectAnomalies(
+  inputs: AnomalyInput[],
+  options: AnomalyOptions = {}
+): AnomalyResult[] {
+  const limits = { ...DEFAULT_ANOMALY_LIMITS, ...options.limits };
+  const zThreshold = options.zThreshold ?? 3.5;
+  const minHistory = options.minHistory ?? 5;
+  const records = inputs.map((input) => toRecord(input, options));
+
+  const byStrain = new Map<string, AnomalyRecord[]>();
+  for (const record of records) {
+    const key = record.strain?.trim().toLowerCase();
+    if (!key) continue;
+    const group = byStrain.get(key);
+    if (group) group.push(record);
+    else byStrain.set(key, [record]);
+  }
+
+  const scores = new Map<AnomalyRecord, Partial<Record<AnomalyMetric, number>>>(
+    records.map((r) => [r, {}])
+  );
+  const peerMedians = new Map<AnomalyRecord, Partial<Record<AnomalyMetric, { median: number; ofStrain: boolean }>>>(
+    records.map((r) => [r, {}])
+  );
+
+  for (const metric of Object.keys(METRIC_LABELS) as AnomalyMetric[]) {
+    const assign = (group: AnomalyRecord[], ofStrain: boolean) => {
+      const members = group.filter((r) => r.metrics[metric] !== undefined);
+      if (members.length < minHistory) return;
+      const values = members.map((r) => r.metrics[metric]!);
+      const center = median(values);
+      robustZScores(values).forEach((z, i) => {
+        scores.get(members[i])![metric] = z;
+        peerMedians.get(members[i])![metric] = { median: center, ofStrain };
+      });
+    };
+
+    assign(records, false);
+    for (const group of byStrain.values()) assign(group, true);
+  }
+
+  return records.map((record) => {
+    const robustZ = scores.get(record)!;
+    const reasons = ruleReasons(record, limits);
+
+    for (const metric of Object.keys(robustZ) as AnomalyMetric[]) {
+      const z = robustZ[metric]!;
+      if (z <= zThreshold) continue;
+      const peer = peerMedians.get(record)![metric]!;
+      reasons.push({
+        code: OUTLIER_CODES[metric],
+        severity: "warning",
+        weight: Math.min(1, z / (2 * zThreshold)),
+        message: `${METRIC_LABELS[metric]} ${record.metrics[metric]!.toFixed(2)}% is ${z.toFixed(1)} robust SDs above the ` +
+          `${peer.ofStrain ? `${record.strain!.trim()} ` : "collection "}median of ${peer.median.toFixed(2)}%`,
+      });
+    }
+
+    const score = 100 * (1 - reasons.reduce((p, r) => p * (1 - r.weight), 1));
+    const result: AnomalyResult = {
+      id: record.id,
+      input: record.input,
+      score: Math.round(score * 10) / 10,
+      reasons,
+      robustZ,
+    };
+    if (record.strain) result.strain = record.strain;
+    return result;
+  });
+}
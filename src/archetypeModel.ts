@@ -0,0 +1,253 @@
+/**
+ * CDES Archetype Models
+ * Fit, version and load archetype centroid models for `classifyArchetype`
+ *
+ * A centroid is the mean CLR vector of the profiles with that label, i.e.
+ * the CLR transform of their geometric-mean composition. Models are plain
+ * JSON: store them with `JSON.stringify` and check them on the way back in
+ * with `loadArchetypeModel`.
+ *
+ * @module archetypeModel
+ */
+
+import { TerpeneProfile } from "./models";
+import { ClusteringResult } from "./clustering";
+import { isTerpeneProfile } from "./inputs";
+import {
+  ArchetypeModel,
+  computeClrCoordinates,
+  FIXED_TERPENE_ORDER,
+  toRatioTerpeneValues,
+} from "./ratioAnalysis";
+import { normalizeTerpeneProfile, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Terpene values of one training profile */
+export type ArchetypeTrainingTerpenes =
+  | TerpeneProfile
+  | Map<string, number>
+  | Record<string, number>;
+
+/** One labeled training profile */
+export interface ArchetypeTrainingSample<L extends string = string> {
+  terpenes: ArchetypeTrainingTerpenes;
+  label: L;
+}
+
+/** Options for fitting an archetype model */
+export interface ArchetypeFitOptions {
+  /** Model version (default: "1.0.0") */
+  version?: string;
+  /** Training date (default: now) */
+  trainedAt?: Date | string;
+  source?: string;
+  description?: string;
+  /** Product context for profiles reported in `mg` */
+  unitContext?: UnitContext;
+  /** Labels with fewer usable profiles are left out (default: 1) */
+  minSamplesPerLabel?: number;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function ratioValues(
+  terpenes: ArchetypeTrainingTerpenes,
+  unitContext: UnitContext
+): Record<string, number> {
+  if (isTerpeneProfile(terpenes)) {
+    return toRatioTerpeneValues(normalizeTerpeneProfile(terpenes, "%", unitContext).terpenes);
+  }
+  return toRatioTerpeneValues(terpenes);
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Fit archetype centroids from labeled terpene profiles.
+ *
+ * Profiles without any FIXED_TERPENE_ORDER terpene are skipped.
+ *
+ * @param samples - Terpene values and archetype label of each profile
+ * @param options - Metadata and minimum profiles per label
+ * @returns A model for `classifyArchetype` / `computeRatioMetrics`
+ * @throws Error if fewer than two labels have enough usable profiles
+ */
+export function fitArchetypeModel<L extends string>(
+  samples: Array<ArchetypeTrainingSample<L>>,
+  options: ArchetypeFitOptions = {}
+): ArchetypeModel<L> {
+  const sums = new Map<L, { coordinates: Record<string, number>; count: number }>();
+
+  for (const { terpenes, label } of samples) {
+    const values = ratioValues(terpenes, options.unitContext ?? {});
+    if (!Object.values(values).some((v) => v > 0)) continue;
+
+    const clr = computeClrCoordinates(values);
+    const entry = sums.get(label) ?? { coordinates: {}, count: 0 };
+    for (const key of FIXED_TERPENE_ORDER) {
+      entry.coordinates[key] = (entry.coordinates[key] ?? 0) + clr[key];
+    }
+    entry.count++;
+    sums.set(label, entry);
+  }
+
+  const minSamples = Math.max(1, options.minSamplesPerLabel ?? 1);
+  const centroids: Partial<Record<L, Record<string, number>>> = {};
+  const sampleCounts: Record<string, number> = {};
+  let trainingSize = 0;
+
+  for (const [label, { coordinates, count }] of sums) {
+    if (count < minSamples) continue;
+    centroids[label] = Object.fromEntries(
+      FIXED_TERPENE_ORDER.map((key) => [key, coordinates[key] / count])
+    );
+    sampleCounts[label] = count;
+    trainingSize += count;
+  }
+
+  // Classification needs at least two centroids, and so does `loadArchetypeModel`
+  const labels = Object.keys(sampleCounts).length;
+  if (labels < 2) {
+    throw new Error(
+      `Cannot fit archetype model: ${labels} label(s) have enough profiles with terpene data, at least 2 are needed`
+    );
+  }
+
+  const trainedAt = options.trainedAt ?? new Date();
+  const model: ArchetypeModel<L> = {
+    metadata: {
+      version: options.version ?? "1.0.0",
+      trainingSize,
+      trainedAt: trainedAt instanceof Date ? trainedAt.toISOString() : trainedAt,
+      terpenePanel: [...FIXED_TERPENE_ORDER],
+      sampleCounts,
+    },
+    centroids,
+  };
+  if (options.source) model.metadata.source = options.source;
+  if (options.description) model.metadata.description = options.description;
+  return model;
+}
+
+/**
+ * Fit archetype centroids from a clustering of terpene profiles.
+ *
+ * @param profiles - The profiles that were clustered
+ * @param clustering - Result of `kMeansClustering` / `hierarchicalClustering`
+ * @param labels - Archetype label per cluster number (default: "cluster-<n>")
+ * @param options - Metadata and minimum profiles per label
+ * @returns A model with one centroid per labeled cluster
+ */
+export function fitArchetypeModelFromClusters<L extends string = string>(
+  profiles: TerpeneProfile[],
+  clustering: ClusteringResult,
+  labels: Record<number, L> = {},
+  options: ArchetypeFitOptions = {}
+): ArchetypeModel<L> {
+  const clusterByBatch = new Map(
+    clustering.assignments.map((a) => [a.batchId, a.cluster])
+  );
+
+  const samples: Array<ArchetypeTrainingSample<L>> = [];
+  for (const profile of profiles) {
+    const cluster = clusterByBatch.get(profile.batchId);
+    if (cluster === undefined) continue;
+    samples.push({ terpenes: profile, label: labels[cluster] ?? (`cluster-${cluster}` as L) });
+  }
+
+  return fitArchetypeModel(samples, options);
+}
+
+/**
+ * Load and check an archetype model from untyped JSON.
+ *
+ * @param input - Parsed JSON model
+ * @returns Typed ArchetypeModel
+ * @throws Error listing every problem found in the model
+ */
+export function loadArchetypeModel(input: unknown): ArchetypeModel<string> {
+  if (!isRecord(input)) {
+    throw new Error("Invalid archetype model: expected an object");
+  }
+
+  const problems: string[] = [];
+  const { metadata, centroids } = input;
+  const model: ArchetypeModel<string> = {
+    metadata: { version: "", trainingSize: null, trainedAt: null, terpenePanel: [] },
+    centroids: {},
+  };
+
+  if (!isRecord(metadata)) {
+    problems.push("metadata: expected an object");
+  } else {
+    const { version, trainingSize, trainedAt, terpenePanel, sampleCounts, source, description } = metadata;
+    if (typeof version !== "string" || version === "") {
+      problems.push("metadata.version: expected a non-empty string");
+    } else {
+      model.metadata.version = version;
+    }
+    if (trainingSize !== null && !(typeof trainingSize === "number" && trainingSize >= 0)) {
+      problems.push("metadata.trainingSize: expected a number >= 0 or null");
+    } else {
+      model.metadata.trainingSize = trainingSize;
+    }
+    if (trainedAt !== null && (typeof trainedAt !== "string" || isNaN(Date.parse(trainedAt)))) {
+      problems.push("metadata.trainedAt: expected an ISO date or null");
+    } else {
+      model.metadata.trainedAt = trainedAt;
+    }
+    if (
+      !Array.isArray(terpenePanel) ||
+      terpenePanel.length === 0 ||
+      terpenePanel.some((key) => !FIXED_TERPENE_ORDER.includes(key))
+    ) {
+      problems.push(`metadata.terpenePanel: expected keys from ${FIXED_TERPENE_ORDER.join(", ")}`);
+    } else {
+      model.metadata.terpenePanel = terpenePanel.map(String);
+    }
+    if (isRecord(sampleCounts)) {
+      model.metadata.sampleCounts = Object.fromEntries(
+        Object.entries(sampleCounts).filter((entry): entry is [string, number] => typeof entry[1] === "number")
+      );
+    }
+    if (typeof source === "string") model.metadata.source = source;
+    if (typeof description === "string") model.metadata.description = description;
+  }
+
+  if (!isRecord(centroids) || Object.keys(centroids).length < 2) {
+    problems.push("centroids: expected an object with at least two archetypes");
+  } else {
+    for (const [label, centroid] of Object.entries(centroids)) {
+      if (!isRecord(centroid)) {
+        problems.push(`centroids.${label}: expected an object`);
+        continue;
+      }
+      const values: Record<string, number> = {};
+      for (const key of model.metadata.terpenePanel) {
+        const value = centroid[key];
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          problems.push(`centroids.${label}.${key}: expected a number`);
+        } else {
+          values[key] = value;
+        }
+      }
+      model.centroids[label] = values;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid archetype model: ${problems.join("; ")}`);
+  }
+  return model;
+}
@@ -0,0 +1,218 @@
+/**
+ * CDES Aroma Wheel
+ * Score the aroma and flavor of a terpene profile by aroma family
+ *
+ * Every terpene's aroma descriptors ("Earthy, musky, herbal, mango") are
+ * mapped to six families: citrus, earthy, floral, pine, spicy and sweet.
+ * The terpene's concentration is split evenly over its mapped descriptors,
+ * so intensities are in % of the product and sum to the terpenes that
+ * have aroma data.
+ *
+ * Descriptors come from STANDARD_TERPENES, or from reference libraries
+ * (`fetchTerpeneLibrary`) whose `aroma` and `flavor` arrays replace them.
+ *
+ * @module aroma
+ */
+
+import { TerpeneProfile } from "./models";
+import { TerpeneRef } from "./reference";
+import { normalizeTerpeneName, STANDARD_TERPENES } from "./terpenes";
+import { normalizeTerpeneProfile, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Aroma family of the wheel */
+export type AromaFamily = "citrus" | "earthy" | "floral" | "pine" | "spicy" | "sweet";
+
+/** Options for `scoreAromaProfile` */
+export interface AromaOptions {
+  /** Terpene aroma and flavor data, replacing built-in descriptors for the terpenes they cover */
+  terpeneReferences?: TerpeneRef[];
+  /** Extra or replacement descriptor → family mappings (lowercase descriptors) */
+  descriptorFamilies?: Record<string, AromaFamily>;
+  /** Product context for profiles reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+/** Intensity of one descriptor */
+export interface AromaDescriptorScore {
+  descriptor: string;
+  /** Concentration attributed to this descriptor, in % */
+  intensity: number;
+  /** Terpenes that carry this descriptor */
+  terpenes: string[];
+}
+
+/** Intensity of one aroma family */
+export interface AromaFamilyScore {
+  family: AromaFamily;
+  /** Concentration attributed to this family, in % */
+  intensity: number;
+  /** Share of all mapped intensity (0-1) */
+  share: number;
+  /** Descriptors, strongest first */
+  descriptors: AromaDescriptorScore[];
+}
+
+/** Sunburst node: the root holds families, families hold descriptors */
+export interface AromaWheelNode {
+  name: string;
+  value: number;
+  color?: string;
+  children?: AromaWheelNode[];
+}
+
+/** Aroma model of a terpene profile */
+export interface AromaProfile {
+  batchId: string;
+  /** All six families, strongest first */
+  families: AromaFamilyScore[];
+  dominantFamily: AromaFamily | null;
+  /** Strongest descriptor, e.g. "earthy" */
+  mainDescriptor: string | null;
+  wheel: AromaWheelNode;
+  /** Terpenes in the profile without mapped aroma data */
+  unmapped: string[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Aroma families in wheel order */
+export const AROMA_FAMILIES: AromaFamily[] = ["citrus", "earthy", "floral", "pine", "spicy", "sweet"];
+
+/** Wheel color per aroma family */
+export const AROMA_FAMILY_COLORS: Record<AromaFamily, string> = {
+  citrus: "#F4C430",
+  earthy: "#8B5A2B",
+  floral: "#C71585",
+  pine: "#2E8B57",
+  spicy: "#C0392B",
+  sweet: "#E67E22",
+};
+
+/** Aroma family of each known descriptor (lowercase) */
+export const AROMA_DESCRIPTOR_FAMILIES: Record<string, AromaFamily> = {
+  citrus: "citrus", lemon: "citrus", lemony: "citrus", orange: "citrus", "sweet orange": "citrus",
+  lime: "citrus", grapefruit: "citrus", tangerine: "citrus", bright: "citrus",
+  earthy: "earthy", musky: "earthy", herbal: "earthy", herbaceous: "earthy", hoppy: "earthy",
+  woody: "earthy", woodsy: "earthy", smoky: "earthy", "thyme-like": "earthy", camphor: "earthy",
+  pungent: "earthy", medicinal: "earthy", oxidized: "earthy", diesel: "earthy", skunky: "earthy",
+  floral: "floral", lavender: "floral", rose: "floral", "rose-like": "floral", lilac: "floral",
+  chamomile: "floral", jasmine: "floral",
+  pine: "pine", piney: "pine", forest: "pine", fresh: "pine", crisp: "pine", cypress: "pine",
+  minty: "pine", mint: "pine", cool: "pine", cooling: "pine", "menthol-like": "pine", eucalyptus: "pine",
+  spicy: "spicy", peppery: "spicy", warm: "spicy", hot: "spicy", clove: "spicy", cinnamon: "spicy",
+  sweet: "sweet", fruity: "sweet", mango: "sweet", apple: "sweet", "apple-like": "sweet",
+  berry: "sweet", grape: "sweet", vanilla: "sweet", tropical: "sweet",
+};
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function splitDescriptors(text: string | string[] | undefined): string[] {
+  const parts = Array.isArray(text) ? text : (text ?? "").split(",");
+  return parts.map((part) => part.trim().toLowerCase()).filter(Boolean);
+}
+
+function descriptorsByTerpene(options: AromaOptions): Map<string, string[]> {
+  const table = new Map<string, string[]>();
+  for (const [name, definition] of Object.entries(STANDARD_TERPENES)) {
+    table.set(name, splitDescriptors(definition.aroma));
+  }
+  for (const ref of options.terpeneReferences ?? []) {
+    const descriptors = Array.from(new Set([...splitDescriptors(ref.aroma), ...splitDescriptors(ref.flavor)]));
+    for (const name of [ref.name, ...(ref.alternateName ?? [])]) {
+      table.set(normalizeTerpeneName(name), descriptors);
+    }
+  }
+  return table;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Score a terpene profile on the aroma wheel.
+ *
+ * @param profile - Terpene profile
+ * @param options - Reference aroma data, extra descriptor mappings and unit context
+ * @returns Family intensities, main descriptor and sunburst data
+ */
+export function scoreAromaProfile(
+  profile: TerpeneProfile,
+  options: AromaOptions = {}
+): AromaProfile {
+  const families = { ...AROMA_DESCRIPTOR_FAMILIES, ...options.descriptorFamilies };
+  const table = descriptorsByTerpene(options);
+  const values = normalizeTerpeneProfile(profile, "%", options.unitContext ?? {}).terpenes;
+
+  const descriptors = new Map<string, { family: AromaFamily; intensity: number; terpenes: string[] }>();
+  const unmapped: string[] = [];
+  for (const [rawName, value] of values) {
+    if (!Number.isFinite(value) || value <= 0) continue;
+    const name = normalizeTerpeneName(rawName);
+    const mapped = (table.get(name) ?? []).filter((descriptor) => families[descriptor]);
+    if (mapped.length === 0) {
+      unmapped.push(name);
+      continue;
+    }
+
+    for (const descriptor of mapped) {
+      const entry = descriptors.get(descriptor) ?? { family: families[descriptor], intensity: 0, terpenes: [] };
+      entry.intensity += value / mapped.length;
+      if (!entry.terpenes.includes(name)) entry.terpenes.push(name);
+      descriptors.set(descriptor, entry);
+    }
+  }
+
+  const total = Array.from(descriptors.values()).reduce((sum, d) => sum + d.intensity, 0);
+  const scores: AromaFamilyScore[] = AROMA_FAMILIES.map((family) => {
+    const members = Array.from(descriptors, ([descriptor, d]) => ({ descriptor, ...d }))
+      .filter((d) => d.family === family)
+      .sort((a, b) => b.intensity - a.intensity);
+    const intensity = members.reduce((sum, d) => sum + d.intensity, 0);
+    return {
+      family,
+      intensity: round(intensity),
+      share: total > 0 ? round(intensity / total) : 0,
+      descriptors: members.map(({ descriptor, intensity: value, terpenes }) => ({
+        descriptor,
+        intensity: round(value),
+        terpenes,
+      })),
+    };
+  }).sort((a, b) => b.intensity - a.intensity);
+
+  const strongest = Array.from(descriptors).sort((a, b) => b[1].intensity - a[1].intensity)[0];
+
+  return {
+    batchId: profile.batchId,
+    families: scores,
+    dominantFamily: total > 0 ? scores[0].family : null,
+    mainDescriptor: strongest ? strongest[0] : null,
+    wheel: {
+      name: profile.batchName,
+      value: round(total),
+      children: AROMA_FAMILIES.map((family) => {
+        const score = scores.find((s) => s.family === family)!;
+        return {
+          name: family,
+          value: score.intensity,
+          color: AROMA_FAMILY_COLORS[family],
+          children: score.descriptors.map((d) => ({ name: d.descriptor, value: d.intensity })),
+        };
+      }).filter((node) => node.value > 0),
+    },
+    unmapped,
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * CDES Chemotypes
+ * Classify cannabinoid profiles into chemotypes I-V from decarboxylated
+ * Total THC, Total CBD and Total CBG
+ *
+ * - Type I: THC-dominant (THC:CBD at or above `typeIMinRatio`)
+ * - Type II: mixed THC/CBD
+ * - Type III: CBD-dominant (THC:CBD at or below `typeIIIMaxRatio`)
+ * - Type IV: CBG-dominant
+ * - Type V: almost no cannabinoids (Total THC + CBD + CBG below `minTotal`)
+ *
+ * Minor cannabinoids above their thresholds are labeled separately, e.g.
+ * "THCV-rich" or "CBN-elevated".
+ *
+ * @module chemotype
+ */
+
+import { Cannabinoid, CannabinoidProfile, COA } from "./models";
+import { isCOA, measuredCannabinoidName } from "./inputs";
+import { calculatePotency } from "./potency";
+import { normalizeCannabinoidProfile, normalizeCompounds, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Chemotype I-V */
+export type Chemotype = "I" | "II" | "III" | "IV" | "V";
+
+/** Cannabinoid data `classifyChemotype` accepts */
+export type ChemotypeInput = CannabinoidProfile | COA | Cannabinoid[] | Map<string, number>;
+
+/** Threshold for labeling a minor cannabinoid */
+export interface MinorCannabinoidThreshold {
+  /** Decarboxylated amount in % at or above which the label applies */
+  minPercent: number;
+  label: string;
+}
+
+/** Thresholds used by `classifyChemotype` */
+export interface ChemotypeThresholds {
+  /** THC:CBD ratio at or above which a profile is Type I (default: 5) */
+  typeIMinRatio: number;
+  /** THC:CBD ratio at or below which a profile is Type III (default: 0.2) */
+  typeIIIMaxRatio: number;
+  /** Type IV when CBG is at least this multiple of both THC and CBD (default: 1) */
+  cbgDominance: number;
+  /** Type V when Total THC + CBD + CBG (in %) is below this (default: 0.5) */
+  minTotal: number;
+  /** THC:CBD ratio band edges, descending (default: 20, 5, 2, 0.5, 0.2, 0.05) */
+  ratioBands: number[];
+  /** Minor cannabinoid labels by neutral compound name */
+  minor: Record<string, MinorCannabinoidThreshold>;
+}
+
+/** Options for `classifyChemotype` */
+export interface ChemotypeOptions {
+  /** Overrides for DEFAULT_CHEMOTYPE_THRESHOLDS */
+  thresholds?: Partial<ChemotypeThresholds>;
+  /** Product context for results reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+/** THC:CBD ratio band; bounds are null at the open ends */
+export interface RatioBand {
+  /** e.g. "5:1 – 20:1 THC:CBD" */
+  label: string;
+  min: number | null;
+  max: number | null;
+}
+
+/** A minor cannabinoid above its threshold */
+export interface MinorCannabinoidEnrichment {
+  compound: string;
+  /** Decarboxylated amount in % */
+  value: number;
+  threshold: number;
+  label: string;
+}
+
+/** Result of `classifyChemotype` */
+export interface ChemotypeClassification {
+  chemotype: Chemotype;
+  /** e.g. "Type I (THC-dominant)" */
+  label: string;
+  /** Decarboxylated totals in % */
+  totals: { thc: number; cbd: number; cbg: number };
+  /** Total THC / Total CBD, or null when there is no CBD */
+  thcCbdRatio: number | null;
+  ratioBand: RatioBand;
+  enrichments: MinorCannabinoidEnrichment[];
+  /** The thresholds that were applied */
+  thresholds: ChemotypeThresholds;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Default chemotype thresholds */
+export const DEFAULT_CHEMOTYPE_THRESHOLDS: ChemotypeThresholds = {
+  typeIMinRatio: 5,
+  typeIIIMaxRatio: 0.2,
+  cbgDominance: 1,
+  minTotal: 0.5,
+  ratioBands: [20, 5, 2, 0.5, 0.2, 0.05],
+  minor: {
+    THCV: { minPercent: 0.5, label: "THCV-rich" },
+    CBDV: { minPercent: 0.5, label: "CBDV-rich" },
+    CBC: { minPercent: 0.5, label: "CBC-rich" },
+    CBG: { minPercent: 1, label: "CBG-rich" },
+    CBN: { minPercent: 0.5, label: "CBN-elevated" },
+  },
+};
+
+/** Chemotype descriptions */
+export const CHEMOTYPE_LABELS: Record<Chemotype, string> = {
+  I: "Type I (THC-dominant)",
+  II: "Type II (mixed THC/CBD)",
+  III: "Type III (CBD-dominant)",
+  IV: "Type IV (CBG-dominant)",
+  V: "Type V (cannabinoid-free)",
+};
+
+/** Minor acid forms, their neutral form and decarboxylation factor (neutral MW / acid MW) */
+const MINOR_ACIDS: Record<string, [string, number]> = {
+  THCVA: ["THCV", 0.867],
+  CBDVA: ["CBDV", 0.867],
+  CBCA: ["CBC", 0.877],
+  CBNA: ["CBN", 0.876],
+};
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function cannabinoidValues(input: ChemotypeInput, unitContext: UnitContext): Map<string, number> {
+  let entries: Array<[string, number]>;
+  if (input instanceof Map) {
+    entries = Array.from(input.entries());
+  } else if (Array.isArray(input)) {
+    entries = normalizeCompounds(input, "%", unitContext).map((c) => [c.name, c.percentage]);
+  } else if (isCOA(input)) {
+    entries = normalizeCompounds(input.cannabinoids ?? [], "%", unitContext).map((c) => [c.name, c.percentage]);
+  } else {
+    entries = Array.from(normalizeCannabinoidProfile(input, "%", unitContext).cannabinoids.entries());
+  }
+
+  // Minor acids are not standard compounds, so they are decarboxylated into
+  // their neutral form here. Summary rows ("Total THC") and unknown names are
+  // dropped, and the first value of a compound wins.
+  const values = new Map<string, number>();
+  const seen = new Set<string>();
+  for (const [name, value] of entries) {
+    if (typeof value !== "number" || !Number.isFinite(value)) continue;
+    const normalized = name.toUpperCase().replace(/[^A-Z0-9]/g, "");
+    const acid = MINOR_ACIDS[normalized];
+    const compound = acid ? normalized : measuredCannabinoidName(name);
+    if (compound === undefined || seen.has(compound)) continue;
+    seen.add(compound);
+    const key = acid ? acid[0] : compound;
+    values.set(key, (values.get(key) ?? 0) + value * (acid ? acid[1] : 1));
+  }
+  return values;
+}
+
+function formatRatio(ratio: number): string {
+  const format = (x: number) => String(Math.round(x * 10) / 10);
+  return ratio >= 1 ? `${format(ratio)}:1` : `1:${format(1 / ratio)}`;
+}
+
+function ratioBand(ratio: number | null, hasThc: boolean, edges: number[]): RatioBand {
+  if (ratio === null && !hasThc) return { label: "No THC or CBD", min: null, max: null };
+
+  const sorted = [...edges].sort((a, b) => b - a);
+  const value = ratio ?? Infinity;
+  const upper = sorted.findIndex((edge) => value >= edge);
+
+  if (upper === 0) return { label: `≥ ${formatRatio(sorted[0])} THC:CBD`, min: sorted[0], max: null };
+  if (upper === -1) {
+    const last = sorted[sorted.length - 1];
+    return { label: `< ${formatRatio(last)} THC:CBD`, min: null, max: last };
+  }
+  const min = sorted[upper];
+  const max = sorted[upper - 1];
+  return { label: `${formatRatio(min)} – ${formatRatio(max)} THC:CBD`, min, max };
+}
+
+function checkThresholds(thresholds: ChemotypeThresholds): void {
+  const problems: string[] = [];
+  const positive = (value: number) => typeof value === "number" && Number.isFinite(value) && value > 0;
+
+  if (!positive(thresholds.typeIMinRatio)) problems.push("typeIMinRatio: expected a number > 0");
+  if (!positive(thresholds.typeIIIMaxRatio)) problems.push("typeIIIMaxRatio: expected a number > 0");
+  if (thresholds.typeIIIMaxRatio >= thresholds.typeIMinRatio) {
+    problems.push("typeIIIMaxRatio: expected less than typeIMinRatio");
+  }
+  if (!positive(thresholds.cbgDominance)) problems.push("cbgDominance: expected a number > 0");
+  if (!(thresholds.minTotal >= 0)) problems.push("minTotal: expected a number >= 0");
+  if (thresholds.ratioBands.length === 0 || !thresholds.ratioBands.every(positive)) {
+    problems.push("ratioBands: expected numbers > 0");
+  }
+  for (const [compound, minor] of Object.entries(thresholds.minor)) {
+    if (!(minor.minPercent >= 0)) problems.push(`minor.${compound}.minPercent: expected a number >= 0`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid chemotype thresholds: ${problems.join("; ")}`);
+  }
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Classify a cannabinoid profile into chemotype I-V.
+ *
+ * Acid forms are decarboxylated first (Total THC = THC + 0.877 × THCA, and
+ * likewise for CBD, CBG and the minor acids).
+ *
+ * @param input - Cannabinoid profile, COA, cannabinoid array or Map (name → %)
+ * @param options - Threshold overrides and unit context
+ * @returns Chemotype, THC:CBD ratio band and minor cannabinoid labels
+ * @throws Error if the thresholds are inconsistent
+ */
+export function classifyChemotype(
+  input: ChemotypeInput,
+  options: ChemotypeOptions = {}
+): ChemotypeClassification {
+  const thresholds: ChemotypeThresholds = { ...DEFAULT_CHEMOTYPE_THRESHOLDS, ...options.thresholds };
+  checkThresholds(thresholds);
+
+  const values = cannabinoidValues(input, options.unitContext ?? {});
+  const potency = calculatePotency(values);
+  const thc = potency.totalThc.value;
+  const cbd = potency.totalCbd.value;
+  const cbg = potency.totalCbg.value;
+
+  const thcCbdRatio = cbd > 0 ? thc / cbd : null;
+  let chemotype: Chemotype;
+  if (thc + cbd + cbg < thresholds.minTotal) {
+    chemotype = "V";
+  } else if (cbg > 0 && cbg >= thresholds.cbgDominance * Math.max(thc, cbd)) {
+    chemotype = "IV";
+  } else if (thcCbdRatio === null || thcCbdRatio >= thresholds.typeIMinRatio) {
+    chemotype = "I";
+  } else if (thcCbdRatio <= thresholds.typeIIIMaxRatio) {
+    chemotype = "III";
+  } else {
+    chemotype = "II";
+  }
+
+  const enrichments: MinorCannabinoidEnrichment[] = [];
+  for (const [compound, { minPercent, label }] of Object.entries(thresholds.minor)) {
+    const value = compound === "CBG" ? cbg : values.get(compound) ?? 0;
+    // CBG is the defining compound of Type IV, not an enrichment
+    if (compound === "CBG" && chemotype === "IV") continue;
+    if (value > 0 && value >= minPercent) {
+      enrichments.push({ compound, value: Math.round(value * 10000) / 10000, threshold: minPercent, label });
+    }
+  }
+
+  return {
+    chemotype,
+    label: CHEMOTYPE_LABELS[chemotype],
+    totals: { thc, cbd, cbg },
+    thcCbdRatio,
+    ratioBand: ratioBand(thcCbdRatio, thc > 0, thresholds.ratioBands),
+    enrichments,
+    thresholds,
+  };
+}
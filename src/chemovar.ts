@@ -0,0 +1,216 @@
+/**
+ * CDES Chemovar Fingerprints
+ * Combine cannabinoid, terpene and terpene-ratio data into one comparable
+ * fingerprint
+ *
+ * A fingerprint has three blocks, each compared on its own scale:
+ * - cannabinoids: amounts in % (Euclidean by default)
+ * - terpenes: relative abundance in % (Bray-Curtis)
+ * - terpeneRatios: CLR coordinates from ratio analysis (Aitchison)
+ *
+ * The combined similarity is the weighted mean of the block similarities,
+ * over the blocks both batches have data for.
+ *
+ * @module chemovar
+ */
+
+import { CannabinoidProfile, TerpeneProfile } from "./models";
+import {
+  calculateDistance,
+  DISTANCE_METRICS,
+  DistanceMetric,
+  distanceToSimilarity,
+} from "./distance";
+import { computeClrCoordinates, toRatioTerpeneValues } from "./ratioAnalysis";
+import {
+  normalizeCannabinoidProfile,
+  normalizeTerpeneProfile,
+  UnitContext,
+} from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** A batch's cannabinoid profile and, if measured, its terpene profile */
+export interface Chemovar {
+  cannabinoids: CannabinoidProfile;
+  terpenes?: TerpeneProfile;
+}
+
+/** Fingerprint block */
+export type FingerprintBlock = "cannabinoids" | "terpenes" | "terpeneRatios";
+
+/** Relative weight of each fingerprint block */
+export type FingerprintWeights = Record<FingerprintBlock, number>;
+
+/**
+ * How blocks only one side has data for are scored
+ * - `renormalize`: left out, the remaining weights are renormalized
+ * - `penalize`: scored as 0 similarity, so partial data ranks below full data
+ * - `require`: the comparison scores 0 and rankings leave it out
+ */
+export type MissingBlockPolicy = "renormalize" | "penalize" | "require";
+
+/** Comparable fingerprint of one chemovar */
+export interface ChemovarFingerprint {
+  batchId: string;
+  /** Cannabinoid name → % */
+  cannabinoids: Map<string, number>;
+  /** Terpene name → %, empty without terpene data */
+  terpenes: Map<string, number>;
+  /** CLR coordinates keyed by FIXED_TERPENE_ORDER, or null without ratio terpenes */
+  clrCoordinates: Map<string, number> | null;
+}
+
+/** Options for chemovar comparisons */
+export interface ChemovarOptions {
+  /** Product context for profiles reported in `mg` */
+  unitContext?: UnitContext;
+  /** Block weights; missing blocks use DEFAULT_FINGERPRINT_WEIGHTS */
+  blockWeights?: Partial<FingerprintWeights>;
+  /** Metric for the cannabinoid block (default: "euclidean") */
+  cannabinoidMetric?: DistanceMetric;
+  /** Scoring of blocks either side lacks (default: "renormalize") */
+  missingBlocks?: MissingBlockPolicy;
+}
+
+/** Similarity of two chemovars, overall and per block */
+export interface ChemovarComparison {
+  similarity: number; // 0-100
+  /** Similarity of each block both chemovars have data for */
+  blocks: Partial<Record<FingerprintBlock, number>>;
+  /** Weighted blocks both chemovars have data for */
+  blocksCompared: FingerprintBlock[];
+  /** Share of the total block weight that was compared (0-1) */
+  coverage: number;
+}
+
+/** Ranked result of `CDESAnalyzer.findSimilarChemovars` */
+export interface ChemovarSimilarityResult extends ChemovarComparison {
+  chemovar: Chemovar;
+  rank: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Equal weight for every block */
+export const DEFAULT_FINGERPRINT_WEIGHTS: FingerprintWeights = {
+  cannabinoids: 1,
+  terpenes: 1,
+  terpeneRatios: 1,
+};
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Build the fingerprint of a chemovar. Profiles are converted to % first.
+ *
+ * @param chemovar - Cannabinoid and terpene profiles of one batch
+ * @param unitContext - Product context for profiles reported in `mg`
+ * @returns Fingerprint with cannabinoid, terpene and CLR blocks
+ */
+export function buildChemovarFingerprint(
+  chemovar: Chemovar,
+  unitContext: UnitContext = {}
+): ChemovarFingerprint {
+  const cannabinoids = normalizeCannabinoidProfile(chemovar.cannabinoids, "%", unitContext).cannabinoids;
+  const terpenes = chemovar.terpenes
+    ? normalizeTerpeneProfile(chemovar.terpenes, "%", unitContext).terpenes
+    : new Map<string, number>();
+
+  const ratioValues = toRatioTerpeneValues(terpenes);
+  const hasRatioTerpenes = Object.values(ratioValues).some((v) => v > 0);
+
+  return {
+    batchId: chemovar.cannabinoids.batchId,
+    cannabinoids,
+    terpenes,
+    clrCoordinates: hasRatioTerpenes
+      ? new Map(Object.entries(computeClrCoordinates(ratioValues)))
+      : null,
+  };
+}
+
+/**
+ * Compare two fingerprints block by block.
+ *
+ * Terpene blocks are skipped when either side lacks terpene data. By
+ * default the remaining block weights are renormalized; `missingBlocks`
+ * scores skipped blocks as 0 or rejects the comparison instead.
+ *
+ * @param fingerprint1 - First fingerprint
+ * @param fingerprint2 - Second fingerprint
+ * @param options - Block weights and cannabinoid metric
+ * @returns Combined and per-block similarity (0-100)
+ */
+export function compareFingerprints(
+  fingerprint1: ChemovarFingerprint,
+  fingerprint2: ChemovarFingerprint,
+  options: ChemovarOptions = {}
+): ChemovarComparison {
+  const weights = { ...DEFAULT_FINGERPRINT_WEIGHTS, ...options.blockWeights };
+  const metric = options.cannabinoidMetric ?? "euclidean";
+  const blocks: Partial<Record<FingerprintBlock, number>> = {};
+
+  blocks.cannabinoids = distanceToSimilarity(
+    calculateDistance(fingerprint1.cannabinoids, fingerprint2.cannabinoids, { metric }),
+    metric
+  );
+
+  if (fingerprint1.terpenes.size > 0 && fingerprint2.terpenes.size > 0) {
+    blocks.terpenes = distanceToSimilarity(
+      calculateDistance(fingerprint1.terpenes, fingerprint2.terpenes, { metric: "bray-curtis" }),
+      "bray-curtis"
+    );
+  }
+
+  if (fingerprint1.clrCoordinates && fingerprint2.clrCoordinates) {
+    // CLR coordinates are already log-ratios; Euclidean on them is the Aitchison distance
+    blocks.terpeneRatios = DISTANCE_METRICS.aitchison.similarity(
+      calculateDistance(fingerprint1.clrCoordinates, fingerprint2.clrCoordinates)
+    );
+  }
+
+  let weighted = 0;
+  let comparedWeight = 0;
+  const blocksCompared: FingerprintBlock[] = [];
+  for (const [block, similarity] of Object.entries(blocks) as Array<[FingerprintBlock, number]>) {
+    weighted += weights[block] * similarity;
+    comparedWeight += weights[block];
+    if (weights[block] > 0) blocksCompared.push(block);
+  }
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const coverage = totalWeight > 0 ? comparedWeight / totalWeight : 0;
+
+  const policy = options.missingBlocks ?? "renormalize";
+  let similarity = comparedWeight > 0 ? weighted / comparedWeight : 0;
+  if (policy === "penalize") similarity = totalWeight > 0 ? weighted / totalWeight : 0;
+  if (policy === "require" && coverage < 1) similarity = 0;
+
+  return { similarity, blocks, blocksCompared, coverage };
+}
+
+/**
+ * Compare two chemovars on their combined fingerprint.
+ *
+ * @param chemovar1 - First batch
+ * @param chemovar2 - Second batch
+ * @param options - Unit context, block weights and cannabinoid metric
+ * @returns Combined and per-block similarity (0-100)
+ */
+export function compareChemovars(
+  chemovar1: Chemovar,
+  chemovar2: Chemovar,
+  options: ChemovarOptions = {}
+): ChemovarComparison {
+  return compareFingerprints(
+    buildChemovarFingerprint(chemovar1, options.unitContext),
+    buildChemovarFingerprint(chemovar2, options.unitContext),
+    options
+  );
+}
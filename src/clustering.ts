@@ -0,0 +1,554 @@
+/**
+ * CDES Profile Clustering
+ * Group cannabinoid or terpene profiles with k-means or agglomerative
+ * (hierarchical) clustering
+ *
+ * Profiles are clustered in plain space (amounts in %) or in CLR space,
+ * where each profile is treated as a composition and compared on its
+ * log-ratios. Distances are Euclidean in the chosen space.
+ *
+ * - k-means uses k-means++ seeding from a seeded random generator, so the
+ *   same input and seed always give the same clusters
+ * - agglomerative clustering supports Ward, average and complete linkage
+ *   and returns a dendrogram a visual can draw
+ * - when `k` is not given it is chosen by the best mean silhouette score
+ *
+ * Cluster numbers start at 0 and follow the order in which each cluster's
+ * first profile appears in the input.
+ *
+ * @module clustering
+ */
+
+import { CannabinoidProfile, TerpeneProfile } from "./models";
+import { clrTransform } from "./ratioAnalysis";
+import { normalizeCannabinoidProfile, normalizeTerpeneProfile, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Profile that can be clustered */
+export type ClusterInput = CannabinoidProfile | TerpeneProfile;
+
+/** Space profiles are clustered in */
+export type ClusterSpace = "plain" | "clr";
+
+/** Linkage for agglomerative clustering */
+export type ClusterLinkage = "ward" | "average" | "complete";
+
+/** Options shared by every clustering method */
+export interface ClusteringOptions {
+  /** "plain" (amounts in %) or "clr" (centered log-ratios); default "plain" */
+  space?: ClusterSpace;
+  /** Product context for profiles reported in `mg` */
+  unitContext?: UnitContext;
+  /** Number of clusters, at most the number of distinct profiles; chosen by silhouette score when omitted */
+  k?: number;
+  /** Smallest and largest k tried when `k` is omitted (default: [2, 10]) */
+  kRange?: [number, number];
+}
+
+/** Options for `kMeansClustering` */
+export interface KMeansOptions extends ClusteringOptions {
+  /** Random seed for k-means++ seeding (default: 42) */
+  seed?: number;
+  /** Independent k-means++ starts; the lowest inertia wins (default: 10) */
+  restarts?: number;
+  /** Maximum Lloyd iterations per start (default: 100) */
+  maxIterations?: number;
+}
+
+/** Options for `hierarchicalClustering` */
+export interface HierarchicalOptions extends ClusteringOptions {
+  /** Linkage (default: "ward") */
+  linkage?: ClusterLinkage;
+}
+
+/** Profiles as rows of a feature matrix */
+export interface ProfileMatrix {
+  batchIds: string[];
+  /** Compound names, in order of first appearance */
+  features: string[];
+  /** One row per profile, in the chosen space */
+  rows: number[][];
+  space: ClusterSpace;
+}
+
+/** Cluster of one profile */
+export interface ClusterAssignment {
+  batchId: string;
+  cluster: number;
+  /** Silhouette of the profile (-1 to 1); 0 for singleton clusters */
+  silhouette: number;
+}
+
+/** Centre of one cluster */
+export interface ClusterCentroid {
+  cluster: number;
+  size: number;
+  /** Mean position in the clustering space, by compound */
+  values: Record<string, number>;
+}
+
+/** Result of any clustering method */
+export interface ClusteringResult {
+  method: "kmeans" | "hierarchical";
+  space: ClusterSpace;
+  k: number;
+  features: string[];
+  assignments: ClusterAssignment[];
+  centroids: ClusterCentroid[];
+  /** Mean silhouette over all profiles */
+  silhouette: number;
+  /**
+   * Mean silhouette for every k tried (only the chosen k when `k` was given),
+   * keyed by the number of non-empty clusters so the returned `k` is always a key
+   */
+  silhouetteByK: Record<number, number>;
+}
+
+/** Result of `kMeansClustering` */
+export interface KMeansResult extends ClusteringResult {
+  method: "kmeans";
+  /** Sum of squared distances to the assigned centroid */
+  inertia: number;
+}
+
+/**
+ * Dendrogram node
+ *
+ * Leaves have ids 0..n-1 (input order) and a `batchId`; merge nodes have
+ * ids n.. in merge order, `height` equal to the linkage distance and two
+ * `children`.
+ */
+export interface DendrogramNode {
+  id: number;
+  height: number;
+  size: number;
+  batchId?: string;
+  children?: [DendrogramNode, DendrogramNode];
+}
+
+/** One agglomeration step, in the same form as a SciPy linkage matrix row */
+export interface DendrogramMerge {
+  left: number;
+  right: number;
+  height: number;
+  size: number;
+}
+
+/** Result of `hierarchicalClustering` */
+export interface HierarchicalResult extends ClusteringResult {
+  method: "hierarchical";
+  linkage: ClusterLinkage;
+  /** Root of the full tree */
+  dendrogram: DendrogramNode;
+  merges: DendrogramMerge[];
+  /** batchIds left to right, so that no dendrogram branches cross */
+  leafOrder: string[];
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+/** Mulberry32: small, fast, seedable PRNG returning [0, 1) */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return sum;
+}
+
+function mean(rows: number[][], width: number): number[] {
+  const result = new Array<number>(width).fill(0);
+  for (const row of rows) row.forEach((v, i) => (result[i] += v / rows.length));
+  return result;
+}
+
+/** Renumber clusters by first appearance */
+function relabel(labels: number[]): number[] {
+  const mapping = new Map<number, number>();
+  return labels.map((label) => {
+    if (!mapping.has(label)) mapping.set(label, mapping.size);
+    return mapping.get(label)!;
+  });
+}
+
+function candidateKs(n: number, options: ClusteringOptions): number[] {
+  if (options.k !== undefined) return [Math.max(1, Math.min(n, Math.round(options.k)))];
+  const [lo, hi] = options.kRange ?? [2, 10];
+  const ks: number[] = [];
+  for (let k = Math.max(2, lo); k <= Math.min(hi, n - 1); k++) ks.push(k);
+  return ks.length > 0 ? ks : [1];
+}
+
+function meanSilhouette(scores: number[]): number {
+  return scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 0;
+}
+
+function summarize(
+  matrix: ProfileMatrix,
+  labels: number[]
+): Pick<ClusteringResult, "assignments" | "centroids" | "silhouette"> {
+  const scores = silhouetteScores(matrix.rows, labels);
+  const k = labels.reduce((max, label) => Math.max(max, label + 1), 0);
+
+  const centroids = Array.from({ length: k }, (_, cluster) => {
+    const members = matrix.rows.filter((_, i) => labels[i] === cluster);
+    const centre = mean(members, matrix.features.length);
+    return {
+      cluster,
+      size: members.length,
+      values: Object.fromEntries(matrix.features.map((f, i) => [f, centre[i]])),
+    };
+  });
+
+  return {
+    assignments: matrix.batchIds.map((batchId, i) => ({
+      batchId,
+      cluster: labels[i],
+      silhouette: scores[i],
+    })),
+    centroids,
+    silhouette: meanSilhouette(scores),
+  };
+}
+
+/** One k-means++ start followed by Lloyd iterations */
+function runKMeans(
+  rows: number[][],
+  k: number,
+  random: () => number,
+  maxIterations: number
+): { labels: number[]; inertia: number } {
+  const width = rows[0].length;
+  const centres: number[][] = [rows[Math.floor(random() * rows.length)]];
+
+  while (centres.length < k) {
+    const weights = rows.map((row) => Math.min(...centres.map((c) => squaredDistance(row, c))));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let target = random() * total;
+    let next = rows.length - 1;
+    for (let i = 0; i < rows.length; i++) {
+      target -= weights[i];
+      if (target < 0) {
+        next = i;
+        break;
+      }
+    }
+    centres.push(total > 0 ? rows[next] : rows[centres.length % rows.length]);
+  }
+
+  let labels = new Array<number>(rows.length).fill(-1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = rows.map((row) => {
+      let best = 0;
+      for (let c = 1; c < k; c++) {
+        if (squaredDistance(row, centres[c]) < squaredDistance(row, centres[best])) best = c;
+      }
+      return best;
+    });
+    const changed = next.some((label, i) => label !== labels[i]);
+    labels = next;
+    if (!changed) break;
+
+    const sizes = new Array<number>(k).fill(0);
+    labels.forEach((label) => sizes[label]++);
+    for (let c = 0; c < k; c++) {
+      const members = rows.filter((_, i) => labels[i] === c);
+      if (members.length > 0) {
+        centres[c] = mean(members, width);
+        continue;
+      }
+      // Reseed an empty cluster with the point farthest from its centre,
+      // taken from a cluster that keeps at least one other member
+      let farthest = -1;
+      let farthestDistance = -1;
+      rows.forEach((row, i) => {
+        const distance = squaredDistance(row, centres[labels[i]]);
+        if (sizes[labels[i]] > 1 && distance > farthestDistance) {
+          farthest = i;
+          farthestDistance = distance;
+        }
+      });
+      if (farthest === -1) continue;
+      sizes[labels[farthest]]--;
+      sizes[c] = 1;
+      labels[farthest] = c;
+      centres[c] = rows[farthest];
+    }
+  }
+
+  const inertia = rows.reduce((sum, row, i) => sum + squaredDistance(row, centres[labels[i]]), 0);
+  return { labels, inertia };
+}
+
+/** Agglomerate with Lance-Williams updates; O(n³), intended for portfolio-sized sets */
+function agglomerate(rows: number[][], linkage: ClusterLinkage): DendrogramMerge[] {
+  const n = rows.length;
+  // Ward works on squared distances; heights are reported as their square root
+  const ward = linkage === "ward";
+  const dist: number[][] = rows.map((a) =>
+    rows.map((b) => (ward ? squaredDistance(a, b) : Math.sqrt(squaredDistance(a, b))))
+  );
+  const active = rows.map((_, i) => i);
+  const nodeIds = rows.map((_, i) => i);
+  const sizes = rows.map(() => 1);
+  const merges: DendrogramMerge[] = [];
+
+  while (active.length > 1) {
+    let bestI = 0;
+    let bestJ = 1;
+    for (let a = 0; a < active.length; a++) {
+      for (let b = a + 1; b < active.length; b++) {
+        if (dist[active[a]][active[b]] < dist[active[bestI]][active[bestJ]]) {
+          bestI = a;
+          bestJ = b;
+        }
+      }
+    }
+
+    const i = active[bestI];
+    const j = active[bestJ];
+    const dij = dist[i][j];
+    const [ni, nj] = [sizes[i], sizes[j]];
+
+    for (const k of active) {
+      if (k === i || k === j) continue;
+      const nk = sizes[k];
+      let updated: number;
+      if (ward) {
+        updated = ((ni + nk) * dist[k][i] + (nj + nk) * dist[k][j] - nk * dij) / (ni + nj + nk);
+      } else if (linkage === "average") {
+        updated = (ni * dist[k][i] + nj * dist[k][j]) / (ni + nj);
+      } else {
+        updated = Math.max(dist[k][i], dist[k][j]);
+      }
+      dist[i][k] = dist[k][i] = updated;
+    }
+
+    const [left, right] = [nodeIds[i], nodeIds[j]].sort((x, y) => x - y);
+    merges.push({ left, right, height: ward ? Math.sqrt(Math.max(0, dij)) : dij, size: ni + nj });
+    sizes[i] = ni + nj;
+    nodeIds[i] = n + merges.length - 1;
+    active.splice(bestJ, 1);
+  }
+
+  return merges;
+}
+
+/** Cluster labels after undoing the last k-1 merges */
+function cutMerges(n: number, merges: DendrogramMerge[], k: number): number[] {
+  const parent = Array.from({ length: n + merges.length }, (_, i) => i);
+  const find = (x: number): number => (parent[x] === x ? x : (parent[x] = find(parent[x])));
+
+  merges.slice(0, n - k).forEach((merge, step) => {
+    const node = n + step;
+    parent[find(merge.left)] = node;
+    parent[find(merge.right)] = node;
+  });
+
+  return relabel(Array.from({ length: n }, (_, i) => find(i)));
+}
+
+function buildDendrogram(batchIds: string[], merges: DendrogramMerge[]): DendrogramNode {
+  const nodes: DendrogramNode[] = batchIds.map((batchId, id) => ({ id, height: 0, size: 1, batchId }));
+  merges.forEach((merge, step) => {
+    nodes.push({
+      id: batchIds.length + step,
+      height: merge.height,
+      size: merge.size,
+      children: [nodes[merge.left], nodes[merge.right]],
+    });
+  });
+  return nodes[nodes.length - 1];
+}
+
+function leaves(node: DendrogramNode): string[] {
+  return node.children ? [...leaves(node.children[0]), ...leaves(node.children[1])] : [node.batchId!];
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Turn profiles into a feature matrix.
+ *
+ * Missing compounds count as 0. In CLR space zeros are replaced before the
+ * log-ratio transform (see `clrTransform`).
+ *
+ * @param profiles - Cannabinoid or terpene profiles
+ * @param space - "plain" or "clr" (default: "plain")
+ * @param unitContext - Product context for profiles reported in `mg`
+ * @returns Rows in input order and the compound of each column
+ */
+export function buildProfileMatrix(
+  profiles: ClusterInput[],
+  space: ClusterSpace = "plain",
+  unitContext: UnitContext = {}
+): ProfileMatrix {
+  const values = profiles.map((profile) =>
+    "cannabinoids" in profile
+      ? normalizeCannabinoidProfile(profile, "%", unitContext).cannabinoids
+      : normalizeTerpeneProfile(profile, "%", unitContext).terpenes
+  );
+  const features = Array.from(new Set(values.flatMap((map) => [...map.keys()])));
+
+  return {
+    batchIds: profiles.map((profile) => profile.batchId),
+    features,
+    rows: values.map((map) => {
+      const row = features.map((feature) => map.get(feature) ?? 0);
+      return space === "clr" && features.length > 1 ? clrTransform(row) : row;
+    }),
+    space,
+  };
+}
+
+/**
+ * Silhouette of every row: (b - a) / max(a, b), where a is the mean
+ * distance to its own cluster and b the mean distance to the nearest other
+ * cluster. Rows in singleton clusters score 0.
+ *
+ * @param rows - Feature matrix rows
+ * @param labels - Cluster of each row
+ * @returns Silhouette per row (-1 to 1)
+ */
+export function silhouetteScores(rows: number[][], labels: number[]): number[] {
+  const clusters = new Set(labels);
+  if (clusters.size < 2) return rows.map(() => 0);
+
+  return rows.map((row, i) => {
+    const totals = new Map<number, { sum: number; count: number }>();
+    rows.forEach((other, j) => {
+      if (i === j) return;
+      const entry = totals.get(labels[j]) ?? { sum: 0, count: 0 };
+      entry.sum += Math.sqrt(squaredDistance(row, other));
+      entry.count++;
+      totals.set(labels[j], entry);
+    });
+
+    const own = totals.get(labels[i]);
+    if (!own) return 0;
+    const a = own.sum / own.count;
+    let b = Infinity;
+    for (const [label, { sum, count }] of totals) {
+      if (label !== labels[i]) b = Math.min(b, sum / count);
+    }
+    const scale = Math.max(a, b);
+    return scale > 0 ? (b - a) / scale : 0;
+  });
+}
+
+/**
+ * Cluster profiles with k-means (k-means++ seeding, Lloyd iterations).
+ *
+ * @param profiles - Cannabinoid or terpene profiles
+ * @param options - Space, k (or k range), seed and restarts
+ * @returns Assignments, centroids, silhouette scores and inertia
+ */
+export function kMeansClustering(
+  profiles: ClusterInput[],
+  options: KMeansOptions = {}
+): KMeansResult {
+  if (profiles.length === 0) throw new Error("Cannot cluster an empty set of profiles");
+
+  const space = options.space ?? "plain";
+  const matrix = buildProfileMatrix(profiles, space, options.unitContext);
+  const random = seededRandom(options.seed ?? 42);
+  const restarts = Math.max(1, options.restarts ?? 10);
+
+  let best: { k: number; labels: number[]; inertia: number; silhouette: number } | null = null;
+  const silhouetteByK: Record<number, number> = {};
+
+  // Duplicate profiles cannot fill more clusters than there are distinct rows
+  const distinctRows = new Set(matrix.rows.map((row) => row.join(","))).size;
+  for (const k of candidateKs(distinctRows, options)) {
+    let run = runKMeans(matrix.rows, k, random, options.maxIterations ?? 100);
+    for (let r = 1; r < restarts; r++) {
+      const next = runKMeans(matrix.rows, k, random, options.maxIterations ?? 100);
+      if (next.inertia < run.inertia) run = next;
+    }
+    const labels = relabel(run.labels);
+    const silhouette = meanSilhouette(silhouetteScores(matrix.rows, labels));
+    // Keyed by the clusters actually filled, which is the `k` returned
+    const filled = new Set(labels).size;
+    silhouetteByK[filled] = Math.max(silhouetteByK[filled] ?? -Infinity, silhouette);
+    if (!best || silhouette > best.silhouette) {
+      best = { k, labels, inertia: run.inertia, silhouette };
+    }
+  }
+
+  const chosen = best!;
+  const summary = summarize(matrix, chosen.labels);
+  return {
+    method: "kmeans",
+    space,
+    // Clusters that ended up non-empty, so `k` always matches `centroids`
+    k: summary.centroids.length,
+    features: matrix.features,
+    ...summary,
+    silhouetteByK,
+    inertia: chosen.inertia,
+  };
+}
+
+/**
+ * Cluster profiles agglomeratively and return the full dendrogram.
+ *
+ * The tree is cut into `k` clusters (or the k with the best silhouette).
+ * Merge heights are Euclidean linkage distances, so the dendrogram can be
+ * drawn directly.
+ *
+ * @param profiles - Cannabinoid or terpene profiles
+ * @param options - Space, linkage and k (or k range)
+ * @returns Assignments, centroids, silhouette scores and dendrogram
+ */
+export function hierarchicalClustering(
+  profiles: ClusterInput[],
+  options: HierarchicalOptions = {}
+): HierarchicalResult {
+  if (profiles.length === 0) throw new Error("Cannot cluster an empty set of profiles");
+
+  const space = options.space ?? "plain";
+  const linkage = options.linkage ?? "ward";
+  const matrix = buildProfileMatrix(profiles, space, options.unitContext);
+  const merges = agglomerate(matrix.rows, linkage);
+
+  let best: { k: number; labels: number[]; silhouette: number } | null = null;
+  const silhouetteByK: Record<number, number> = {};
+
+  for (const k of candidateKs(profiles.length, options)) {
+    const labels = cutMerges(profiles.length, merges, k);
+    const silhouette = meanSilhouette(silhouetteScores(matrix.rows, labels));
+    silhouetteByK[k] = silhouette;
+    if (!best || silhouette > best.silhouette) best = { k, labels, silhouette };
+  }
+
+  const chosen = best!;
+  const dendrogram = buildDendrogram(matrix.batchIds, merges);
+  return {
+    method: "hierarchical",
+    space,
+    k: chosen.k,
+    features: matrix.features,
+    ...summarize(matrix, chosen.labels),
+    silhouetteByK,
+    linkage,
+    dendrogram,
+    merges,
+    leafOrder: leaves(dendrogram),
+  };
+}
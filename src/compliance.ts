@@ -0,0 +1,494 @@
+/**
+ * CDES Compliance Rule Packs
+ * Re-evaluate COA safety tests against jurisdiction action limits
+ *
+ * Rule packs are plain data (JSON), so jurisdictions can be added or
+ * updated without code changes:
+ * ```typescript
+ * const pack = loadCompliancePack(await (await fetch(packUrl)).json());
+ * registerCompliancePack(pack);
+ * const report = evaluateCompliance(coa, getCompliancePack("FL", "flower")!);
+ * ```
+ *
+ * @module compliance
+ */
+
+import {
+  COA,
+  MeasuredValue,
+  SafetyTestResult,
+  SafetyTests,
+  SampleInfo,
+  TestStatus,
+} from "./models";
+import { PRODUCT_TYPES, SAFETY_TEST_CATEGORIES } from "./validation";
+import { parseMeasuredValue } from "./detection";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** A safety test category key, e.g. "pesticides" */
+export type SafetyCategory = keyof SafetyTests;
+
+/** Action limit for a single analyte */
+export interface AnalyteLimit {
+  analyte: string;
+  aliases?: string[];
+  /** Maximum allowed value (ignored for "absence" limits) */
+  limit: number;
+  /** Unit of `limit`, e.g. "ppm", "ppb", "µg/g", "CFU/g", "%" */
+  unit: string;
+  /** "max" fails above the limit; "absence" fails on any detection (default: "max") */
+  type?: "max" | "absence";
+}
+
+/** Rules for one safety test category */
+export interface CategoryRule {
+  analytes: AnalyteLimit[];
+  /** Whether the category must be present on the COA (default: true) */
+  required?: boolean;
+}
+
+/** Jurisdiction rule pack */
+export interface CompliancePack {
+  id: string;
+  jurisdiction: string;
+  version: string;
+  effectiveDate?: string;
+  /** Product types this pack applies to; all types when omitted */
+  productTypes?: NonNullable<SampleInfo["productType"]>[];
+  categories: Partial<Record<SafetyCategory, CategoryRule>>;
+}
+
+/** Re-evaluated result for one analyte */
+export interface AnalyteEvaluation {
+  analyte: string;
+  /** JSON path of the lab's analyte entry, if found */
+  path?: string;
+  result?: number;
+  unit?: string;
+  limit: number;
+  limitUnit: string;
+  computedStatus: TestStatus;
+  labStatus?: TestStatus;
+  labLimit?: number;
+}
+
+/** Re-evaluated result for one category */
+export interface CategoryEvaluation {
+  category: SafetyCategory;
+  computedStatus: TestStatus;
+  labStatus?: TestStatus;
+  analytes: AnalyteEvaluation[];
+}
+
+/** A point where the lab's verdict disagrees with the rule pack */
+export interface ComplianceDiscrepancy {
+  path: string;
+  kind: "analyte-status" | "category-status" | "overall-status" | "limit";
+  labValue?: string | number;
+  computedValue: string | number;
+  message: string;
+}
+
+/** Full compliance evaluation of a COA */
+export interface ComplianceReport {
+  coaId: string;
+  packId: string;
+  jurisdiction: string;
+  overallStatus: COA["overallStatus"];
+  labOverallStatus: COA["overallStatus"];
+  categories: CategoryEvaluation[];
+  discrepancies: ComplianceDiscrepancy[];
+  agreesWithLab: boolean;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const packRegistry: CompliancePack[] = [];
+
+/**
+ * Register a rule pack so it can be looked up with `getCompliancePack`.
+ * A pack with the same id replaces the earlier one.
+ */
+export function registerCompliancePack(pack: CompliancePack): void {
+  const existing = packRegistry.findIndex((p) => p.id === pack.id);
+  if (existing >= 0) {
+    packRegistry[existing] = pack;
+  } else {
+    packRegistry.push(pack);
+  }
+}
+
+/**
+ * Find the registered pack for a jurisdiction and product type.
+ * Packs that list the product type explicitly win over catch-all packs.
+ */
+export function getCompliancePack(
+  jurisdiction: string,
+  productType?: SampleInfo["productType"]
+): CompliancePack | undefined {
+  const candidates = packRegistry.filter(
+    (p) => p.jurisdiction.toLowerCase() === jurisdiction.toLowerCase()
+  );
+  if (productType) {
+    const specific = candidates.find((p) => p.productTypes?.includes(productType));
+    if (specific) return specific;
+  }
+  return candidates.find((p) => !p.productTypes || p.productTypes.length === 0);
+}
+
+/** List all registered packs */
+export function getCompliancePacks(): CompliancePack[] {
+  return [...packRegistry];
+}
+
+/** Remove all registered packs (useful for testing) */
+export function clearCompliancePacks(): void {
+  packRegistry.length = 0;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+/** Mass-fraction units expressed in ppm */
+const PPM_FACTORS: Record<string, number> = {
+  "ppm": 1,
+  "µg/g": 1,
+  "ug/g": 1,
+  "mg/kg": 1,
+  "ppb": 0.001,
+  "ng/g": 0.001,
+  "µg/kg": 0.001,
+  "ug/kg": 0.001,
+  "%": 10000,
+  "mg/g": 1000,
+};
+
+function normalizeAnalyteName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function normalizeUnit(unit: string): string {
+  return unit.trim().replace(/μ/g, "µ").toLowerCase();
+}
+
+function convertLimitUnits(value: number, from: string, to: string): number | undefined {
+  const f = normalizeUnit(from);
+  const t = normalizeUnit(to);
+  if (f === t) return value;
+  const fromFactor = PPM_FACTORS[f];
+  const toFactor = PPM_FACTORS[t];
+  if (fromFactor === undefined || toFactor === undefined) return undefined;
+  return (value * fromFactor) / toFactor;
+}
+
+/** Lab status reduced to pass/fail for comparison */
+function verdict(status: TestStatus | undefined, absence: boolean): "pass" | "fail" | undefined {
+  switch (status) {
+    case "pass":
+    case "not-detected":
+      return "pass";
+    case "fail":
+      return "fail";
+    case "detected":
+      return absence ? "fail" : "pass";
+    default:
+      return undefined;
+  }
+}
+
+function evaluateAnalyte(
+  rule: AnalyteLimit,
+  labResult: SafetyTestResult | undefined
+): TestStatus {
+  if (!labResult) return "not-tested";
+  const absence = rule.type === "absence";
+  const unit = labResult.unit ?? rule.unit;
+
+  const measured: MeasuredValue | undefined =
+    labResult.measurement ??
+    (typeof labResult.result === "number"
+      ? { state: "detected", value: labResult.result }
+      : labResult.resultText
+        ? parseMeasuredValue(labResult.resultText)
+        : undefined);
+
+  switch (measured?.state) {
+    case "not-detected":
+      return "pass";
+    case "detected": {
+      const value = measured.value ?? labResult.result;
+      if (absence) return value === undefined || value > 0 ? "fail" : "pass";
+      if (value === undefined) return "pending";
+      const converted = convertLimitUnits(value, unit, rule.unit);
+      if (converted === undefined) return "pending";
+      return converted > rule.limit ? "fail" : "pass";
+    }
+    case "trace":
+    case "below-loq": {
+      if (absence) return measured.state === "trace" ? "fail" : "pass";
+      // Below the LOQ only proves compliance when the LOQ is known and within the limit
+      if (measured.loq === undefined) return "pending";
+      const loq = convertLimitUnits(measured.loq, unit, rule.unit);
+      return loq !== undefined && loq <= rule.limit ? "pass" : "pending";
+    }
+  }
+
+  if (labResult.status === "not-detected") return "pass";
+  if (labResult.status === "detected" && absence) return "fail";
+  return labResult.status === "not-tested" ? "not-tested" : "pending";
+}
+
+function combineStatuses(statuses: TestStatus[]): TestStatus {
+  if (statuses.length === 0) return "not-applicable";
+  if (statuses.includes("fail")) return "fail";
+  if (statuses.every((s) => s === "not-tested")) return "not-tested";
+  if (statuses.some((s) => s === "pending" || s === "not-tested")) return "pending";
+  return "pass";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isProductType(value: unknown): value is NonNullable<SampleInfo["productType"]> {
+  return PRODUCT_TYPES.some((type) => type === value);
+}
+
+function isSafetyCategory(value: string): value is SafetyCategory {
+  return SAFETY_TEST_CATEGORIES.some((category) => category === value);
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Load and check a rule pack from untyped JSON.
+ *
+ * @param input - Parsed JSON rule pack
+ * @returns Typed CompliancePack
+ * @throws Error listing every problem found in the pack
+ */
+export function loadCompliancePack(input: unknown): CompliancePack {
+  const problems: string[] = [];
+
+  if (!isRecord(input)) {
+    throw new Error("Invalid compliance pack: expected an object");
+  }
+  const text = (field: string): string => {
+    const value = input[field];
+    if (typeof value === "string" && value !== "") return value;
+    problems.push(`${field}: expected a non-empty string`);
+    return "";
+  };
+  const pack: CompliancePack = {
+    id: text("id"),
+    jurisdiction: text("jurisdiction"),
+    version: text("version"),
+    categories: {},
+  };
+  if (typeof input.effectiveDate === "string") pack.effectiveDate = input.effectiveDate;
+
+  if (input.productTypes !== undefined) {
+    const types = input.productTypes;
+    if (!Array.isArray(types) || !types.every(isProductType)) {
+      problems.push(`productTypes: expected an array of ${PRODUCT_TYPES.join(", ")}`);
+    } else {
+      pack.productTypes = types;
+    }
+  }
+  if (!isRecord(input.categories)) {
+    problems.push("categories: expected an object");
+  } else {
+    for (const [category, rule] of Object.entries(input.categories)) {
+      const path = `categories.${category}`;
+      if (!isSafetyCategory(category)) {
+        problems.push(`${path}: unknown safety test category`);
+        continue;
+      }
+      if (!isRecord(rule) || !Array.isArray(rule.analytes)) {
+        problems.push(`${path}.analytes: expected an array`);
+        continue;
+      }
+      const analytes: AnalyteLimit[] = [];
+      rule.analytes.forEach((analyte: unknown, i: number) => {
+        const analytePath = `${path}.analytes[${i}]`;
+        if (!isRecord(analyte)) {
+          problems.push(`${analytePath}: expected an object`);
+          return;
+        }
+        const { analyte: name, limit, unit, type, aliases } = analyte;
+        if (typeof name !== "string" || name === "") {
+          problems.push(`${analytePath}.analyte: expected a non-empty string`);
+        }
+        if (typeof limit !== "number" || !(limit >= 0)) {
+          problems.push(`${analytePath}.limit: expected a number >= 0`);
+        }
+        if (typeof unit !== "string") {
+          problems.push(`${analytePath}.unit: expected a string`);
+        }
+        if (type !== undefined && type !== "max" && type !== "absence") {
+          problems.push(`${analytePath}.type: expected "max" or "absence"`);
+        }
+        if (typeof name !== "string" || typeof limit !== "number" || typeof unit !== "string") return;
+
+        const entry: AnalyteLimit = { analyte: name, limit, unit };
+        if (Array.isArray(aliases)) entry.aliases = aliases.filter((a): a is string => typeof a === "string");
+        if (type === "max" || type === "absence") entry.type = type;
+        analytes.push(entry);
+      });
+      pack.categories[category] = typeof rule.required === "boolean"
+        ? { analytes, required: rule.required }
+        : { analytes };
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid compliance pack: ${problems.join("; ")}`);
+  }
+  return pack;
+}
+
+/**
+ * Re-check every analyte of a COA against a rule pack.
+ *
+ * Category statuses and the overall status are derived independently of
+ * what the lab wrote; every disagreement with the lab's own verdict (or
+ * with the limit it printed) is listed in `discrepancies`.
+ *
+ * @param coa - Certificate of Analysis to evaluate
+ * @param pack - Jurisdiction rule pack
+ * @returns ComplianceReport with computed statuses and discrepancies
+ */
+export function evaluateCompliance(
+  coa: COA,
+  pack: CompliancePack
+): ComplianceReport {
+  const categories: CategoryEvaluation[] = [];
+  const discrepancies: ComplianceDiscrepancy[] = [];
+
+  for (const category of SAFETY_TEST_CATEGORIES) {
+    const rule = pack.categories[category];
+    if (!rule) continue;
+
+    const labCategory = coa.safetyTests?.[category];
+    const labAnalytes = labCategory?.analytes ?? [];
+    const categoryPath = `safetyTests.${category}`;
+    const analytes: AnalyteEvaluation[] = [];
+
+    for (const limit of rule.analytes) {
+      const names = [limit.analyte, ...(limit.aliases ?? [])].map(normalizeAnalyteName);
+      const index = labAnalytes.findIndex((a) =>
+        names.includes(normalizeAnalyteName(a.analyte))
+      );
+      const labResult = index >= 0 ? labAnalytes[index] : undefined;
+      const path = index >= 0 ? `${categoryPath}.analytes[${index}]` : undefined;
+      const computedStatus = evaluateAnalyte(limit, labResult);
+
+      analytes.push({
+        analyte: limit.analyte,
+        path,
+        result: labResult?.result,
+        unit: labResult?.unit,
+        limit: limit.limit,
+        limitUnit: limit.unit,
+        computedStatus,
+        labStatus: labResult?.status,
+        labLimit: labResult?.limit,
+      });
+
+      if (!labResult || !path) continue;
+
+      const absence = limit.type === "absence";
+      const labVerdict = verdict(labResult.status, absence);
+      const computedVerdict = verdict(computedStatus, absence);
+      if (labVerdict && computedVerdict && labVerdict !== computedVerdict) {
+        discrepancies.push({
+          path: `${path}.status`,
+          kind: "analyte-status",
+          labValue: labResult.status,
+          computedValue: computedStatus,
+          message: `${limit.analyte}: lab reported "${labResult.status}" but ${pack.jurisdiction} limit of ${limit.limit} ${limit.unit} gives "${computedStatus}"`,
+        });
+      }
+
+      if (!absence && typeof labResult.limit === "number") {
+        const labLimit = convertLimitUnits(labResult.limit, labResult.unit ?? limit.unit, limit.unit);
+        if (labLimit !== undefined && Math.abs(labLimit - limit.limit) > 1e-9) {
+          discrepancies.push({
+            path: `${path}.limit`,
+            kind: "limit",
+            labValue: labResult.limit,
+            computedValue: limit.limit,
+            message: `${limit.analyte}: lab used a limit of ${labResult.limit} ${labResult.unit ?? limit.unit}, ${pack.jurisdiction} limit is ${limit.limit} ${limit.unit}`,
+          });
+        }
+      }
+    }
+
+    const computedStatus =
+      !labCategory && rule.required !== false
+        ? "not-tested"
+        : combineStatuses(analytes.map((a) => a.computedStatus));
+
+    const labVerdict = verdict(labCategory?.status, false);
+    const computedVerdict = verdict(computedStatus, false);
+    if (labVerdict && computedVerdict && labVerdict !== computedVerdict) {
+      discrepancies.push({
+        path: `${categoryPath}.status`,
+        kind: "category-status",
+        labValue: labCategory?.status,
+        computedValue: computedStatus,
+        message: `${category}: lab reported "${labCategory?.status}" but re-evaluation gives "${computedStatus}"`,
+      });
+    }
+
+    categories.push({
+      category,
+      computedStatus,
+      labStatus: labCategory?.status,
+      analytes,
+    });
+  }
+
+  const required = categories.filter(
+    (c) => pack.categories[c.category]?.required !== false
+  );
+  let overallStatus: COA["overallStatus"];
+  if (categories.some((c) => c.computedStatus === "fail")) {
+    overallStatus = "fail";
+  } else if (required.every((c) => c.computedStatus === "pass" || c.computedStatus === "not-applicable")) {
+    overallStatus = "pass";
+  } else if (required.some((c) => c.computedStatus === "pass")) {
+    overallStatus = "partial";
+  } else {
+    overallStatus = "pending";
+  }
+
+  if (overallStatus !== coa.overallStatus) {
+    discrepancies.push({
+      path: "overallStatus",
+      kind: "overall-status",
+      labValue: coa.overallStatus,
+      computedValue: overallStatus,
+      message: `Lab reported overall "${coa.overallStatus}" but ${pack.jurisdiction} rules give "${overallStatus}"`,
+    });
+  }
+
+  return {
+    coaId: coa.id,
+    packId: pack.id,
+    jurisdiction: pack.jurisdiction,
+    overallStatus,
+    labOverallStatus: coa.overallStatus,
+    categories,
+    discrepancies,
+    agreesWithLab: discrepancies.length === 0,
+  };
+}
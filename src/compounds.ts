@@ -0,0 +1,134 @@
+/**
+ * CDES Compound Name Resolution
+ * Map free-text column headers and field names to cannabinoids or terpenes
+ *
+ * Handles unit annotations ("THC (mg/g)", "THCa mg/g"), Greek and spelled
+ * isomer prefixes ("Δ9-THC", "delta-8 THC"), spelled-out names
+ * ("Cannabidiol") and every terpene alias known to `normalizeTerpeneName`.
+ *
+ * @module compounds
+ */
+
+import { CompoundUnit } from "./models";
+import {
+  normalizeCannabioidName,
+  STANDARD_CANNABINOIDS,
+} from "./cannabinoids";
+import { isRecognizedTerpene, normalizeTerpeneName } from "./terpenes";
+import { parseUnitFromLabel, stripUnitFromLabel } from "./units";
+
+/** A header or field name resolved to a known compound */
+export interface ResolvedCompound {
+  kind: "cannabinoid" | "terpene";
+  /** Canonical name: STANDARD_CANNABINOIDS key or STANDARD_TERPENES canonical name */
+  name: string;
+  /** Unit mentioned in the label, if any */
+  unit?: CompoundUnit;
+}
+
+/** Spelled-out cannabinoid names (normalized) */
+const CANNABINOID_LONG_NAMES: Record<string, string> = {
+  TETRAHYDROCANNABINOLICACID: "THCA",
+  TETRAHYDROCANNABINOL: "THC",
+  TETRAHYDROCANNABIVARIN: "THCV",
+  CANNABIDIOLICACID: "CBDA",
+  CANNABIDIOL: "CBD",
+  CANNABIDIVARIN: "CBDV",
+  CANNABIGEROLICACID: "CBGA",
+  CANNABIGEROL: "CBG",
+  CANNABINOL: "CBN",
+  CANNABICHROMENE: "CBC",
+};
+
+/** Words a lab export may put next to a compound name in a result header */
+const RESULT_WORDS = new Set([
+  "RESULT",
+  "RESULTS",
+  "VALUE",
+  "AMOUNT",
+  "CONC",
+  "CONCENTRATION",
+  "CONTENT",
+  "LEVEL",
+  "MG",
+  "G",
+  "ML",
+  "PPM",
+  "PCT",
+  "PERCENT",
+  "PERCENTAGE",
+  "WT",
+  "W",
+]);
+
+/** Normalized STANDARD_CANNABINOIDS keys → canonical key */
+const CANNABINOID_KEYS = new Map<string, string>(
+  Object.keys(STANDARD_CANNABINOIDS).map((key) => [normalizeCannabioidName(key), key])
+);
+
+function resolveCannabinoid(label: string): string | undefined {
+  // Δ8 / d8 / delta 8 THC is its own compound; Δ9 is plain THC
+  const isomer = label.match(/(?:^|[^a-z])(?:δ|Δ|d|delta)\s*[-_ ]?\s*(8|9)\s*[-_ ]?\s*thc\s*-?\s*(a)?\b/i);
+  if (isomer) {
+    const acid = isomer[2] !== undefined;
+    if (isomer[1] === "9") return acid ? "THCA" : "THC";
+    return acid ? undefined : "Delta-8 THC";
+  }
+
+  const normalized = normalizeCannabioidName(label);
+  if (!normalized) return undefined;
+
+  const exact = CANNABINOID_KEYS.get(normalized) ?? CANNABINOID_LONG_NAMES[normalized];
+  if (exact) return exact;
+
+  // A standard abbreviation followed or preceded only by result and unit
+  // words, e.g. "THCa Result"; "Exo-THC" or "THC Isomer" stay unmapped
+  const tokens = label.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  const keys = tokens.map((token) => CANNABINOID_KEYS.get(token) ?? CANNABINOID_LONG_NAMES[token]);
+  const found = keys.filter((key): key is string => key !== undefined);
+  if (found.length !== 1) return undefined;
+  const rest = tokens.filter((_, i) => keys[i] === undefined);
+  return rest.every((token) => RESULT_WORDS.has(token)) ? found[0] : undefined;
+}
+
+/**
+ * Labels for computed values rather than compounds: totals and sums
+ * ("Total THC", "total_thc", "totalTHC", "THC Total", "Sum of Cannabinoids")
+ * and ratios ("THC:CBD Ratio", "cbdRatio")
+ */
+function isDerivedLabel(name: string): boolean {
+  const head = name.match(/^(total|sum)(.?)/i);
+  if (head !== null && !/[a-z0-9]/.test(head[2])) return true;
+  if (name.includes(":")) return true;
+  return /(?:^|[^a-z])(?:totals?|sum|ratio)(?![a-z])/i.test(name) || /[a-z](?:Total|Sum|Ratio)(?![a-z])/.test(name);
+}
+
+/**
+ * Resolve a column header or field name to a cannabinoid or terpene.
+ *
+ * Labels for computed totals and ratios ("Total THC", "THC Total",
+ * "Sum of Cannabinoids", "THC:CBD Ratio") are not compounds and resolve
+ * to undefined.
+ *
+ * @param label - Header, measure display name, or JSON key
+ * @returns The resolved compound, or undefined if the label is not recognized
+ */
+export function resolveCompoundName(label: string): ResolvedCompound | undefined {
+  const unit = parseUnitFromLabel(label);
+  const name = stripUnitFromLabel(label);
+  if (!name || isDerivedLabel(name)) return undefined;
+
+  const withUnit = (resolved: Omit<ResolvedCompound, "unit">): ResolvedCompound =>
+    unit ? { ...resolved, unit } : resolved;
+
+  if (isRecognizedTerpene(name)) {
+    return withUnit({ kind: "terpene", name: normalizeTerpeneName(name) });
+  }
+
+  const cannabinoid = resolveCannabinoid(name);
+  if (cannabinoid) {
+    return withUnit({ kind: "cannabinoid", name: cannabinoid });
+  }
+
+  return undefined;
+}
@@ -0,0 +1,179 @@
+/**
+ * CDES Delimited Text
+ * Tokenize CSV / TSV lab exports and recognize their metadata columns
+ *
+ * Handles RFC 4180 quoting (quoted delimiters, line breaks and `""`
+ * escapes), a leading UTF-8 BOM, CRLF line endings and delimiter sniffing
+ * across comma, tab, semicolon and pipe.
+ *
+ * @module csv
+ */
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Delimiters tried by `detectDelimiter`, in order of preference */
+export const CSV_DELIMITERS: readonly string[] = [",", "\t", ";", "|"];
+
+/** Non-compound column a lab export header can map to */
+export type CSVColumnField =
+  | "batchId"
+  | "productName"
+  | "strainName"
+  | "sampleId"
+  | "labName"
+  | "testedDate"
+  | "productType"
+  | "coaNumber"
+  | "unit"
+  | "compound"
+  | "value";
+
+/** Header aliases for each metadata column (compared case- and punctuation-insensitively) */
+export const CSV_COLUMN_ALIASES: Record<CSVColumnField, readonly string[]> = {
+  batchId: ["batch", "batch id", "batch number", "batch no", "batch #", "lot", "lot id", "lot number", "lot #"],
+  productName: ["product", "product name", "sample name", "item", "item name"],
+  strainName: ["strain", "strain name", "cultivar", "variety"],
+  sampleId: ["sample", "sample id", "sample number", "sample #", "lab sample id"],
+  labName: ["lab", "lab name", "laboratory", "testing lab"],
+  testedDate: ["test date", "tested", "tested date", "date tested", "analysis date", "date"],
+  productType: ["product type", "matrix", "sample type", "category"],
+  coaNumber: ["coa", "coa id", "coa number", "coa #", "certificate", "certificate number"],
+  unit: ["unit", "units", "uom"],
+  compound: ["compound", "analyte", "cannabinoid", "terpene", "compound name", "analyte name"],
+  value: ["value", "result", "amount", "concentration", "percentage"],
+};
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function normalizeHeader(label: string): string {
+  return label.toLowerCase().replace(/#/g, " number").replace(/[^a-z0-9]/g, "");
+}
+
+const ALIAS_LOOKUP = new Map<string, CSVColumnField>(
+  (Object.entries(CSV_COLUMN_ALIASES) as Array<[CSVColumnField, readonly string[]]>)
+    .flatMap(([field, aliases]) => aliases.map((alias) => [normalizeHeader(alias), field] as [string, CSVColumnField]))
+);
+
+function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/** Count delimiter occurrences per line outside quotes, for the first few lines */
+function delimiterCounts(text: string, delimiter: string, maxLines: number): number[] {
+  const counts: number[] = [];
+  let count = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && counts.length < maxLines; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      count++;
+    } else if (!inQuotes && (char === "\n" || char === "\r")) {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      counts.push(count);
+      count = 0;
+    }
+  }
+  if (counts.length < maxLines && count > 0) counts.push(count);
+
+  return counts;
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Guess the delimiter of a CSV / TSV export.
+ *
+ * Picks the candidate that splits the header into the most columns while
+ * giving the same column count on the following lines.
+ *
+ * @param text - File contents
+ * @returns The detected delimiter; "," if none is found
+ */
+export function detectDelimiter(text: string): string {
+  const source = stripBOM(text);
+  let best = ",";
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = delimiterCounts(source, delimiter, 10);
+    if (counts.length === 0 || counts[0] === 0) continue;
+    const consistent = counts.filter((c) => c === counts[0]).length / counts.length;
+    const score = counts[0] * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split delimited text into rows of cells.
+ *
+ * @param text - File contents
+ * @param delimiter - Cell delimiter (default: sniffed with `detectDelimiter`)
+ * @returns Rows of raw cell strings; blank lines are dropped
+ */
+export function parseDelimitedText(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const source = stripBOM(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Recognize a metadata column header such as "Batch #", "Lot Number" or
+ * "Test Date". Compound headers are resolved with `resolveCompoundName`.
+ *
+ * @param label - Column header
+ * @returns The metadata field, or undefined if the header is not a known alias
+ */
+export function resolveCSVColumn(label: string): CSVColumnField | undefined {
+  return ALIAS_LOOKUP.get(normalizeHeader(label));
+}
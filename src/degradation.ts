@@ -0,0 +1,336 @@
+/**
+ * CDES Degradation
+ * Project potency and terpene content after testing, and the date a
+ * product drops below its label claim
+ *
+ * First-order kinetics, per day:
+ * - THCA → THC and CBDA → CBD decarboxylation (`decarboxylation`)
+ * - THC → CBN oxidation (`oxidation`); `cbnYield` of the THC lost becomes CBN
+ * - terpene volatilization, faster for low boiling points:
+ *   volatilization × exp(-(boilingPointC - 150) / 30)
+ *
+ * Rates are given at 21 °C and scale by `q10` per 10 °C. Light speeds up
+ * oxidation; opened packaging speeds up volatilization. Uncertainty bands
+ * come from running the model with every rate scaled by (1 ± uncertainty).
+ *
+ * Decarboxylation does not change Total THC (THC + 0.877 × THCA); only
+ * oxidation lowers it.
+ *
+ * @module degradation
+ */
+
+import { Batch, COA } from "./models";
+import { inputCompounds, isCOA } from "./inputs";
+import { DECARBOXYLATION_FACTORS } from "./potency";
+import { STANDARD_TERPENES } from "./terpenes";
+import { UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** How the product has been stored since testing */
+export interface StorageConditions {
+  /** Storage temperature in °C (default: 21) */
+  temperatureC?: number;
+  /** Light exposure (default: "dark") */
+  light?: "dark" | "ambient" | "direct";
+  /** Packaging (default: "sealed") */
+  packaging?: "sealed" | "opened";
+}
+
+/** First-order rate constants per day at 21 °C, dark, sealed */
+export interface DegradationRates {
+  decarboxylation: number;
+  oxidation: number;
+  /** Terpene volatilization at a boiling point of 150 °C */
+  volatilization: number;
+  /** Fraction of oxidized THC that becomes CBN */
+  cbnYield: number;
+  /** Rate multiplier per 10 °C */
+  q10: number;
+  /** Oxidation multiplier by light exposure */
+  light: Record<NonNullable<StorageConditions["light"]>, number>;
+  /** Volatilization multiplier by packaging */
+  packaging: Record<NonNullable<StorageConditions["packaging"]>, number>;
+}
+
+/** Label claim used for the shelf-life date */
+export interface LabelClaim {
+  /** Claimed Total THC in % (default: the tested Total THC) */
+  totalThc?: number;
+  /** Allowed shortfall as a fraction of the claim (default: 0.1) */
+  tolerance?: number;
+}
+
+/** Options for `projectDegradation` */
+export interface DegradationOptions {
+  /** Date to project to (default: now) */
+  asOf?: Date;
+  storage?: StorageConditions;
+  /** Overrides for DEFAULT_DEGRADATION_RATES */
+  rates?: Partial<DegradationRates>;
+  /** Relative uncertainty of every rate (default: 0.5) */
+  uncertainty?: number;
+  labelClaim?: LabelClaim;
+  /** Days searched for the label-claim date (default: 3650) */
+  horizonDays?: number;
+  /** Product context for results reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+/** A projected value with its uncertainty band */
+export interface ProjectedValue {
+  /** Value at test time, in % */
+  initial: number;
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+/** Projection of one compound */
+export interface ProjectedCompound extends ProjectedValue {
+  compound: string;
+}
+
+/** When Total THC is projected to fall below the label claim */
+export interface ShelfLifeProjection {
+  claim: number;
+  tolerance: number;
+  /** claim × (1 − tolerance) */
+  threshold: number;
+  /** Projected date (null if not within the horizon) */
+  belowClaimDate: Date | null;
+  /** Date with the fastest rates */
+  earliestDate: Date | null;
+  /** Date with the slowest rates */
+  latestDate: Date | null;
+  /** Whether the estimate at `asOf` is still at or above the threshold */
+  withinTolerance: boolean;
+}
+
+/** Result of `projectDegradation` */
+export interface DegradationProjection {
+  testDate: Date;
+  asOf: Date;
+  days: number;
+  cannabinoids: ProjectedCompound[];
+  terpenes: ProjectedCompound[];
+  totalThc: ProjectedValue;
+  totalTerpenes: ProjectedValue;
+  shelfLife: ShelfLifeProjection;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Default rates: about 17% THC loss per year in the dark at room
+ * temperature, slow decarboxylation, and myrcene or limonene losing
+ * 35-45% of their content per year when sealed
+ */
+export const DEFAULT_DEGRADATION_RATES: DegradationRates = {
+  decarboxylation: 0.0005,
+  oxidation: 0.0005,
+  volatilization: 0.003,
+  cbnYield: 0.5,
+  q10: 2,
+  light: { dark: 1, ambient: 2, direct: 4 },
+  packaging: { sealed: 1, opened: 2.5 },
+};
+
+/** Boiling point assumed for terpenes without one */
+const DEFAULT_BOILING_POINT_C = 200;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface EffectiveRates {
+  decarboxylation: number;
+  oxidation: number;
+  volatilization: (boilingPointC: number) => number;
+  cbnYield: number;
+}
+
+function effectiveRates(rates: DegradationRates, storage: StorageConditions, scale: number): EffectiveRates {
+  const temperature = Math.pow(rates.q10, ((storage.temperatureC ?? 21) - 21) / 10);
+  const light = rates.light[storage.light ?? "dark"] ?? 1;
+  const packaging = rates.packaging[storage.packaging ?? "sealed"] ?? 1;
+  return {
+    decarboxylation: rates.decarboxylation * temperature * scale,
+    oxidation: rates.oxidation * temperature * light * scale,
+    volatilization: (bp) => rates.volatilization * temperature * packaging * scale * Math.exp(-(bp - 150) / 30),
+    cbnYield: rates.cbnYield,
+  };
+}
+
+/** (1 − e^(−k t)) / k, with its limit t at k = 0 */
+function integral(k: number, t: number): number {
+  return k === 0 ? t : (1 - Math.exp(-k * t)) / k;
+}
+
+/** Amount of a neutral cannabinoid fed by decarboxylation and lost to oxidation */
+function neutralAt(neutral0: number, acid0: number, factor: number, ka: number, ko: number, t: number): number {
+  const fed = factor * ka * acid0;
+  const chain = Math.abs(ko - ka) < 1e-12
+    ? fed * t * Math.exp(-ko * t)
+    : fed * (Math.exp(-ka * t) - Math.exp(-ko * t)) / (ko - ka);
+  return neutral0 * Math.exp(-ko * t) + chain;
+}
+
+/** ∫ neutral dt from 0 to t, for the amount oxidized */
+function neutralIntegral(neutral0: number, acid0: number, factor: number, ka: number, ko: number, t: number): number {
+  const fed = factor * ka * acid0;
+  let chain: number;
+  if (Math.abs(ko - ka) >= 1e-12) chain = fed * (integral(ka, t) - integral(ko, t)) / (ko - ka);
+  else if (ko === 0) chain = (fed * t * t) / 2;
+  else chain = (fed * (1 - Math.exp(-ko * t) * (1 + ko * t))) / (ko * ko);
+  return neutral0 * integral(ko, t) + chain;
+}
+
+function project(
+  cannabinoids: Map<string, number>,
+  terpenes: Map<string, number>,
+  rates: EffectiveRates,
+  days: number
+): { cannabinoids: Map<string, number>; terpenes: Map<string, number>; totalThc: number } {
+  const ka = rates.decarboxylation;
+  const ko = rates.oxidation;
+  const thca = cannabinoids.get("THCA") ?? 0;
+  const thc = cannabinoids.get("THC") ?? 0;
+  const cbda = cannabinoids.get("CBDA") ?? 0;
+  const cbd = cannabinoids.get("CBD") ?? 0;
+  const thcFactor = DECARBOXYLATION_FACTORS.THCA;
+
+  const projected = new Map(cannabinoids);
+  const thcaNow = thca * Math.exp(-ka * days);
+  const thcNow = neutralAt(thc, thca, thcFactor, ka, ko, days);
+  if (cannabinoids.has("THCA")) projected.set("THCA", thcaNow);
+  if (cannabinoids.has("THC") || thca > 0) projected.set("THC", thcNow);
+  if (cannabinoids.has("CBDA")) projected.set("CBDA", cbda * Math.exp(-ka * days));
+  if (cannabinoids.has("CBD") || cbda > 0) {
+    projected.set("CBD", cbd + DECARBOXYLATION_FACTORS.CBDA * cbda * (1 - Math.exp(-ka * days)));
+  }
+
+  const oxidized = ko * neutralIntegral(thc, thca, thcFactor, ka, ko, days);
+  if (cannabinoids.has("CBN") || oxidized > 0) {
+    projected.set("CBN", (cannabinoids.get("CBN") ?? 0) + rates.cbnYield * oxidized);
+  }
+
+  const projectedTerpenes = new Map<string, number>();
+  for (const [name, value] of terpenes) {
+    const bp = STANDARD_TERPENES[name]?.boilingPointC ?? DEFAULT_BOILING_POINT_C;
+    projectedTerpenes.set(name, value * Math.exp(-rates.volatilization(bp) * days));
+  }
+
+  return { cannabinoids: projected, terpenes: projectedTerpenes, totalThc: thcNow + thcFactor * thcaNow };
+}
+
+function inputData(input: COA | Batch, unitContext: UnitContext) {
+  const date = isCOA(input) ? input.sample.testedDate ?? input.issuedDate : input.labResult?.testDate;
+  return {
+    testDate: date ? new Date(date) : null,
+    ...inputCompounds(input, unitContext),
+  };
+}
+
+function banded(initial: number, values: number[]): ProjectedValue {
+  const round = (x: number) => Math.round(x * 10000) / 10000;
+  return {
+    initial: round(initial),
+    estimate: round(values[0]),
+    lower: round(Math.min(...values)),
+    upper: round(Math.max(...values)),
+  };
+}
+
+/** First day Total THC falls below the threshold, by bisection (Total THC only decreases) */
+function crossingDay(totalThcAt: (days: number) => number, threshold: number, horizon: number): number | null {
+  if (totalThcAt(0) < threshold) return 0;
+  if (totalThcAt(horizon) >= threshold) return null;
+  let low = 0;
+  let high = horizon;
+  while (high - low > 0.01) {
+    const mid = (low + high) / 2;
+    if (totalThcAt(mid) < threshold) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Project a tested product's potency and terpenes to a later date.
+ *
+ * The test date is `LabResult.testDate` for batches and `sample.testedDate`
+ * (falling back to `issuedDate`) for COAs.
+ *
+ * @param input - COA or batch with a lab result
+ * @param options - Projection date, storage, rates, uncertainty and label claim
+ * @returns Projected compounds with uncertainty bands and the label-claim date
+ * @throws Error if the input has no valid test date
+ */
+export function projectDegradation(
+  input: COA | Batch,
+  options: DegradationOptions = {}
+): DegradationProjection {
+  const unitContext = options.unitContext ?? {};
+  const { testDate, cannabinoids, terpenes } = inputData(input, unitContext);
+  if (!testDate || isNaN(testDate.getTime())) {
+    throw new Error("Cannot project degradation: no valid test date");
+  }
+
+  const asOf = options.asOf ?? new Date();
+  const days = Math.max(0, (asOf.getTime() - testDate.getTime()) / MS_PER_DAY);
+  const rates: DegradationRates = { ...DEFAULT_DEGRADATION_RATES, ...options.rates };
+  const storage = options.storage ?? {};
+  const uncertainty = Math.min(1, Math.max(0, options.uncertainty ?? 0.5));
+
+  // Central, slow and fast scenarios
+  const scenarios = [1, 1 - uncertainty, 1 + uncertainty].map((scale) => effectiveRates(rates, storage, scale));
+  const runs = scenarios.map((scenario) => project(cannabinoids, terpenes, scenario, days));
+
+  const compounds = (initial: Map<string, number>, pick: (run: (typeof runs)[number]) => Map<string, number>) =>
+    Array.from(pick(runs[0]).keys()).map((compound) => ({
+      compound,
+      ...banded(initial.get(compound) ?? 0, runs.map((run) => pick(run).get(compound) ?? 0)),
+    }));
+
+  const initialTotalThc = project(cannabinoids, terpenes, scenarios[0], 0).totalThc;
+  const sum = (values: Map<string, number>) => Array.from(values.values()).reduce((s, v) => s + v, 0);
+
+  const claim = options.labelClaim?.totalThc ?? initialTotalThc;
+  const tolerance = options.labelClaim?.tolerance ?? 0.1;
+  const threshold = claim * (1 - tolerance);
+  const horizon = options.horizonDays ?? 3650;
+  const toDate = (day: number | null) => (day === null ? null : new Date(testDate.getTime() + day * MS_PER_DAY));
+  const [central, slow, fast] = scenarios.map((scenario) =>
+    toDate(crossingDay((d) => project(cannabinoids, new Map(), scenario, d).totalThc, threshold, horizon))
+  );
+
+  return {
+    testDate,
+    asOf,
+    days,
+    cannabinoids: compounds(cannabinoids, (run) => run.cannabinoids),
+    terpenes: compounds(terpenes, (run) => run.terpenes),
+    totalThc: banded(initialTotalThc, runs.map((run) => run.totalThc)),
+    totalTerpenes: banded(sum(terpenes), runs.map((run) => sum(run.terpenes))),
+    shelfLife: {
+      claim,
+      tolerance,
+      threshold,
+      belowClaimDate: central,
+      earliestDate: fast,
+      latestDate: slow,
+      withinTolerance: runs[0].totalThc >= threshold,
+    },
+  };
+}
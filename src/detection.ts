@@ -0,0 +1,163 @@
+/**
+ * CDES Detection Values
+ * Parse lab result text such as "ND", "<LOQ", "<0.05", "Trace" or "BLQ"
+ * into a MeasuredValue that keeps the detection state
+ *
+ * "Not detected" and "not tested" are different results: a non-detect is a
+ * measured zero, a not-tested analyte has no result at all.
+ *
+ * @module detection
+ */
+
+import { DetectionState, MeasuredValue } from "./models";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Detection limits that apply to a reported value */
+export interface DetectionLimits {
+  lod?: number;
+  loq?: number;
+}
+
+/**
+ * How non-quantified results are turned into numbers
+ * - `zero`: non-detects, below-LOQ and trace count as 0
+ * - `half-limit`: LOQ/2 (or LOD/2) when the limit is known, otherwise 0
+ * - `limit`: the LOQ (or LOD) itself, i.e. the worst case
+ */
+export type NonDetectPolicy = "zero" | "half-limit" | "limit";
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+/** Text results by detection state, checked in order */
+const STATE_PATTERNS: Array<[RegExp, DetectionState]> = [
+  [/^(nd|n\.d\.?|n\/d|not detected|none detected|absent|negative|<\s*lod|<\s*mdl|bdl)$/i, "not-detected"],
+  [/^(<\s*loq|<\s*lloq|blq|bloq|below loq|<\s*lq)$/i, "below-loq"],
+  [/^(trace|tr|traces?)$/i, "trace"],
+  [/^(nt|n\/t|not tested|n\/a|na|-|—)$/i, "not-tested"],
+  [/^(detected|present|positive)$/i, "detected"],
+];
+
+/** "<0.05", "< 0.05", "<LOQ (0.05)" */
+const LESS_THAN_PATTERN = /^<\s*(?:loq\s*)?\(?\s*(\d*\.?\d+(?:e-?\d+)?)\s*\)?$/i;
+
+function withLimits(measured: MeasuredValue, limits: DetectionLimits): MeasuredValue {
+  const result = { ...measured };
+  if (limits.lod !== undefined && result.lod === undefined) result.lod = limits.lod;
+  if (limits.loq !== undefined && result.loq === undefined) result.loq = limits.loq;
+  return result;
+}
+
+function fromNumber(value: number, limits: DetectionLimits, raw?: string): MeasuredValue {
+  const measured: MeasuredValue = { state: "detected", value };
+  if (limits.lod !== undefined && value < limits.lod) {
+    measured.state = "not-detected";
+  } else if (limits.loq !== undefined && value < limits.loq) {
+    measured.state = "below-loq";
+  }
+  if (raw !== undefined) measured.raw = raw;
+  return withLimits(measured, limits);
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Parse a reported value into a MeasuredValue.
+ *
+ * Numbers and numeric strings are `detected`, unless `limits` places them
+ * below the LOD (`not-detected`) or LOQ (`below-loq`). "<0.05" is read as
+ * below an LOQ of 0.05. Blank values are `not-tested`.
+ *
+ * @param raw - Cell value, JSON field or COA result text
+ * @param limits - LOD/LOQ that apply to the value, if known
+ * @returns The measured value, or undefined if the text is not recognized
+ */
+export function parseMeasuredValue(
+  raw: unknown,
+  limits: DetectionLimits = {}
+): MeasuredValue | undefined {
+  if (raw === null || raw === undefined) return { state: "not-tested" };
+  if (typeof raw === "number") {
+    return Number.isFinite(raw) ? fromNumber(raw, limits) : undefined;
+  }
+  if (typeof raw !== "string") return undefined;
+
+  const text = raw.trim();
+  if (text === "") return { state: "not-tested" };
+
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+    return fromNumber(Number(text), limits, text);
+  }
+
+  const lessThan = text.match(LESS_THAN_PATTERN);
+  if (lessThan) {
+    return withLimits({ state: "below-loq", loq: Number(lessThan[1]), raw: text }, limits);
+  }
+
+  for (const [pattern, state] of STATE_PATTERNS) {
+    if (pattern.test(text)) return withLimits({ state, raw: text }, limits);
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a measured value carries a usable number.
+ *
+ * @param measured - Measured value
+ * @returns true if the analyte was detected and quantified
+ */
+export function isQuantified(measured: MeasuredValue): boolean {
+  return measured.state === "detected" && measured.value !== undefined;
+}
+
+/**
+ * Turn a measured value into a number for calculations.
+ *
+ * @param measured - Measured value
+ * @param policy - How non-quantified results are substituted (default: "zero")
+ * @returns The amount, or undefined if the analyte was not tested or a
+ *   detect was reported without a number
+ */
+export function measuredAmount(
+  measured: MeasuredValue,
+  policy: NonDetectPolicy = "zero"
+): number | undefined {
+  if (measured.state === "not-tested") return undefined;
+  if (measured.state === "detected") return measured.value;
+
+  const limit =
+    measured.state === "not-detected"
+      ? measured.lod ?? measured.loq
+      : measured.loq ?? measured.lod;
+  if (policy === "zero" || limit === undefined) return 0;
+  return policy === "half-limit" ? limit / 2 : limit;
+}
+
+/**
+ * Format a measured value the way it would be printed on a COA.
+ *
+ * @param measured - Measured value
+ * @param decimals - Decimal places for numbers (default: 2)
+ * @returns e.g. "12.30", "ND", "<0.05", "<LOQ", "Trace", "NT"
+ */
+export function formatMeasuredValue(measured: MeasuredValue, decimals = 2): string {
+  switch (measured.state) {
+    case "detected":
+      return measured.value !== undefined ? measured.value.toFixed(decimals) : "Detected";
+    case "not-detected":
+      return "ND";
+    case "below-loq":
+      return measured.loq !== undefined ? `<${measured.loq}` : "<LOQ";
+    case "trace":
+      return "Trace";
+    default:
+      return "NT";
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * CDES Parse Diagnostics
+ * Collect warnings and errors raised while parsing source data
+ *
+ * @module diagnostics
+ */
+
+import {
+  ParseDiagnostics,
+  ParseIssue,
+  ParseIssueCode,
+  ParseIssueSeverity,
+} from "./models";
+
+/** Default severity for each issue code */
+export const DEFAULT_ISSUE_SEVERITY: Record<ParseIssueCode, ParseIssueSeverity> = {
+  "unknown-compound": "warning",
+  "non-numeric": "warning",
+  "duplicate": "warning",
+  "negative-value": "error",
+  "missing-batch-id": "error",
+  "unit-conversion": "error",
+};
+
+/** Where an issue occurred and what it concerned */
+export type ParseIssueLocation = Omit<ParseIssue, "severity" | "code" | "message">;
+
+/**
+ * Accumulates parse issues and skipped rows, then produces a
+ * ParseDiagnostics summary
+ */
+export class ParseDiagnosticsCollector {
+  private readonly issues: ParseIssue[] = [];
+  private readonly skippedRows = new Set<number>();
+  private readonly severities: Record<ParseIssueCode, ParseIssueSeverity>;
+
+  constructor(severityOverrides: Partial<Record<ParseIssueCode, ParseIssueSeverity>> = {}) {
+    this.severities = { ...DEFAULT_ISSUE_SEVERITY, ...severityOverrides };
+  }
+
+  /**
+   * Record an issue
+   *
+   * @param skipRow - true if the source row was dropped because of it
+   */
+  add(
+    code: ParseIssueCode,
+    message: string,
+    location: ParseIssueLocation = {},
+    skipRow = false
+  ): void {
+    this.issues.push({ severity: this.severities[code], code, message, ...location });
+    if (skipRow && location.row !== undefined) {
+      this.skippedRows.add(location.row);
+    }
+  }
+
+  /**
+   * Mark a source row as dropped without recording a new issue
+   */
+  skipRow(row: number): void {
+    this.skippedRows.add(row);
+  }
+
+  /**
+   * Merge issues from another parse, re-basing them onto a source row
+   */
+  merge(diagnostics: ParseDiagnostics, row?: number): void {
+    for (const issue of diagnostics.issues) {
+      this.issues.push(row === undefined ? issue : { ...issue, row });
+    }
+    if (row !== undefined && diagnostics.rowsSkipped > 0) {
+      this.skippedRows.add(row);
+    }
+  }
+
+  /**
+   * Summarize the collected issues
+   */
+  build(): ParseDiagnostics {
+    const counts = Object.fromEntries(
+      Object.keys(DEFAULT_ISSUE_SEVERITY).map((code) => [code, 0])
+    ) as Record<ParseIssueCode, number>;
+    let errorCount = 0;
+
+    for (const issue of this.issues) {
+      counts[issue.code]++;
+      if (issue.severity === "error") errorCount++;
+    }
+
+    return {
+      issues: [...this.issues],
+      counts,
+      errorCount,
+      warningCount: this.issues.length - errorCount,
+      rowsSkipped: this.skippedRows.size,
+    };
+  }
+}
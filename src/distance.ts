@@ -0,0 +1,194 @@
+/**
+ * CDES Distance Metrics
+ * Selectable profile distances, each with its own 0-100 similarity curve
+ *
+ * Raw Euclidean distance is dominated by the largest compound (usually THC
+ * or THCA). Cosine and Bray-Curtis compare shape and relative abundance,
+ * Aitchison compares log-ratios (so minor compounds count as much as major
+ * ones), and weighted Euclidean lets callers scale compounds explicitly.
+ *
+ * @module distance
+ */
+
+import { calculateEuclideanDistance } from "./cannabinoids";
+import { clrTransform } from "./ratioAnalysis";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Distance metric used to compare two profiles */
+export type DistanceMetric =
+  | "euclidean"
+  | "manhattan"
+  | "cosine"
+  | "bray-curtis"
+  | "aitchison"
+  | "weighted-euclidean";
+
+/** Options for `calculateDistance` */
+export interface DistanceOptions {
+  /** Metric to use (default: "euclidean") */
+  metric?: DistanceMetric;
+  /** Per-compound weights for "weighted-euclidean"; missing compounds weigh 1 */
+  weights?: Record<string, number>;
+}
+
+/** A metric and its similarity calibration */
+export interface DistanceMetricDefinition {
+  metric: DistanceMetric;
+  description: string;
+  /** Distance between two compound Maps (same unit) */
+  distance: (a: Map<string, number>, b: Map<string, number>, weights: Record<string, number>) => number;
+  /** Map a distance to 0-100, where 100 means identical */
+  similarity: (distance: number) => number;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+function unionValues(
+  a: Map<string, number>,
+  b: Map<string, number>
+): Array<[number, number, string]> {
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  return Array.from(keys, (key) => [a.get(key) || 0, b.get(key) || 0, key]);
+}
+
+function manhattan(a: Map<string, number>, b: Map<string, number>): number {
+  return unionValues(a, b).reduce((sum, [x, y]) => sum + Math.abs(x - y), 0);
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [x, y] of unionValues(a, b)) {
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 && normB === 0) return 0;
+  if (normA === 0 || normB === 0) return 1;
+  return Math.max(0, 1 - dot / Math.sqrt(normA * normB));
+}
+
+function brayCurtis(a: Map<string, number>, b: Map<string, number>): number {
+  let diff = 0;
+  let total = 0;
+  for (const [x, y] of unionValues(a, b)) {
+    diff += Math.abs(x - y);
+    total += x + y;
+  }
+  return total === 0 ? 0 : diff / total;
+}
+
+function aitchison(a: Map<string, number>, b: Map<string, number>): number {
+  const pairs = unionValues(a, b);
+  if (pairs.length < 2) return 0;
+  const clrA = clrTransform(pairs.map(([x]) => x));
+  const clrB = clrTransform(pairs.map(([, y]) => y));
+  return Math.sqrt(clrA.reduce((sum, v, i) => sum + (v - clrB[i]) ** 2, 0));
+}
+
+function weightedEuclidean(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  weights: Record<string, number>
+): number {
+  const sumSquares = unionValues(a, b).reduce(
+    (sum, [x, y, key]) => sum + (weights[key] ?? 1) * (x - y) ** 2,
+    0
+  );
+  return Math.sqrt(sumSquares);
+}
+
+// =============================================================================
+// METRICS
+// =============================================================================
+
+/**
+ * Every built-in metric with its similarity curve.
+ *
+ * Euclidean keeps the original `100·e^(-d/10)` curve. Cosine and
+ * Bray-Curtis are bounded to [0, 1] and map linearly. Manhattan and
+ * Aitchison use exponential curves scaled to their typical range.
+ */
+export const DISTANCE_METRICS: Record<DistanceMetric, DistanceMetricDefinition> = {
+  "euclidean": {
+    metric: "euclidean",
+    description: "Straight-line distance on raw values; dominated by the largest compounds",
+    distance: (a, b) => calculateEuclideanDistance(a, b),
+    similarity: (d) => clamp(100 * Math.exp(-d / 10)),
+  },
+  "manhattan": {
+    metric: "manhattan",
+    description: "Sum of absolute differences on raw values",
+    distance: (a, b) => manhattan(a, b),
+    similarity: (d) => clamp(100 * Math.exp(-d / 15)),
+  },
+  "cosine": {
+    metric: "cosine",
+    description: "1 − cosine of the angle between profiles; ignores overall potency",
+    distance: (a, b) => cosine(a, b),
+    similarity: (d) => clamp(100 * (1 - d)),
+  },
+  "bray-curtis": {
+    metric: "bray-curtis",
+    description: "Bray-Curtis dissimilarity (0-1) of relative abundances",
+    distance: (a, b) => brayCurtis(a, b),
+    similarity: (d) => clamp(100 * (1 - d)),
+  },
+  "aitchison": {
+    metric: "aitchison",
+    description: "Euclidean distance of CLR coordinates; minor compounds count as much as major ones",
+    distance: (a, b) => aitchison(a, b),
+    similarity: (d) => clamp(100 * Math.exp(-d / 4)),
+  },
+  "weighted-euclidean": {
+    metric: "weighted-euclidean",
+    description: "Euclidean distance with per-compound weights",
+    distance: (a, b, weights) => weightedEuclidean(a, b, weights),
+    similarity: (d) => clamp(100 * Math.exp(-d / 10)),
+  },
+};
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Distance between two compound Maps.
+ *
+ * @param profile1 - Compound name → amount
+ * @param profile2 - Compound name → amount (same unit as `profile1`)
+ * @param options - Metric and weights
+ * @returns Distance; 0 means identical
+ */
+export function calculateDistance(
+  profile1: Map<string, number>,
+  profile2: Map<string, number>,
+  options: DistanceOptions = {}
+): number {
+  const definition = DISTANCE_METRICS[options.metric ?? "euclidean"];
+  return definition.distance(profile1, profile2, options.weights ?? {});
+}
+
+/**
+ * Convert a distance to a 0-100 similarity using the metric's calibration.
+ *
+ * @param distance - Distance from `calculateDistance`
+ * @param metric - Metric that produced it (default: "euclidean")
+ * @returns Similarity; 100 means identical
+ */
+export function distanceToSimilarity(
+  distance: number,
+  metric: DistanceMetric = "euclidean"
+): number {
+  return DISTANCE_METRICS[metric].similarity(distance);
+}
@@ -37,7 +37,35 @@ export {
 } from "./cannabinoids";
 
 // CDES Parser
-export { CDESParser } from "./parser";
+export {
+  CDESParser,
+  type CDESParserOptions,
+  type BatchJSONPaths,
+  type BatchJSONParserOptions,
+  type BatchJSONParseResult,
+  type BatchesJSONParseResult,
+  type CSVParserOptions,
+  type CSVParsedData,
+} from "./parser";
+
+// CSV / TSV Lab Exports
+export * from "./csv";
+export {
+  detectDelimiter,
+  parseDelimitedText,
+  resolveCSVColumn,
+  CSV_DELIMITERS,
+  CSV_COLUMN_ALIASES,
+  type CSVColumnField,
+} from "./csv";
+
+// Parse Diagnostics
+export * from "./diagnostics";
+export {
+  ParseDiagnosticsCollector,
+  DEFAULT_ISSUE_SEVERITY,
+  type ParseIssueLocation,
+} from "./diagnostics";
 
 // Analyzer
 export * from "./analyzer";
@@ -46,6 +74,7 @@ export {
   type ComparisonResult,
   type SimilarityResult,
   type BatchComparison,
+  type AnalyzerOptions,
 } from "./analyzer";
 
 // Reference Data (Single Source of Truth from cdes-reference-data repo)
@@ -73,8 +102,11 @@ export {
   DominanceLevel,
   computeRatioMetrics,
   computeClrCoordinates,
+  clrTransform,
+  toRatioTerpeneValues,
   classifyArchetype,
   getArchetypeDescription,
+  DEFAULT_ARCHETYPE_MODEL,
   TERPENE_CODES,
   TERPENE_NAMES,
   FIXED_TERPENE_ORDER,
@@ -83,8 +115,320 @@ export {
   type ArchetypeClassification,
   type TerpeneRatioMetrics,
   type ArchetypeDescription,
+  type ArchetypeModel,
+  type ArchetypeModelMetadata,
 } from "./ratioAnalysis";
 
+// Archetype Models
+export * from "./archetypeModel";
+export {
+  fitArchetypeModel,
+  fitArchetypeModelFromClusters,
+  loadArchetypeModel,
+  type ArchetypeTrainingTerpenes,
+  type ArchetypeTrainingSample,
+  type ArchetypeFitOptions,
+} from "./archetypeModel";
+
+// Compositional PCA
+export * from "./pca";
+export {
+  fitCompositionalPCA,
+  projectPCA,
+  type PCAOptions,
+  type PCAInput,
+  type PCALoading,
+  type PCAScore,
+  type CompositionalPCA,
+} from "./pca";
+
+// Statistical Process Control
+export * from "./spc";
+export {
+  analyzeStrainConsistency,
+  compoundStatistics,
+  controlLimits,
+  westernElectricViolations,
+  type SPCGrouping,
+  type SPCDateField,
+  type SigmaMethod,
+  type WesternElectricRule,
+  type SPCOptions,
+  type CompoundStatistics,
+  type ControlLimits,
+  type RuleViolation,
+  type SPCPoint,
+  type SPCSeries,
+  type ArchetypePoint,
+  type ArchetypeChange,
+  type ArchetypeDrift,
+  type StrainConsistencyReport,
+} from "./spc";
+
+// Anomaly Detection
+export * from "./anomaly";
+export {
+  detectAnomalies,
+  robustZScores,
+  DEFAULT_ANOMALY_LIMITS,
+  type AnomalyInput,
+  type AnomalyCode,
+  type AnomalyReason,
+  type AnomalyResult,
+  type AnomalyMetric,
+  type AnomalyLimits,
+  type AnomalyOptions,
+} from "./anomaly";
+
+// Inter-Lab Bias
+export * from "./labBias";
+export {
+  analyzeLabBias,
+  applyLabCorrections,
+  type LabBiasInput,
+  type LabMatch,
+  type LabBiasOptions,
+  type BiasInterval,
+  type LabBiasEstimate,
+  type LabSummary,
+  type LabBiasReport,
+  type LabCorrectionMethod,
+} from "./labBias";
+
+// Strain Names
+export * from "./strains";
+export {
+  StrainResolver,
+  resolveStrainName,
+  clusterStrainNames,
+  DEFAULT_STRAIN_ALIASES,
+  type StrainMatchMethod,
+  type StrainResolution,
+  type StrainResolverOptions,
+  type StrainClusterOptions,
+  type StrainNameCluster,
+} from "./strains";
+
+// Chemotypes
+export * from "./chemotype";
+export {
+  classifyChemotype,
+  DEFAULT_CHEMOTYPE_THRESHOLDS,
+  CHEMOTYPE_LABELS,
+  type Chemotype,
+  type ChemotypeInput,
+  type MinorCannabinoidThreshold,
+  type ChemotypeThresholds,
+  type ChemotypeOptions,
+  type RatioBand,
+  type MinorCannabinoidEnrichment,
+  type ChemotypeClassification,
+} from "./chemotype";
+
+// Recommendations
+export * from "./recommend";
+export {
+  recommendBatches,
+  DEFAULT_EVIDENCE_WEIGHTS,
+  DEFAULT_STRENGTH_WEIGHTS,
+  EFFECT_SYNONYMS,
+  type EffectRequest,
+  type RecommendationOptions,
+  type CompoundContribution,
+  type Recommendation,
+} from "./recommend";
+
+// Aroma Wheel
+export * from "./aroma";
+export {
+  scoreAromaProfile,
+  AROMA_FAMILIES,
+  AROMA_FAMILY_COLORS,
+  AROMA_DESCRIPTOR_FAMILIES,
+  type AromaFamily,
+  type AromaOptions,
+  type AromaDescriptorScore,
+  type AromaFamilyScore,
+  type AromaWheelNode,
+  type AromaProfile,
+} from "./aroma";
+
+// Degradation
+export * from "./degradation";
+export {
+  projectDegradation,
+  DEFAULT_DEGRADATION_RATES,
+  type StorageConditions,
+  type DegradationRates,
+  type LabelClaim,
+  type DegradationOptions,
+  type ProjectedValue,
+  type ProjectedCompound,
+  type ShelfLifeProjection,
+  type DegradationProjection,
+} from "./degradation";
+
+// Aggregation
+export * from "./aggregate";
+export {
+  aggregateProfiles,
+  MISSING_GROUP_VALUE,
+  type AggregateInput,
+  type AggregateField,
+  type AggregateKeyFunction,
+  type AggregateKey,
+  type AggregateMetricType,
+  type AggregateOptions,
+  type MetricSummary,
+  type AggregateGroup,
+  type AggregateRow,
+  type AggregateReport,
+} from "./aggregate";
+
+// COA Validation
+export * from "./validation";
+export {
+  validateCOA,
+  isValidCOA,
+  TEST_STATUSES,
+  TEST_METHODS,
+  PRODUCT_TYPES,
+  OVERALL_STATUSES,
+  COMPOUND_UNITS,
+  DETECTION_STATES,
+  SAFETY_TEST_CATEGORIES,
+  type COAValidationError,
+  type COAValidationErrorCode,
+  type COAValidationResult,
+} from "./validation";
+
+// Potency Calculations
+export * from "./potency";
+export {
+  calculatePotency,
+  decarboxylate,
+  DECARBOXYLATION_FACTORS,
+  ACID_TO_NEUTRAL,
+  type PotencyTerm,
+  type PotencyTotal,
+  type PotencyCalculation,
+} from "./potency";
+
+// Compound Name Resolution
+export * from "./compounds";
+export {
+  resolveCompoundName,
+  type ResolvedCompound,
+} from "./compounds";
+
+// Compliance Rule Packs
+export * from "./compliance";
+export {
+  evaluateCompliance,
+  loadCompliancePack,
+  registerCompliancePack,
+  getCompliancePack,
+  getCompliancePacks,
+  clearCompliancePacks,
+  type SafetyCategory,
+  type AnalyteLimit,
+  type CategoryRule,
+  type CompliancePack,
+  type AnalyteEvaluation,
+  type CategoryEvaluation,
+  type ComplianceDiscrepancy,
+  type ComplianceReport,
+} from "./compliance";
+
+// Unit Normalization
+export * from "./units";
+export {
+  convertCompoundValue,
+  convertCompoundMap,
+  canConvertUnits,
+  normalizeCompounds,
+  normalizeCannabinoidProfile,
+  normalizeTerpeneProfile,
+  convertMeasuredValue,
+  getBasisMassGrams,
+  parseUnitFromLabel,
+  stripUnitFromLabel,
+  type UnitContext,
+} from "./units";
+
+// Distance Metrics
+export * from "./distance";
+export {
+  calculateDistance,
+  distanceToSimilarity,
+  DISTANCE_METRICS,
+  type DistanceMetric,
+  type DistanceOptions,
+  type DistanceMetricDefinition,
+} from "./distance";
+
+// Similarity Index
+export * from "./similarityIndex";
+export {
+  SimilarityIndex,
+  type SimilarityIndexOptions,
+  type SerializedSimilarityIndex,
+  type SerializedIndexProfile,
+  type SerializedIndexNode,
+  type SerializedIndexBranch,
+} from "./similarityIndex";
+
+// Profile Clustering
+export * from "./clustering";
+export {
+  buildProfileMatrix,
+  silhouetteScores,
+  kMeansClustering,
+  hierarchicalClustering,
+  type ClusterInput,
+  type ClusterSpace,
+  type ClusterLinkage,
+  type ClusteringOptions,
+  type KMeansOptions,
+  type HierarchicalOptions,
+  type ProfileMatrix,
+  type ClusterAssignment,
+  type ClusterCentroid,
+  type ClusteringResult,
+  type KMeansResult,
+  type HierarchicalResult,
+  type DendrogramNode,
+  type DendrogramMerge,
+} from "./clustering";
+
+// Chemovar Fingerprints
+export * from "./chemovar";
+export {
+  buildChemovarFingerprint,
+  compareFingerprints,
+  compareChemovars,
+  DEFAULT_FINGERPRINT_WEIGHTS,
+  type Chemovar,
+  type ChemovarFingerprint,
+  type ChemovarOptions,
+  type ChemovarComparison,
+  type ChemovarSimilarityResult,
+  type FingerprintBlock,
+  type FingerprintWeights,
+  type MissingBlockPolicy,
+} from "./chemovar";
+
+// Detection Values
+export * from "./detection";
+export {
+  parseMeasuredValue,
+  measuredAmount,
+  isQuantified,
+  formatMeasuredValue,
+  type DetectionLimits,
+  type NonDetectPolicy,
+} from "./detection";
+
 // Version
 export const SDK_VERSION = "1.5.0";
 
@@ -0,0 +1,104 @@
+/**
+ * CDES Analysis Inputs
+ * Internal helpers shared by the modules that accept COAs, batches and
+ * profiles: telling them apart, reading their compounds as normalized %
+ * maps, the producer of a batch, and the median used for robust centres
+ *
+ * Not part of the public API; the package index does not export it.
+ *
+ * @module inputs
+ */
+
+import { Batch, Cannabinoid, COA, Terpene, TerpeneProfile } from "./models";
+import { resolveCompoundName } from "./compounds";
+import { normalizeTerpeneName } from "./terpenes";
+import { normalizeCompounds, UnitContext } from "./units";
+
+/** Cannabinoid and terpene amounts in %, keyed by canonical name */
+export interface CompoundMaps {
+  cannabinoids: Map<string, number>;
+  terpenes: Map<string, number>;
+}
+
+/**
+ * Whether an analysis input is a COA (rather than a batch or profile)
+ */
+export function isCOA(input: object): input is COA {
+  return "sample" in input && "lab" in input;
+}
+
+/**
+ * Whether terpene input is a TerpeneProfile (rather than a name → value Map or record)
+ */
+export function isTerpeneProfile(
+  input: TerpeneProfile | Map<string, number> | Record<string, number>
+): input is TerpeneProfile {
+  return !(input instanceof Map) && input.terpenes instanceof Map;
+}
+
+/**
+ * Canonical cannabinoid name: the STANDARD_CANNABINOIDS key when the label
+ * is recognized, otherwise the trimmed label
+ */
+export function canonicalCannabinoidName(name: string): string {
+  return resolveCompoundName(name)?.name ?? name.trim();
+}
+
+/**
+ * Canonical name of a measured cannabinoid, or undefined for summary rows
+ * ("Total THC", "Total Cannabinoids") and labels that name no known
+ * cannabinoid
+ */
+export function measuredCannabinoidName(name: string): string | undefined {
+  const resolved = resolveCompoundName(name);
+  return resolved?.kind === "cannabinoid" ? resolved.name : undefined;
+}
+
+/**
+ * Convert compounds to % and key them by canonical name. The first finite
+ * value of a compound wins; later duplicates are ignored.
+ */
+export function compoundValues(
+  compounds: Array<Cannabinoid | Terpene>,
+  canonical: (name: string) => string,
+  unitContext: UnitContext
+): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const compound of normalizeCompounds(compounds, "%", unitContext)) {
+    if (!Number.isFinite(compound.percentage)) continue;
+    const name = canonical(compound.name);
+    if (!values.has(name)) values.set(name, compound.percentage);
+  }
+  return values;
+}
+
+/**
+ * Cannabinoids and terpenes of a COA or batch, in % by canonical name
+ */
+export function inputCompounds(input: COA | Batch, unitContext: UnitContext): CompoundMaps {
+  const cannabinoids = isCOA(input) ? input.cannabinoids : input.labResult?.cannabinoids;
+  const terpenes = isCOA(input) ? input.terpenes : input.labResult?.terpenes;
+  return {
+    cannabinoids: compoundValues(cannabinoids ?? [], canonicalCannabinoidName, unitContext),
+    terpenes: compoundValues(terpenes ?? [], normalizeTerpeneName, unitContext),
+  };
+}
+
+/**
+ * Producer of a batch: `metadata.producer` when set, otherwise the
+ * dispensary, which is the producer in vertically integrated markets
+ */
+export function batchProducer(batch: Batch): { id: string; name?: string } {
+  const producer = batch.metadata?.producer;
+  if (typeof producer === "string" && producer.trim()) return { id: producer.trim(), name: producer.trim() };
+  return batch.dispensaryName ? { id: batch.dispensaryId, name: batch.dispensaryName } : { id: batch.dispensaryId };
+}
+
+/**
+ * Median of a non-empty list
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,368 @@
+/**
+ * CDES Inter-Lab Bias
+ * Compare testing labs on shared strains or split samples and estimate
+ * each lab's systematic offset and scale factor per compound
+ *
+ * Labs are compared within groups tested by two or more labs (the same
+ * sample for split samples, or the same strain). The reference for a lab in
+ * a group is the consensus — the median of the other labs' mean results,
+ * so a lab never pulls its own reference — or the result of a chosen
+ * reference lab:
+ * - offset: mean difference from the reference, in % points
+ * - scale: geometric mean ratio to the reference
+ *
+ * Both come with Student-t confidence intervals. `applyLabCorrections`
+ * divides by the scale (or subtracts the offset) to put results from
+ * different labs on a common footing.
+ *
+ * @module labBias
+ */
+
+import { Batch, CannabinoidProfile, COA } from "./models";
+import { inputCompounds, isCOA, median } from "./inputs";
+import { calculateTotalCannabinoids } from "./cannabinoids";
+import { UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** A COA (lab from `lab.name`) or a batch (lab from `labResult.labName`) */
+export type LabBiasInput = COA | Batch;
+
+/** What makes results comparable across labs */
+export type LabMatch = "sample" | "strain";
+
+/** Options for `analyzeLabBias` */
+export interface LabBiasOptions {
+  /** Compare split samples (same batch number) or shared strains (default: "strain") */
+  matchBy?: LabMatch;
+  /** Compare every lab with this lab instead of the consensus */
+  referenceLab?: string;
+  /** Confidence level of the intervals (default: 0.95) */
+  confidence?: number;
+  /** Include terpenes (default: true) */
+  includeTerpenes?: boolean;
+  /** Product context for results reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+/** An estimate with its confidence interval; bounds are null below two observations */
+export interface BiasInterval {
+  estimate: number;
+  lower: number | null;
+  upper: number | null;
+  /** Observations behind the estimate */
+  n: number;
+}
+
+/** Bias of one lab for one compound */
+export interface LabBiasEstimate {
+  lab: string;
+  compound: string;
+  compoundType: "cannabinoid" | "terpene";
+  /** Mean difference from the reference, in % points */
+  offset: BiasInterval;
+  /** Geometric mean ratio to the reference; null without positive results */
+  scale: BiasInterval | null;
+  /** Whether the offset interval excludes 0 or the scale interval excludes 1 */
+  significant: boolean;
+}
+
+/** All estimates of one lab */
+export interface LabSummary {
+  lab: string;
+  /** Results from this lab */
+  resultCount: number;
+  /** Groups this lab shares with at least one other lab */
+  sharedGroups: number;
+  estimates: LabBiasEstimate[];
+}
+
+/** Result of `analyzeLabBias` */
+export interface LabBiasReport {
+  matchBy: LabMatch;
+  /** Reference lab, or null for the consensus */
+  referenceLab: string | null;
+  confidence: number;
+  labs: LabSummary[];
+  /** Every estimate, flat, for charting */
+  estimates: LabBiasEstimate[];
+}
+
+/** How `applyLabCorrections` adjusts values */
+export type LabCorrectionMethod = "scale" | "offset";
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface LabRecord {
+  id: string;
+  name: string;
+  lab: string;
+  group: string;
+  cannabinoids: Map<string, number>;
+  terpenes: Map<string, number>;
+}
+
+function toRecord(input: LabBiasInput, matchBy: LabMatch, unitContext: UnitContext): LabRecord | null {
+  if (isCOA(input)) {
+    const lab = input.lab?.name?.trim();
+    const group = matchBy === "sample" ? input.sample.batchNumber : input.sample.strainName;
+    if (!lab || !group?.trim()) return null;
+    return {
+      id: input.sample.batchNumber || input.id,
+      name: input.sample.productName,
+      lab,
+      group: group.trim().toLowerCase(),
+      ...inputCompounds(input, unitContext),
+    };
+  }
+
+  const lab = (input.labResult?.labName ?? input.labResult?.labId)?.trim();
+  const group = matchBy === "sample" ? input.id : input.strain;
+  if (!lab || !input.labResult || !group?.trim()) return null;
+  return {
+    id: input.id,
+    name: input.name,
+    lab,
+    group: group.trim().toLowerCase(),
+    ...inputCompounds(input, unitContext),
+  };
+}
+
+/** Standard normal quantile (Acklam's rational approximation) */
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/** Student-t quantile: exact for 1-2 degrees of freedom, Cornish-Fisher expansion above */
+function tQuantile(p: number, df: number): number {
+  if (df === 1) return Math.tan(Math.PI * (p - 0.5));
+  if (df === 2) return (2 * p - 1) / Math.sqrt(2 * p * (1 - p));
+
+  const z = normalQuantile(p);
+  const z3 = z ** 3;
+  const z5 = z ** 5;
+  const z7 = z ** 7;
+  const z9 = z ** 9;
+  return z +
+    (z3 + z) / (4 * df) +
+    (5 * z5 + 16 * z3 + 3 * z) / (96 * df ** 2) +
+    (3 * z7 + 19 * z5 + 17 * z3 - 15 * z) / (384 * df ** 3) +
+    (79 * z9 + 776 * z7 + 1482 * z5 - 1920 * z3 - 945 * z) / (92160 * df ** 4);
+}
+
+function meanInterval(values: number[], confidence: number): BiasInterval {
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n < 2) return { estimate: mean, lower: null, upper: null, n };
+
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1));
+  const half = tQuantile(1 - (1 - confidence) / 2, n - 1) * sd / Math.sqrt(n);
+  return { estimate: mean, lower: mean - half, upper: mean + half, n };
+}
+
+function estimateCompound(
+  lab: string,
+  compound: string,
+  compoundType: LabBiasEstimate["compoundType"],
+  groups: Map<string, Map<string, number[]>>,
+  referenceLab: string | null,
+  confidence: number
+): LabBiasEstimate | null {
+  const differences: number[] = [];
+  const logRatios: number[] = [];
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  for (const byLab of groups.values()) {
+    const own = byLab.get(lab);
+    if (!own || byLab.size < 2) continue;
+
+    let reference: number;
+    if (referenceLab === null) {
+      const others = [...byLab].filter(([other]) => other !== lab).map(([, values]) => mean(values));
+      reference = median(others);
+    } else {
+      const referenceValues = byLab.get(referenceLab);
+      if (!referenceValues) continue;
+      reference = mean(referenceValues);
+    }
+
+    const value = mean(own);
+    differences.push(value - reference);
+    if (value > 0 && reference > 0) logRatios.push(Math.log(value / reference));
+  }
+  if (differences.length === 0) return null;
+
+  const offset = meanInterval(differences, confidence);
+  const logScale = logRatios.length > 0 ? meanInterval(logRatios, confidence) : null;
+  const scale = logScale && {
+    estimate: Math.exp(logScale.estimate),
+    lower: logScale.lower === null ? null : Math.exp(logScale.lower),
+    upper: logScale.upper === null ? null : Math.exp(logScale.upper),
+    n: logScale.n,
+  };
+
+  const excludes = (interval: BiasInterval | null, value: number) =>
+    interval !== null && interval.lower !== null && interval.upper !== null &&
+    (interval.lower > value || interval.upper < value);
+
+  return {
+    lab,
+    compound,
+    compoundType,
+    offset,
+    scale,
+    significant: excludes(offset, 0) || excludes(scale, 1),
+  };
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Estimate per-lab, per-compound offsets and scale factors.
+ *
+ * Results without a lab name, or without a strain / batch number to match
+ * on, are ignored. Only groups tested by two or more labs contribute, and
+ * the reference lab itself gets no estimates.
+ *
+ * @param inputs - COAs and/or batches with lab results
+ * @param options - Matching, confidence level and unit context
+ * @returns Estimates by lab and as a flat list
+ */
+export function analyzeLabBias(
+  inputs: LabBiasInput[],
+  options: LabBiasOptions = {}
+): LabBiasReport {
+  const matchBy = options.matchBy ?? "strain";
+  const confidence = options.confidence ?? 0.95;
+  const referenceLab = options.referenceLab?.trim() || null;
+  const records = inputs
+    .map((input) => toRecord(input, matchBy, options.unitContext ?? {}))
+    .filter((record): record is LabRecord => record !== null);
+
+  // compoundType → compound → group → lab → results
+  const values = {
+    cannabinoid: new Map<string, Map<string, Map<string, number[]>>>(),
+    terpene: new Map<string, Map<string, Map<string, number[]>>>(),
+  };
+  const add = (type: keyof typeof values, compound: string, record: LabRecord, value: number) => {
+    const byGroup = values[type].get(compound) ?? new Map<string, Map<string, number[]>>();
+    const byLab = byGroup.get(record.group) ?? new Map<string, number[]>();
+    byLab.set(record.lab, [...(byLab.get(record.lab) ?? []), value]);
+    byGroup.set(record.group, byLab);
+    values[type].set(compound, byGroup);
+  };
+  for (const record of records) {
+    record.cannabinoids.forEach((value, compound) => add("cannabinoid", compound, record, value));
+    if (options.includeTerpenes !== false) {
+      record.terpenes.forEach((value, compound) => add("terpene", compound, record, value));
+    }
+  }
+
+  const labs = Array.from(new Set(records.map((r) => r.lab)));
+  const groupLabs = new Map<string, Set<string>>();
+  for (const record of records) {
+    groupLabs.set(record.group, (groupLabs.get(record.group) ?? new Set()).add(record.lab));
+  }
+
+  const summaries: LabSummary[] = labs.filter((lab) => lab !== referenceLab).map((lab) => {
+    const estimates: LabBiasEstimate[] = [];
+    for (const type of ["cannabinoid", "terpene"] as const) {
+      for (const [compound, groups] of values[type]) {
+        const estimate = estimateCompound(lab, compound, type, groups, referenceLab, confidence);
+        if (estimate) estimates.push(estimate);
+      }
+    }
+    return {
+      lab,
+      resultCount: records.filter((r) => r.lab === lab).length,
+      sharedGroups: [...groupLabs.values()].filter((set) => set.has(lab) && set.size > 1).length,
+      estimates,
+    };
+  });
+
+  return {
+    matchBy,
+    referenceLab,
+    confidence,
+    labs: summaries,
+    estimates: summaries.flatMap((summary) => summary.estimates),
+  };
+}
+
+/**
+ * Put results from different labs on a common footing.
+ *
+ * Each cannabinoid is divided by its lab's scale factor (or has the
+ * offset subtracted, floored at 0). Inputs from a lab the report has no
+ * estimates for — the reference lab, a lab that shared no group with
+ * another lab, or a lab not in the report — are returned uncorrected, as
+ * are compounds their lab has no estimate for. Inputs without a lab name
+ * or a strain / batch number to match on are skipped, as in
+ * `analyzeLabBias`.
+ *
+ * @param inputs - COAs and/or batches with lab results
+ * @param report - Result of `analyzeLabBias`
+ * @param method - "scale" (default) or "offset"
+ * @param unitContext - Product context for results reported in `mg`
+ * @returns One cannabinoid profile (in %) per input that has a lab and a match key
+ */
+export function applyLabCorrections(
+  inputs: LabBiasInput[],
+  report: LabBiasReport,
+  method: LabCorrectionMethod = "scale",
+  unitContext: UnitContext = {}
+): CannabinoidProfile[] {
+  const corrections = new Map(
+    report.estimates
+      .filter((e) => e.compoundType === "cannabinoid")
+      .map((e) => [`${e.lab}\u0000${e.compound}`, e])
+  );
+
+  const profiles: CannabinoidProfile[] = [];
+  for (const input of inputs) {
+    const record = toRecord(input, report.matchBy, unitContext);
+    if (!record) continue;
+
+    const cannabinoids = new Map<string, number>();
+    for (const [compound, value] of record.cannabinoids) {
+      const estimate = corrections.get(`${record.lab}\u0000${compound}`);
+      let corrected = value;
+      if (estimate && method === "scale" && estimate.scale && estimate.scale.estimate > 0) {
+        corrected = value / estimate.scale.estimate;
+      } else if (estimate && method === "offset") {
+        corrected = Math.max(0, value - estimate.offset.estimate);
+      }
+      cannabinoids.set(compound, corrected);
+    }
+
+    profiles.push({
+      batchId: record.id,
+      batchName: record.name,
+      cannabinoids,
+      totalCannabinoids: calculateTotalCannabinoids(cannabinoids),
+    });
+  }
+  return profiles;
+}
@@ -3,6 +3,33 @@
  * Cannabis Data Exchange Standard types and interfaces
  */
 
+/** Unit a compound amount is reported in */
+export type CompoundUnit = "mg/g" | "%" | "mg";
+
+/** Whether a lab found an analyte, and whether it could quantify it */
+export type DetectionState =
+  | "detected"
+  | "trace"
+  | "below-loq"
+  | "not-detected"
+  | "not-tested";
+
+/**
+ * A reported amount together with its detection state, e.g. "ND", "<LOQ",
+ * "<0.05", "Trace" or "12.3". `value` is only set when the lab reported a
+ * number; LOD/LOQ are in the same unit as `value`.
+ */
+export interface MeasuredValue {
+  state: DetectionState;
+  value?: number;
+  /** Limit of detection */
+  lod?: number;
+  /** Limit of quantitation */
+  loq?: number;
+  /** Original text as reported */
+  raw?: string;
+}
+
 /**
  * Cannabinoid compound with percentage value
  * Used in LabResult arrays to represent analyzed cannabinoid compounds
@@ -11,7 +38,9 @@ export interface Cannabinoid {
   name: string;
   displayName?: string;
   percentage: number;
-  unit?: "mg/g" | "%" | "mg";
+  unit?: CompoundUnit;
+  /** Detection state behind `percentage` (0 for non-detects) */
+  measurement?: MeasuredValue;
 }
 
 /** Terpene compound with percentage value */
@@ -19,7 +48,9 @@ export interface Terpene {
   name: string;
   displayName?: string;
   percentage: number;
-  unit?: "mg/g" | "%" | "mg";
+  unit?: CompoundUnit;
+  /** Detection state behind `percentage` (0 for non-detects) */
+  measurement?: MeasuredValue;
 }
 
 /** Lab test result (COA - Certificate of Analysis) */
@@ -51,6 +82,10 @@ export interface CannabinoidProfile {
   batchName: string;
   cannabinoids: Map<string, number>;
   totalCannabinoids: number;
+  /** Unit of the values in `cannabinoids` (default: "%") */
+  unit?: CompoundUnit;
+  /** Detection state of every reported compound, including non-detects left out of `cannabinoids` */
+  measurements?: Map<string, MeasuredValue>;
 }
 
 /** Terpene profile comparison */
@@ -59,6 +94,10 @@ export interface TerpeneProfile {
   batchName: string;
   terpenes: Map<string, number>;
   totalTerpenes: number;
+  /** Unit of the values in `terpenes` (default: "%") */
+  unit?: CompoundUnit;
+  /** Detection state of every reported compound, including non-detects left out of `terpenes` */
+  measurements?: Map<string, MeasuredValue>;
 }
 
 /** Power BI categorical data structure */
@@ -68,17 +107,63 @@ export interface PowerBICategoricalData {
     source?: { displayName: string };
   }>;
   values: Array<{
-    values: (number | null)[];
+    values: (number | string | null)[];
     source?: { displayName: string };
   }>;
 }
 
+/** Measure column whose header could not be mapped to a compound */
+export interface UnmappedColumn {
+  index: number;
+  displayName: string;
+}
+
+/** Reason a parsed value was flagged */
+export type ParseIssueCode =
+  | "unknown-compound"
+  | "non-numeric"
+  | "duplicate"
+  | "negative-value"
+  | "missing-batch-id"
+  | "unit-conversion";
+
+/** Severity of a parse issue; ETL pipelines typically fail on "error" */
+export type ParseIssueSeverity = "warning" | "error";
+
+/** A single problem found while parsing, located by source row/column */
+export interface ParseIssue {
+  severity: ParseIssueSeverity;
+  code: ParseIssueCode;
+  message: string;
+  /** Source row index (DataView row, JSON array index, or CSV data row) */
+  row?: number;
+  /** Source column index (DataView measure or CSV column) */
+  column?: number;
+  batchId?: string;
+  compound?: string;
+  value?: unknown;
+}
+
+/** Diagnostics returned alongside every parse */
+export interface ParseDiagnostics {
+  issues: ParseIssue[];
+  counts: Record<ParseIssueCode, number>;
+  errorCount: number;
+  warningCount: number;
+  /** Source rows dropped entirely because of an issue */
+  rowsSkipped: number;
+}
+
 /** Parsed CDES data from Power BI */
 export interface CDESParsedData {
   profiles: CannabinoidProfile[];
   terpeneProfiles?: TerpeneProfile[];
   parseMode: "standard" | "cdes" | "unknown";
   recordsProcessed: number;
+  /** CDES structure only: measure columns that were ignored */
+  unmappedColumns?: UnmappedColumn[];
+  /** Warnings and errors found while parsing */
+  diagnostics?: ParseDiagnostics;
 }
 
 // =============================================================================
@@ -122,6 +207,8 @@ export interface SafetyTestResult {
   limit?: number;
   unit?: string;
   status: TestStatus;
+  /** Detection state of `result` / `resultText` */
+  measurement?: MeasuredValue;
 }
 
 /** A category of safety tests */
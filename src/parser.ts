@@ -4,120 +4,317 @@
  */
 
 import {
+  Cannabinoid,
   CannabinoidProfile,
   CDESParsedData,
+  COA,
+  CompoundUnit,
+  MeasuredValue,
+  ParseDiagnostics,
+  ParseIssueCode,
+  ParseIssueSeverity,
   PowerBICategoricalData,
+  TerpeneProfile,
+  UnmappedColumn,
 } from "./models";
+import { calculateTotalCannabinoids } from "./cannabinoids";
+import { resolveCompoundName } from "./compounds";
 import {
-  getCannabioidDisplayName,
-} from "./cannabinoids";
+  CSVColumnField,
+  detectDelimiter,
+  parseDelimitedText,
+  resolveCSVColumn,
+} from "./csv";
+import { ParseDiagnosticsCollector, ParseIssueLocation } from "./diagnostics";
+import { formatMeasuredValue, parseMeasuredValue } from "./detection";
+import { calculatePotency } from "./potency";
+import { DETECTION_STATES, PRODUCT_TYPES } from "./validation";
+import {
+  canConvertUnits,
+  convertMeasuredValue,
+  parseUnitFromLabel,
+  UnitContext,
+} from "./units";
+
+/** Fixed CDES measure order, used when a DataView has no measure headers */
+const CDES_COLUMN_ORDER = [
+  "THC",
+  "CBD",
+  "CBN",
+  "CBG",
+  "CBC",
+  "THCV",
+  "CBDV",
+  "THCA",
+  "CBDA",
+];
+
+/** A CDES-structure measure column mapped to a compound */
+interface MeasureColumn {
+  index: number;
+  name: string;
+  kind: "cannabinoid" | "terpene";
+  unit: CompoundUnit;
+}
+
+/** Options shared by all CDESParser entry points */
+export interface CDESParserOptions {
+  /** Unit every parsed profile is expressed in (default: "%") */
+  targetUnit?: CompoundUnit;
+  /** Product context used to convert values reported in `mg` */
+  unitContext?: UnitContext;
+  /** Override the default severity of diagnostic codes */
+  severityOverrides?: Partial<Record<ParseIssueCode, ParseIssueSeverity>>;
+}
+
+/**
+ * Dotted paths into vendor JSON payloads, e.g. "meta.lot" or
+ * "results.potency[0].value"
+ */
+export interface BatchJSONPaths {
+  batchId?: string;
+  batchName?: string;
+  unit?: string;
+  /** Compound name → path of its value */
+  compounds?: Record<string, string>;
+}
+
+/** Options for JSON batch entry points */
+export interface BatchJSONParserOptions extends CDESParserOptions {
+  /** Where to find fields in payloads that do not use the SDK's shapes */
+  paths?: BatchJSONPaths;
+}
+
+/** Result of parsing a single JSON batch */
+export interface BatchJSONParseResult {
+  profile: CannabinoidProfile;
+  /** Present when the batch reports any terpene */
+  terpeneProfile?: TerpeneProfile;
+  diagnostics: ParseDiagnostics;
+}
+
+/** Result of parsing an array of JSON batches */
+export interface BatchesJSONParseResult {
+  profiles: CannabinoidProfile[];
+  terpeneProfiles: TerpeneProfile[];
+  diagnostics: ParseDiagnostics;
+}
+
+/** Options for CSV / TSV lab exports */
+export interface CSVParserOptions extends CDESParserOptions {
+  /** Cell delimiter (default: sniffed from the file) */
+  delimiter?: string;
+}
+
+/** Parsed CSV / TSV lab export */
+export interface CSVParsedData extends CDESParsedData {
+  /** One COA per batch with cannabinoids, terpenes and potency filled in */
+  coas: COA[];
+  /** Delimiter the file was split on */
+  delimiter: string;
+}
+
+/** Metadata cells of the first row seen for a batch */
+type CSVBatchMetadata = Partial<Record<CSVColumnField, string>>;
+
+/** Outcome of reading one source cell */
+type CellResult =
+  | { ok: true; value: number; measurement: MeasuredValue }
+  | { ok: false; issue: boolean; measurement?: MeasuredValue };
+
+/** Values and detection states collected for one batch */
+interface BatchValues {
+  values: Map<string, number>;
+  measurements: Map<string, MeasuredValue>;
+}
+
+function newBatchValues(): BatchValues {
+  return { values: new Map(), measurements: new Map() };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** A `measurement` object with a known state and numeric fields where present */
+function isMeasuredValue(value: unknown): value is MeasuredValue {
+  if (!isRecord(value)) return false;
+  const optionalNumber = (field: unknown) => field === undefined || (typeof field === "number" && Number.isFinite(field));
+  return (
+    DETECTION_STATES.some((state) => state === value.state) &&
+    optionalNumber(value.value) &&
+    optionalNumber(value.lod) &&
+    optionalNumber(value.loq) &&
+    (value.raw === undefined || typeof value.raw === "string")
+  );
+}
+
+/** Read a dotted path such as "results.potency[0].value" */
+function getPath(source: unknown, path: string): unknown {
+  return path
+    .split(/\.|\[(\d+)\]/)
+    .filter((segment) => segment !== undefined && segment !== "")
+    .reduce<unknown>((value, segment) => {
+      if (Array.isArray(value)) return value[Number(segment)];
+      return isRecord(value) ? value[segment] : undefined;
+    }, source);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === "";
+}
 
 /**
  * Parse Power BI DataView into CDES cannabis profiles
  *
  * Supports two data structures:
- * 1. Standard: categories[0]=batch, categories[1]=cannabinoid, values[0]=percentage
- * 2. CDES: categories[0]=batch, values[0..N]=individual cannabinoid columns
+ * 1. Standard: categories[0]=batch, categories[1]=compound, values[0]=percentage
+ * 2. CDES: categories[0]=batch, values[0..N]=individual compound columns
+ *
+ * Terpenes are detected with `normalizeTerpeneName` and returned
+ * separately in `terpeneProfiles`.
+ *
+ * Units are read from measure display names (e.g. "THC (mg/g)"; default %)
+ * and every value is converted to `options.targetUnit` before it is stored.
+ * Values that cannot be converted (`mg` without a unit context) are left out.
+ *
+ * Every entry point reports what it dropped or changed in a
+ * `ParseDiagnostics` summary (reason code, source row/column, counts).
  */
 export class CDESParser {
   /**
    * Parse Power BI categorical data
    */
-  static parseDataView(data: PowerBICategoricalData): CDESParsedData {
+  static parseDataView(
+    data: PowerBICategoricalData,
+    options: CDESParserOptions = {}
+  ): CDESParsedData {
     if (!data?.categories || data.categories.length === 0) {
       return {
         profiles: [],
         parseMode: "unknown",
         recordsProcessed: 0,
+        diagnostics: new ParseDiagnosticsCollector().build(),
       };
     }
 
+    let diagnostics: ParseDiagnostics | undefined;
+
     // Try standard structure first
     if (
       data.categories.length >= 2 &&
       data.values &&
       data.values.length > 0
     ) {
-      const standardResult = this.parseStandardStructure(data);
+      const standardResult = this.parseStandardStructure(data, options);
       if (standardResult.profiles.length > 0) {
         return standardResult;
       }
+      diagnostics = standardResult.diagnostics;
     }
 
     // Fall back to CDES structure
     if (data.categories.length >= 1 && data.values) {
-      const cdesResult = this.parseCDESStructure(data);
+      const cdesResult = this.parseCDESStructure(data, options);
       if (cdesResult.profiles.length > 0) {
         return cdesResult;
       }
+      diagnostics = diagnostics ?? cdesResult.diagnostics;
     }
 
     return {
       profiles: [],
       parseMode: "unknown",
       recordsProcessed: 0,
+      diagnostics: diagnostics ?? new ParseDiagnosticsCollector().build(),
     };
   }
 
   /**
-   * Parse standard structure: batch | cannabinoid | value
+   * Parse standard structure: batch | compound | value
    *
    * Categories:
    * - [0]: Batch IDs
-   * - [1]: Cannabinoid names
+   * - [1]: Compound names (cannabinoids and/or terpenes)
    *
    * Values:
    * - [0]: Percentages
+   *
+   * Rows whose compound name is a recognized terpene go to
+   * `terpeneProfiles`; all other rows are treated as cannabinoids.
+   * Unrecognized names are kept as-is and flagged. When a batch/compound
+   * pair repeats, the first row wins. Text values such as "ND" or "<LOQ"
+   * are kept in `measurements`.
    */
   private static parseStandardStructure(
-    data: PowerBICategoricalData
+    data: PowerBICategoricalData,
+    options: CDESParserOptions
   ): CDESParsedData {
-    const profiles = new Map<string, Map<string, number>>();
-    const profileNames = new Map<string, string>();
+    const profiles = new Map<string, BatchValues>();
+    const terpeneProfiles = new Map<string, BatchValues>();
+    const diagnostics = new ParseDiagnosticsCollector(options.severityOverrides);
     let recordsProcessed = 0;
 
     const batchIds = data.categories[0]?.values || [];
-    const cannabinoidNames = data.categories[1]?.values || [];
+    const compoundNames = data.categories[1]?.values || [];
     const percentages = data.values[0]?.values || [];
+    const sourceUnit = this.columnUnit(data.values[0]?.source?.displayName);
+
+    for (let i = 0; i < Math.min(batchIds.length, compoundNames.length); i++) {
+      recordsProcessed++;
 
-    for (let i = 0; i < Math.min(batchIds.length, cannabinoidNames.length); i++) {
-      const batchId = String(batchIds[i]);
-      const cannabinoidName = String(cannabinoidNames[i]);
-      const percentage = Number(percentages[i]) || 0;
+      const batchId = this.readBatchId(batchIds[i], diagnostics, i);
+      if (batchId === undefined) continue;
 
-      if (!profiles.has(batchId)) {
-        profiles.set(batchId, new Map());
-        profileNames.set(batchId, batchId);
+      const compoundName = String(compoundNames[i] ?? "").trim();
+      const resolved = resolveCompoundName(compoundName);
+      if (!resolved) {
+        diagnostics.add(
+          "unknown-compound",
+          compoundName
+            ? `Unrecognized compound "${compoundName}"`
+            : "Missing compound name",
+          { row: i, batchId, compound: compoundName },
+          !compoundName
+        );
+        if (!compoundName) continue;
       }
 
-      const profile = profiles.get(batchId)!;
-      const displayName = getCannabioidDisplayName(cannabinoidName);
+      const kind = resolved?.kind ?? "cannabinoid";
+      const name = resolved?.name ?? compoundName;
+      const location = { row: i, column: 0, batchId, compound: name };
 
-      if (percentage > 0) {
-        profile.set(displayName, percentage);
+      const cell = this.readCell(
+        percentages[i],
+        resolved?.unit ?? sourceUnit,
+        options,
+        diagnostics,
+        location
+      );
+      if (!cell.measurement) {
+        if (!cell.ok && cell.issue) diagnostics.skipRow(i);
+        continue;
       }
 
-      recordsProcessed++;
-    }
+      if (!profiles.has(batchId)) {
+        profiles.set(batchId, newBatchValues());
+      }
+      if (kind === "terpene" && !terpeneProfiles.has(batchId)) {
+        terpeneProfiles.set(batchId, newBatchValues());
+      }
 
-    const result: CannabinoidProfile[] = [];
-    for (const [batchId, cannabinoids] of profiles) {
-      result.push({
-        batchId,
-        batchName: profileNames.get(batchId) || batchId,
-        cannabinoids,
-        totalCannabinoids: Array.from(cannabinoids.values()).reduce(
-          (sum, val) => sum + val,
-          0
-        ),
-      });
+      const target = (kind === "terpene" ? terpeneProfiles : profiles).get(batchId)!;
+      this.storeCell(target, cell, diagnostics, { ...location, value: percentages[i] }, true);
     }
 
-    return {
-      profiles: result,
-      parseMode: "standard",
+    return this.buildParsedData(
+      profiles,
+      terpeneProfiles,
+      "standard",
       recordsProcessed,
-    };
+      options,
+      diagnostics
+    );
   }
 
   /**
@@ -127,118 +324,695 @@ export class CDESParser {
    * - [0]: Batch IDs
    *
    * Values:
-   * - [0..N]: Individual cannabinoid percentages in order
-   *   Expected order: THC, CBD, CBN, CBG, CBC, THCV, CBDV
+   * - [0..N]: Individual compound columns
+   *
+   * Each measure is mapped by its `source.displayName` through
+   * `resolveCompoundName`, so reordered or missing measures land on the
+   * right compound; unrecognized headers are reported in `unmappedColumns`.
+   * Only when no measure has a header is the fixed order used:
+   *   THC, CBD, CBN, CBG, CBC, THCV, CBDV, THCA, CBDA
    */
   private static parseCDESStructure(
-    data: PowerBICategoricalData
+    data: PowerBICategoricalData,
+    options: CDESParserOptions
   ): CDESParsedData {
-    const profiles = new Map<string, Map<string, number>>();
-    const profileNames = new Map<string, string>();
+    const profiles = new Map<string, BatchValues>();
+    const terpeneProfiles = new Map<string, BatchValues>();
+    const diagnostics = new ParseDiagnosticsCollector(options.severityOverrides);
     let recordsProcessed = 0;
 
     const batchIds = data.categories[0]?.values || [];
+    const { columns, unmappedColumns } = this.mapMeasureColumns(data);
+    const hasTerpeneColumns = columns.some((c) => c.kind === "terpene");
 
-    // Standard CDES column order
-    const cdesColumns = [
-      "THC",
-      "CBD",
-      "CBN",
-      "CBG",
-      "CBC",
-      "THCV",
-      "CBDV",
-      "THCA",
-      "CBDA",
-    ];
+    for (const column of unmappedColumns) {
+      diagnostics.add(
+        "unknown-compound",
+        `Measure "${column.displayName}" does not match any compound`,
+        { column: column.index, compound: column.displayName }
+      );
+    }
 
     for (let i = 0; i < batchIds.length; i++) {
-      const batchId = String(batchIds[i]);
+      recordsProcessed++;
+
+      const batchId = this.readBatchId(batchIds[i], diagnostics, i);
+      if (batchId === undefined) continue;
 
       if (!profiles.has(batchId)) {
-        profiles.set(batchId, new Map());
-        profileNames.set(batchId, batchId);
+        profiles.set(batchId, newBatchValues());
+        if (hasTerpeneColumns) {
+          terpeneProfiles.set(batchId, newBatchValues());
+        }
       }
 
       const profile = profiles.get(batchId)!;
+      const terpeneProfile = terpeneProfiles.get(batchId);
 
-      // Extract cannabinoid values from measure columns
-      for (let colIdx = 0; colIdx < Math.min(cdesColumns.length, data.values.length); colIdx++) {
-        const valueArray = data.values[colIdx]?.values || [];
-        const percentage = Number(valueArray[i]) || 0;
+      // Extract compound values from measure columns
+      for (const column of columns) {
+        const valueArray = data.values[column.index]?.values || [];
+        const location = { row: i, column: column.index, batchId, compound: column.name };
+        const cell = this.readCell(
+          valueArray[i],
+          column.unit,
+          options,
+          diagnostics,
+          location
+        );
+        if (!cell.measurement) continue;
 
-        if (percentage > 0) {
-          profile.set(cdesColumns[colIdx], percentage);
+        const target = column.kind === "terpene" ? terpeneProfile : profile;
+        if (target) {
+          this.storeCell(target, cell, diagnostics, { ...location, value: valueArray[i] });
         }
       }
+    }
 
-      recordsProcessed++;
+    return {
+      ...this.buildParsedData(
+        profiles,
+        terpeneProfiles,
+        "cdes",
+        recordsProcessed,
+        options,
+        diagnostics
+      ),
+      unmappedColumns,
+    };
+  }
+
+  /**
+   * Map CDES-structure measure columns to compounds, by header when any
+   * header is present and by the fixed CDES order otherwise
+   */
+  private static mapMeasureColumns(data: PowerBICategoricalData): {
+    columns: MeasureColumn[];
+    unmappedColumns: UnmappedColumn[];
+  } {
+    const columns: MeasureColumn[] = [];
+    const unmappedColumns: UnmappedColumn[] = [];
+    const hasHeaders = data.values.some((column) => column?.source?.displayName);
+
+    if (!hasHeaders) {
+      for (let index = 0; index < Math.min(CDES_COLUMN_ORDER.length, data.values.length); index++) {
+        columns.push({ index, name: CDES_COLUMN_ORDER[index], kind: "cannabinoid", unit: "%" });
+      }
+      return { columns, unmappedColumns };
     }
 
+    data.values.forEach((column, index) => {
+      const displayName = column?.source?.displayName ?? "";
+      const resolved = resolveCompoundName(displayName);
+      if (resolved) {
+        columns.push({
+          index,
+          name: resolved.name,
+          kind: resolved.kind,
+          unit: resolved.unit ?? "%",
+        });
+      } else {
+        unmappedColumns.push({ index, displayName });
+      }
+    });
+
+    return { columns, unmappedColumns };
+  }
+
+  /**
+   * Assemble cannabinoid and terpene profiles from per-batch value maps
+   */
+  private static buildParsedData(
+    profiles: Map<string, BatchValues>,
+    terpeneProfiles: Map<string, BatchValues>,
+    parseMode: CDESParsedData["parseMode"],
+    recordsProcessed: number,
+    options: CDESParserOptions,
+    diagnostics: ParseDiagnosticsCollector
+  ): CDESParsedData {
+    const unit = options.targetUnit ?? "%";
+
     const result: CannabinoidProfile[] = [];
-    for (const [batchId, cannabinoids] of profiles) {
+    for (const [batchId, { values: cannabinoids, measurements }] of profiles) {
       result.push({
         batchId,
-        batchName: profileNames.get(batchId) || batchId,
+        batchName: batchId,
         cannabinoids,
-        totalCannabinoids: Array.from(cannabinoids.values()).reduce(
+        totalCannabinoids: calculateTotalCannabinoids(cannabinoids),
+        unit,
+        measurements,
+      });
+    }
+
+    const terpeneResult: TerpeneProfile[] = [];
+    for (const [batchId, { values: terpenes, measurements }] of terpeneProfiles) {
+      terpeneResult.push({
+        batchId,
+        batchName: batchId,
+        terpenes,
+        totalTerpenes: Array.from(terpenes.values()).reduce(
           (sum, val) => sum + val,
           0
         ),
+        unit,
+        measurements,
       });
     }
 
     return {
       profiles: result,
-      parseMode: "cdes",
+      terpeneProfiles: terpeneResult,
+      parseMode,
       recordsProcessed,
+      diagnostics: diagnostics.build(),
     };
   }
 
   /**
    * Parse raw JSON batch data
+   *
+   * Accepts flat objects (`{ id, name, thc: 20, cbd: "ND" }`) as well as the
+   * SDK's `Batch` (with `labResult`), `LabResult` and `COA` shapes:
+   * compound arrays (`cannabinoids: [{ name, percentage, unit }]`),
+   * name → value objects and any top-level key that `resolveCompoundName`
+   * recognizes ("d8_thc", "cbga", "beta_myrcene").
+   *
+   * A top-level `unit` field ("%", "mg/g" or "mg") sets the unit of values
+   * that do not carry their own; it defaults to %. Values may be numbers,
+   * numeric strings or detection text ("ND", "<LOQ", "<0.05", "Trace").
+   * `options.paths` points at fields in other vendor layouts.
+   */
+  static parseBatchJSON(
+    batch: Record<string, unknown>,
+    options: BatchJSONParserOptions = {}
+  ): CannabinoidProfile {
+    return this.parseBatchJSONWithDiagnostics(batch, options).profile;
+  }
+
+  /**
+   * Parse raw JSON batch data and report what was dropped
+   *
+   * When the same compound is found in several places, mapped paths win
+   * over compound arrays, which win over top-level keys.
    */
-  static parseBatchJSON(batch: Record<string, unknown>): CannabinoidProfile {
-    const batchId = String(batch.id || batch.batchId || "unknown");
-    const cannabinoids = new Map<string, number>();
+  static parseBatchJSONWithDiagnostics(
+    batch: Record<string, unknown>,
+    options: BatchJSONParserOptions = {}
+  ): BatchJSONParseResult {
+    const diagnostics = new ParseDiagnosticsCollector(options.severityOverrides);
+    const paths = options.paths ?? {};
+    const sample = isRecord(batch.sample) ? batch.sample : undefined;
+
+    const rawId = paths.batchId
+      ? getPath(batch, paths.batchId)
+      : sample?.batchNumber ?? batch.id ?? batch.batchId ?? batch.batch_id;
+    const batchId = isBlank(rawId) ? "unknown" : String(rawId);
+    if (isBlank(rawId)) {
+      diagnostics.add("missing-batch-id", "Batch has no id or batchId", {});
+    }
+
+    const rawName = paths.batchName
+      ? getPath(batch, paths.batchName)
+      : batch.name || batch.strain || sample?.strainName || sample?.productName;
+    const rawUnit = paths.unit ? getPath(batch, paths.unit) : batch.unit;
+    const sourceUnit = typeof rawUnit === "string" ? this.columnUnit(rawUnit) : "%";
 
-    // Standard CDES cannabinoid fields
-    const cdesFields = [
-      "THC",
-      "CBD",
-      "CBN",
-      "CBG",
-      "CBC",
-      "THCV",
-      "CBDV",
-      "THCA",
-      "CBDA",
-    ];
+    const cannabinoids = newBatchValues();
+    const terpenes = newBatchValues();
 
-    for (const field of cdesFields) {
-      const value = batch[field.toLowerCase()] || batch[field];
-      if (typeof value === "number" && value > 0) {
-        cannabinoids.set(field, value);
+    const read = (
+      label: string,
+      raw: unknown,
+      kind: "cannabinoid" | "terpene",
+      unit?: CompoundUnit
+    ) => {
+      const resolved = resolveCompoundName(label);
+      if (!resolved) {
+        diagnostics.add(
+          "unknown-compound",
+          label ? `Unrecognized compound "${label}"` : "Missing compound name",
+          { batchId, compound: label }
+        );
+        if (!label) return;
       }
+
+      const location = { batchId, compound: resolved?.name ?? label };
+      const cell = this.readCell(
+        raw,
+        unit ?? resolved?.unit ?? sourceUnit,
+        options,
+        diagnostics,
+        location
+      );
+      const target = (resolved?.kind ?? kind) === "terpene" ? terpenes : cannabinoids;
+      this.storeCell(target, cell, diagnostics, { ...location, value: raw });
+    };
+
+    // 1. Caller-supplied paths
+    for (const [label, path] of Object.entries(paths.compounds ?? {})) {
+      read(label, getPath(batch, path), "cannabinoid");
     }
 
-    return {
-      batchId,
-      batchName: String(batch.name || batch.strain || batchId),
-      cannabinoids,
-      totalCannabinoids: Array.from(cannabinoids.values()).reduce(
-        (sum, val) => sum + val,
-        0
-      ),
+    // 2. Compound arrays or name → value objects on the batch, its labResult or a COA
+    const containers = [batch, isRecord(batch.labResult) ? batch.labResult : undefined];
+    for (const container of containers) {
+      for (const kind of ["cannabinoid", "terpene"] as const) {
+        const list = container?.[kind === "cannabinoid" ? "cannabinoids" : "terpenes"];
+        if (Array.isArray(list)) {
+          for (const entry of list) {
+            if (!isRecord(entry)) continue;
+            const unit = typeof entry.unit === "string" ? parseUnitFromLabel(entry.unit) : undefined;
+            read(String(entry.name ?? "").trim(), this.entryValue(entry), kind, unit);
+          }
+        } else if (isRecord(list)) {
+          for (const [label, value] of Object.entries(list)) {
+            read(label, value, kind);
+          }
+        }
+      }
+    }
+
+    // 3. Top-level compound keys; other fields are batch metadata
+    const mappedKeys = new Set(
+      Object.values(paths.compounds ?? {}).map((path) => path.split(/[.[]/)[0])
+    );
+    for (const [key, value] of Object.entries(batch)) {
+      if (mappedKeys.has(key)) continue;
+      if (typeof value !== "number" && typeof value !== "string") continue;
+      if (!resolveCompoundName(key)) continue;
+      read(key, value, "cannabinoid");
+    }
+
+    const unit = options.targetUnit ?? "%";
+    const batchName = String(rawName || batchId);
+    const result: BatchJSONParseResult = {
+      profile: {
+        batchId,
+        batchName,
+        cannabinoids: cannabinoids.values,
+        totalCannabinoids: calculateTotalCannabinoids(cannabinoids.values),
+        unit,
+        measurements: cannabinoids.measurements,
+      },
+      diagnostics: diagnostics.build(),
     };
+
+    if (terpenes.measurements.size > 0) {
+      result.terpeneProfile = {
+        batchId,
+        batchName,
+        terpenes: terpenes.values,
+        totalTerpenes: Array.from(terpenes.values.values()).reduce(
+          (sum, val) => sum + val,
+          0
+        ),
+        unit,
+        measurements: terpenes.measurements,
+      };
+    }
+
+    return result;
   }
 
   /**
    * Parse array of batch JSON records
    */
   static parseBatchesJSON(
-    batches: Record<string, unknown>[]
+    batches: Record<string, unknown>[],
+    options: BatchJSONParserOptions = {}
   ): CannabinoidProfile[] {
-    return batches.map((batch) => this.parseBatchJSON(batch));
+    return this.parseBatchesJSONWithDiagnostics(batches, options).profiles;
+  }
+
+  /**
+   * Parse array of batch JSON records and report what was dropped;
+   * issue rows are array indices
+   */
+  static parseBatchesJSONWithDiagnostics(
+    batches: Record<string, unknown>[],
+    options: BatchJSONParserOptions = {}
+  ): BatchesJSONParseResult {
+    const diagnostics = new ParseDiagnosticsCollector(options.severityOverrides);
+    const seenIds = new Set<string>();
+    const terpeneProfiles: TerpeneProfile[] = [];
+
+    const profiles = batches.map((batch, row) => {
+      const result = this.parseBatchJSONWithDiagnostics(batch, options);
+      diagnostics.merge(result.diagnostics, row);
+
+      const { batchId } = result.profile;
+      if (batchId !== "unknown" && seenIds.has(batchId)) {
+        diagnostics.add("duplicate", `Batch "${batchId}" appears more than once`, {
+          row,
+          batchId,
+        });
+      }
+      seenIds.add(batchId);
+
+      if (result.terpeneProfile) terpeneProfiles.push(result.terpeneProfile);
+      return result.profile;
+    });
+
+    return { profiles, terpeneProfiles, diagnostics: diagnostics.build() };
+  }
+
+  /**
+   * Parse a CSV / TSV lab export
+   *
+   * Two layouts are recognized:
+   * - wide: one row per batch, one column per compound ("Δ9-THC (%)", "THCa mg/g", "beta-Myrcene")
+   * - long: one row per result, with compound/analyte and value/result columns
+   *
+   * Metadata columns (batch, product, strain, lab, test date, ...) are
+   * matched through `CSV_COLUMN_ALIASES`; a "Unit" column applies to
+   * compounds whose header names no unit. Issue rows are 0-based data rows
+   * (the header is not counted). parseMode is "cdes" for wide files and
+   * "standard" for long files.
+   */
+  static parseCSV(text: string, options: CSVParserOptions = {}): CSVParsedData {
+    const delimiter = options.delimiter ?? detectDelimiter(text);
+    const [header = [], ...rows] = parseDelimitedText(text, delimiter);
+    const diagnostics = new ParseDiagnosticsCollector(options.severityOverrides);
+    const profiles = new Map<string, BatchValues>();
+    const terpeneProfiles = new Map<string, BatchValues>();
+    const metadata = new Map<string, CSVBatchMetadata>();
+
+    const fields = new Map<CSVColumnField, number>();
+    const columns: Array<Omit<MeasureColumn, "unit"> & { unit?: CompoundUnit }> = [];
+    const unmappedColumns: UnmappedColumn[] = [];
+
+    header.forEach((label, index) => {
+      const field = resolveCSVColumn(label);
+      if (field) {
+        if (!fields.has(field)) fields.set(field, index);
+        return;
+      }
+      const resolved = resolveCompoundName(label);
+      if (resolved) {
+        columns.push({ index, name: resolved.name, kind: resolved.kind, unit: resolved.unit });
+      } else if (label.trim()) {
+        unmappedColumns.push({ index, displayName: label.trim() });
+      }
+    });
+
+    const isLong = fields.has("compound") && fields.has("value");
+    const batchColumn = fields.get("batchId") ?? fields.get("sampleId");
+    const unitColumn = fields.get("unit");
+
+    if (!isLong) {
+      for (const column of unmappedColumns) {
+        diagnostics.add(
+          "unknown-compound",
+          `Column "${column.displayName}" does not match any compound`,
+          { column: column.index, compound: column.displayName }
+        );
+      }
+    }
+
+    rows.forEach((row, i) => {
+      const batchId = this.readBatchId(
+        batchColumn === undefined ? undefined : row[batchColumn]?.trim(),
+        diagnostics,
+        i
+      );
+      if (batchId === undefined) return;
+
+      if (!metadata.has(batchId)) {
+        const batchMetadata: CSVBatchMetadata = {};
+        for (const [field, index] of fields) {
+          const value = row[index]?.trim();
+          if (value) batchMetadata[field] = value;
+        }
+        metadata.set(batchId, batchMetadata);
+        profiles.set(batchId, newBatchValues());
+      }
+
+      const rowUnit =
+        unitColumn === undefined ? undefined : parseUnitFromLabel(row[unitColumn] ?? "");
+
+      if (isLong) {
+        const compoundColumn = fields.get("compound")!;
+        const valueColumn = fields.get("value")!;
+        const label = row[compoundColumn]?.trim() ?? "";
+        const resolved = resolveCompoundName(label);
+        if (!resolved) {
+          diagnostics.add(
+            "unknown-compound",
+            label ? `Unrecognized compound "${label}"` : "Missing compound name",
+            { row: i, column: compoundColumn, batchId, compound: label },
+            true
+          );
+          return;
+        }
+
+        const location = { row: i, column: valueColumn, batchId, compound: resolved.name };
+        const cell = this.readCell(
+          row[valueColumn],
+          resolved.unit ?? rowUnit ?? "%",
+          options,
+          diagnostics,
+          location
+        );
+        if (!cell.ok && cell.issue) diagnostics.skipRow(i);
+
+        if (resolved.kind === "terpene" && !terpeneProfiles.has(batchId)) {
+          terpeneProfiles.set(batchId, newBatchValues());
+        }
+        const target = (resolved.kind === "terpene" ? terpeneProfiles : profiles).get(batchId)!;
+        this.storeCell(target, cell, diagnostics, { ...location, value: row[valueColumn] }, true);
+        return;
+      }
+
+      for (const column of columns) {
+        const location = { row: i, column: column.index, batchId, compound: column.name };
+        const cell = this.readCell(
+          row[column.index],
+          column.unit ?? rowUnit ?? "%",
+          options,
+          diagnostics,
+          location
+        );
+
+        if (column.kind === "terpene" && !terpeneProfiles.has(batchId)) {
+          terpeneProfiles.set(batchId, newBatchValues());
+        }
+        const target = (column.kind === "terpene" ? terpeneProfiles : profiles).get(batchId)!;
+        this.storeCell(target, cell, diagnostics, { ...location, value: row[column.index] });
+      }
+    });
+
+    const parsed = this.buildParsedData(
+      profiles,
+      terpeneProfiles,
+      isLong ? "standard" : "cdes",
+      rows.length,
+      options,
+      diagnostics
+    );
+
+    const coas = parsed.profiles.map((profile) => {
+      const batchMetadata = metadata.get(profile.batchId) ?? {};
+      profile.batchName =
+        batchMetadata.strainName ?? batchMetadata.productName ?? profile.batchId;
+      const terpeneProfile = parsed.terpeneProfiles?.find((t) => t.batchId === profile.batchId);
+      if (terpeneProfile) terpeneProfile.batchName = profile.batchName;
+      return this.buildCOA(profile, terpeneProfile, batchMetadata, options, diagnostics);
+    });
+
+    return {
+      ...parsed,
+      ...(isLong ? {} : { unmappedColumns }),
+      // Rebuilt: building the COAs can add issues
+      diagnostics: diagnostics.build(),
+      coas,
+      delimiter,
+    };
+  }
+
+  /**
+   * Build a COA for one CSV batch; non-detects are kept as 0 with their
+   * measurement, and the safety verdict is left pending. Potency is left
+   * not-tested (with a "unit-conversion" issue) when mg values cannot be
+   * converted to %.
+   */
+  private static buildCOA(
+    profile: CannabinoidProfile,
+    terpeneProfile: TerpeneProfile | undefined,
+    metadata: CSVBatchMetadata,
+    options: CDESParserOptions,
+    diagnostics: ParseDiagnosticsCollector
+  ): COA {
+    const unit = profile.unit ?? "%";
+    const toCompounds = (
+      values: Map<string, number>,
+      measurements: Map<string, MeasuredValue> | undefined
+    ): Cannabinoid[] =>
+      Array.from(measurements ?? new Map<string, MeasuredValue>(), ([name, measurement]) => ({
+        name,
+        percentage: values.get(name) ?? 0,
+        unit,
+        measurement,
+      }));
+
+    const cannabinoids = toCompounds(profile.cannabinoids, profile.measurements);
+    const terpenes = terpeneProfile
+      ? toCompounds(terpeneProfile.terpenes, terpeneProfile.measurements)
+      : [];
+    let potencyResults: COA["potencyResults"] = { status: "not-tested" };
+    if (canConvertUnits(unit, "%", options.unitContext)) {
+      potencyResults = calculatePotency(
+        cannabinoids.filter((c) => c.measurement?.state !== "not-tested"),
+        options.unitContext
+      ).results;
+    } else {
+      diagnostics.add(
+        "unit-conversion",
+        `Cannot calculate potency for batch "${profile.batchId}": cannot convert ${unit} to % without a unit context`,
+        { batchId: profile.batchId }
+      );
+    }
+
+    const coa: COA = {
+      id: metadata.coaNumber ?? metadata.sampleId ?? profile.batchId,
+      lab: { name: metadata.labName ?? "Unknown" },
+      sample: {
+        batchNumber: profile.batchId,
+        productName: metadata.productName ?? metadata.strainName ?? profile.batchId,
+      },
+      overallStatus: "pending",
+      cannabinoids,
+      terpenes,
+      potencyResults,
+    };
+
+    if (metadata.coaNumber) coa.coaNumber = metadata.coaNumber;
+    if (metadata.sampleId) coa.sample.sampleId = metadata.sampleId;
+    if (metadata.strainName) coa.sample.strainName = metadata.strainName;
+    if (metadata.testedDate) coa.sample.testedDate = metadata.testedDate;
+    const productType = PRODUCT_TYPES.find((t) => t === metadata.productType?.toLowerCase());
+    if (productType) coa.sample.productType = productType;
+
+    return coa;
+  }
+
+  /**
+   * Store a read cell on its batch; when the compound was already reported
+   * for the batch, the first value is kept and a duplicate is flagged
+   */
+  private static storeCell(
+    target: BatchValues,
+    cell: CellResult,
+    diagnostics: ParseDiagnosticsCollector,
+    location: ParseIssueLocation & { batchId: string; compound: string },
+    skipRowOnDuplicate = false
+  ): void {
+    if (!cell.measurement) return;
+
+    const { batchId, compound } = location;
+    if (target.measurements.has(compound)) {
+      diagnostics.add(
+        "duplicate",
+        `Duplicate ${compound} value for batch "${batchId}"; keeping the first`,
+        location,
+        skipRowOnDuplicate
+      );
+      return;
+    }
+
+    target.measurements.set(compound, cell.measurement);
+    if (cell.ok && cell.value > 0) {
+      target.values.set(compound, cell.value);
+    }
+  }
+
+  /**
+   * Raw value of a `{ name, percentage }` compound entry; a non-detect
+   * `measurement` is re-read from its printed form. Malformed measurements
+   * are ignored in favour of the entry's value.
+   */
+  private static entryValue(entry: Record<string, unknown>): unknown {
+    const measurement = entry.measurement;
+    if (isMeasuredValue(measurement) && measurement.state !== "detected") {
+      return measurement.raw ?? formatMeasuredValue(measurement);
+    }
+    return entry.percentage ?? entry.value ?? entry.result;
+  }
+
+  /**
+   * Unit named in a measure/field label, defaulting to %
+   */
+  private static columnUnit(label: string | undefined): CompoundUnit {
+    return (label && parseUnitFromLabel(label)) || "%";
+  }
+
+  /**
+   * Read a batch id cell; blank ids are reported and the row is skipped
+   */
+  private static readBatchId(
+    raw: unknown,
+    diagnostics: ParseDiagnosticsCollector,
+    row: number
+  ): string | undefined {
+    if (raw === null || raw === undefined || String(raw).trim() === "") {
+      diagnostics.add("missing-batch-id", "Row has no batch id", { row }, true);
+      return undefined;
+    }
+    return String(raw);
+  }
+
+  /**
+   * Read a cell as a MeasuredValue and convert it to the target unit.
+   * Blank cells are not an issue; unrecognized text, negative numbers and
+   * unconvertible values are reported. Non-detects ("ND", "<LOQ", "Trace")
+   * come back with a measurement but no value.
+   */
+  private static readCell(
+    raw: unknown,
+    sourceUnit: CompoundUnit,
+    options: CDESParserOptions,
+    diagnostics: ParseDiagnosticsCollector,
+    location: ParseIssueLocation
+  ): CellResult {
+    if (raw === null || raw === undefined || (typeof raw === "string" && raw.trim() === "")) {
+      return { ok: false, issue: false };
+    }
+
+    const parsed = parseMeasuredValue(raw);
+    if (!parsed) {
+      diagnostics.add(
+        "non-numeric",
+        `Value ${JSON.stringify(raw)} for ${location.compound ?? "compound"} is not a number`,
+        { ...location, value: raw }
+      );
+      return { ok: false, issue: true };
+    }
+
+    if (parsed.value !== undefined && parsed.value < 0) {
+      diagnostics.add(
+        "negative-value",
+        `Negative value ${parsed.value} for ${location.compound ?? "compound"}`,
+        { ...location, value: raw }
+      );
+      return { ok: false, issue: true };
+    }
+
+    const targetUnit = options.targetUnit ?? "%";
+    const context = options.unitContext ?? {};
+    const needsConversion =
+      parsed.value !== undefined || parsed.lod !== undefined || parsed.loq !== undefined;
+    if (needsConversion && !canConvertUnits(sourceUnit, targetUnit, context)) {
+      diagnostics.add(
+        "unit-conversion",
+        `Cannot convert ${sourceUnit} to ${targetUnit} without a unit context`,
+        { ...location, value: raw }
+      );
+      return { ok: false, issue: true };
+    }
+
+    const measurement = convertMeasuredValue(parsed, sourceUnit, targetUnit, context);
+    if (measurement.state === "detected" && measurement.value !== undefined) {
+      return { ok: true, value: measurement.value, measurement };
+    }
+    return { ok: false, issue: false, measurement };
   }
 }
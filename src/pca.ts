@@ -0,0 +1,242 @@
+/**
+ * CDES Compositional PCA
+ * Project CLR terpene coordinates to a few principal components for
+ * scatter plots and biplots
+ *
+ * Profiles are CLR-transformed over FIXED_TERPENE_ORDER, centred, and
+ * decomposed with the Jacobi eigenvalue method. Results are deterministic:
+ * components are sorted by explained variance and each is signed so that
+ * its largest loading is positive, so axes do not flip between refreshes.
+ *
+ * Models are plain JSON; `projectPCA` places new profiles in the same space.
+ *
+ * @module pca
+ */
+
+import { TerpeneProfile } from "./models";
+import { isTerpeneProfile } from "./inputs";
+import {
+  computeClrCoordinates,
+  FIXED_TERPENE_ORDER,
+  TERPENE_NAMES,
+  toRatioTerpeneValues,
+} from "./ratioAnalysis";
+import { normalizeTerpeneProfile, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Options for `fitCompositionalPCA` */
+export interface PCAOptions {
+  /** Components to keep (default: 2) */
+  components?: number;
+  /** Product context for profiles reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+/** Terpene values `projectPCA` accepts */
+export type PCAInput = TerpeneProfile | Map<string, number> | Record<string, number>;
+
+/** Loading of one terpene on each component, for biplot arrows */
+export interface PCALoading {
+  /** Ratio-analysis key, e.g. "myrcene" */
+  key: string;
+  /** Display name, e.g. "β-Myrcene" */
+  terpene: string;
+  /** Eigenvector weight per component */
+  values: number[];
+}
+
+/** Position of one profile on each component */
+export interface PCAScore {
+  batchId: string;
+  values: number[];
+}
+
+/** Fitted compositional PCA */
+export interface CompositionalPCA {
+  /** Ratio-analysis keys of the CLR coordinates */
+  terpenePanel: string[];
+  /** Mean CLR coordinate per key, subtracted before projecting */
+  mean: Record<string, number>;
+  /** Variance along each kept component */
+  explainedVariance: number[];
+  /** Share of the total CLR variance along each kept component */
+  explainedVarianceRatio: number[];
+  loadings: PCALoading[];
+  /** Scores of the training profiles, in input order */
+  scores: PCAScore[];
+  /** batchIds left out because they have no FIXED_TERPENE_ORDER terpene */
+  skipped: string[];
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function clrVector(terpenes: PCAInput, unitContext: UnitContext): number[] | null {
+  const values = isTerpeneProfile(terpenes)
+    ? toRatioTerpeneValues(normalizeTerpeneProfile(terpenes, "%", unitContext).terpenes)
+    : toRatioTerpeneValues(terpenes);
+  if (!Object.values(values).some((v) => v > 0)) return null;
+
+  const clr = computeClrCoordinates(values);
+  return FIXED_TERPENE_ORDER.map((key) => clr[key]);
+}
+
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations
+ *
+ * @returns Eigenvalues and eigenvectors (as columns of `vectors`)
+ */
+function jacobiEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v: number[][] = a.map((_, i) => a.map((__, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] ** 2;
+    }
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+function project(vector: number[], mean: number[], loadings: PCALoading[], components: number): number[] {
+  return Array.from({ length: components }, (_, c) =>
+    vector.reduce((sum, x, i) => sum + (x - mean[i]) * loadings[i].values[c], 0)
+  );
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Fit a PCA on the CLR coordinates of many terpene profiles.
+ *
+ * @param profiles - Terpene profiles (at least two with ratio terpenes)
+ * @param options - Number of components and unit context
+ * @returns Scores, loadings and explained variance
+ * @throws Error if fewer than two profiles have terpene data
+ */
+export function fitCompositionalPCA(
+  profiles: TerpeneProfile[],
+  options: PCAOptions = {}
+): CompositionalPCA {
+  const unitContext = options.unitContext ?? {};
+  const rows: Array<{ batchId: string; vector: number[] }> = [];
+  const skipped: string[] = [];
+
+  for (const profile of profiles) {
+    const vector = clrVector(profile, unitContext);
+    if (vector) rows.push({ batchId: profile.batchId, vector });
+    else skipped.push(profile.batchId);
+  }
+  if (rows.length < 2) {
+    throw new Error("Cannot fit PCA: need at least two profiles with terpene data");
+  }
+
+  const dims = FIXED_TERPENE_ORDER.length;
+  const components = Math.max(1, Math.min(dims, Math.round(options.components ?? 2)));
+  const mean = Array.from({ length: dims }, (_, i) =>
+    rows.reduce((sum, row) => sum + row.vector[i], 0) / rows.length
+  );
+
+  const covariance = Array.from({ length: dims }, (_, i) =>
+    Array.from({ length: dims }, (__, j) =>
+      rows.reduce((sum, { vector }) => sum + (vector[i] - mean[i]) * (vector[j] - mean[j]), 0) /
+      (rows.length - 1)
+    )
+  );
+
+  const { values, vectors } = jacobiEigen(covariance);
+  const order = values
+    .map((value, index) => ({ value: Math.max(0, value), index }))
+    .sort((a, b) => b.value - a.value || a.index - b.index)
+    .slice(0, components);
+
+  // Sign convention: the largest-magnitude loading of each component is positive
+  const axes = order.map(({ index }) => {
+    const axis = vectors.map((row) => row[index]);
+    let largest = 0;
+    axis.forEach((x, i) => {
+      if (Math.abs(x) > Math.abs(axis[largest]) + 1e-12) largest = i;
+    });
+    return axis[largest] < 0 ? axis.map((x) => -x) : axis;
+  });
+
+  const totalVariance = values.reduce((sum, value) => sum + Math.max(0, value), 0);
+  const loadings: PCALoading[] = FIXED_TERPENE_ORDER.map((key, i) => ({
+    key,
+    terpene: TERPENE_NAMES[key] ?? key,
+    values: axes.map((axis) => axis[i]),
+  }));
+
+  return {
+    terpenePanel: [...FIXED_TERPENE_ORDER],
+    mean: Object.fromEntries(FIXED_TERPENE_ORDER.map((key, i) => [key, mean[i]])),
+    explainedVariance: order.map(({ value }) => value),
+    explainedVarianceRatio: order.map(({ value }) => (totalVariance > 0 ? value / totalVariance : 0)),
+    loadings,
+    scores: rows.map(({ batchId, vector }) => ({
+      batchId,
+      values: project(vector, mean, loadings, components),
+    })),
+    skipped,
+  };
+}
+
+/**
+ * Project a new profile onto a fitted PCA.
+ *
+ * @param model - Result of `fitCompositionalPCA`
+ * @param terpenes - Terpene profile, Map or record of terpene name to %
+ * @param unitContext - Product context for profiles reported in `mg`
+ * @returns Score per component, or null without ratio terpenes
+ */
+export function projectPCA(
+  model: CompositionalPCA,
+  terpenes: PCAInput,
+  unitContext: UnitContext = {}
+): number[] | null {
+  const vector = clrVector(terpenes, unitContext);
+  if (!vector) return null;
+
+  const mean = model.terpenePanel.map((key) => model.mean[key]);
+  return project(vector, mean, model.loadings, model.explainedVariance.length);
+}
@@ -0,0 +1,199 @@
+/**
+ * CDES Potency Calculations
+ * Total THC / Total CBD from acid and neutral cannabinoid forms
+ *
+ * Total THC = THC + 0.877 × THCA
+ * Total CBD = CBD + 0.877 × CBDA
+ * Total CBG = CBG + 0.878 × CBGA
+ *
+ * The factors are the molecular-weight ratios of the neutral form to its
+ * acid precursor (CO2 is lost on decarboxylation).
+ *
+ * @module potency
+ */
+
+import { Cannabinoid, PotencyResults } from "./models";
+import { measuredCannabinoidName } from "./inputs";
+import { normalizeCompounds, UnitContext } from "./units";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Decarboxylation factors (neutral MW / acid MW) for acid cannabinoids */
+export const DECARBOXYLATION_FACTORS: Record<string, number> = {
+  THCA: 0.877,
+  CBDA: 0.877,
+  CBGA: 0.878,
+};
+
+/** Neutral cannabinoid produced by each acid form */
+export const ACID_TO_NEUTRAL: Record<string, string> = {
+  THCA: "THC",
+  CBDA: "CBD",
+  CBGA: "CBG",
+};
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** One term of a potency total, e.g. `0.877 × THCA` */
+export interface PotencyTerm {
+  compound: string;
+  value: number;
+  factor: number;
+  contribution: number;
+}
+
+/** A computed total together with the math that produced it */
+export interface PotencyTotal {
+  value: number;
+  terms: PotencyTerm[];
+  /** Human-readable formula, e.g. "THC 0.50% + 0.877 × THCA 24.00% = 21.55%" */
+  formula: string;
+}
+
+/** Filled-in PotencyResults plus the breakdown of each total */
+export interface PotencyCalculation {
+  results: PotencyResults;
+  totalThc: PotencyTotal;
+  totalCbd: PotencyTotal;
+  totalCbg: PotencyTotal;
+  totalCannabinoids: PotencyTotal;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Cannabinoid amounts by canonical name. Summary rows ("Total THC",
+ * "Total Cannabinoids") and unrecognized names are skipped, and the first
+ * value of a compound wins.
+ */
+function toCannabinoidMap(
+  input: Cannabinoid[] | Map<string, number>,
+  unitContext: UnitContext
+): Map<string, number> {
+  const values = new Map<string, number>();
+  const entries: Array<[string, number]> = input instanceof Map
+    ? Array.from(input.entries())
+    : normalizeCompounds(input, "%", unitContext).map((c) => [c.name, c.percentage]);
+
+  for (const [name, value] of entries) {
+    if (typeof value !== "number" || !Number.isFinite(value)) continue;
+    const key = measuredCannabinoidName(name);
+    if (key !== undefined && !values.has(key)) values.set(key, value);
+  }
+  return values;
+}
+
+function formatTerm(term: PotencyTerm): string {
+  const amount = `${term.compound} ${term.value.toFixed(2)}%`;
+  return term.factor === 1 ? amount : `${term.factor} × ${amount}`;
+}
+
+function buildTotal(terms: PotencyTerm[]): PotencyTotal {
+  const value = round(
+    terms.reduce((sum, t) => sum + t.contribution, 0),
+    4
+  );
+  const formula = terms.length > 0
+    ? `${terms.map(formatTerm).join(" + ")} = ${value.toFixed(2)}%`
+    : "No data";
+  return { value, terms, formula };
+}
+
+function neutralTotal(values: Map<string, number>, neutral: string): PotencyTotal {
+  const terms: PotencyTerm[] = [];
+
+  const neutralValue = values.get(neutral);
+  if (neutralValue !== undefined) {
+    terms.push({
+      compound: neutral,
+      value: neutralValue,
+      factor: 1,
+      contribution: neutralValue,
+    });
+  }
+
+  for (const [acid, target] of Object.entries(ACID_TO_NEUTRAL)) {
+    if (target !== neutral) continue;
+    const acidValue = values.get(acid);
+    if (acidValue === undefined) continue;
+    const factor = DECARBOXYLATION_FACTORS[acid];
+    terms.push({
+      compound: acid,
+      value: acidValue,
+      factor,
+      contribution: acidValue * factor,
+    });
+  }
+
+  return buildTotal(terms);
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Convert an acid cannabinoid amount to its neutral-form equivalent.
+ *
+ * @param name - Cannabinoid name (e.g. "THCA")
+ * @param value - Measured amount
+ * @returns Decarboxylated amount; unchanged if the compound is not an acid form
+ */
+export function decarboxylate(name: string, value: number): number {
+  const key = measuredCannabinoidName(name);
+  const factor = key === undefined ? undefined : DECARBOXYLATION_FACTORS[key];
+  return factor ? value * factor : value;
+}
+
+/**
+ * Compute Total THC, Total CBD, Total CBG and Total Cannabinoids.
+ *
+ * Total Cannabinoids is the plain sum of every recognized cannabinoid, as
+ * printed on most COAs. Summary rows such as "Total THC" are not compounds
+ * and are left out. Array entries are converted to % first; Map input
+ * is assumed to already be in %.
+ *
+ * @param input - Cannabinoid array (from a LabResult/COA) or a profile Map (name → %)
+ * @param unitContext - Product context for entries reported in `mg`
+ * @returns PotencyResults plus the terms and formula behind each total
+ */
+export function calculatePotency(
+  input: Cannabinoid[] | Map<string, number>,
+  unitContext: UnitContext = {}
+): PotencyCalculation {
+  const values = toCannabinoidMap(input, unitContext);
+
+  const totalThc = neutralTotal(values, "THC");
+  const totalCbd = neutralTotal(values, "CBD");
+  const totalCbg = neutralTotal(values, "CBG");
+  const totalCannabinoids = buildTotal(
+    Array.from(values.entries()).map(([compound, value]) => ({
+      compound,
+      value,
+      factor: 1,
+      contribution: value,
+    }))
+  );
+
+  const results: PotencyResults = {
+    status: values.size > 0 ? "pass" : "not-tested",
+  };
+  if (totalThc.terms.length > 0) results.totalThc = totalThc.value;
+  if (totalCbd.terms.length > 0) results.totalCbd = totalCbd.value;
+  if (totalCannabinoids.terms.length > 0) {
+    results.totalCannabinoids = totalCannabinoids.value;
+  }
+
+  return { results, totalThc, totalCbd, totalCbg, totalCannabinoids };
+}
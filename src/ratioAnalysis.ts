@@ -13,6 +13,8 @@
  * CDES Standard: Cannabis Data Exchange Standard v1.5
  */
 
+import { normalizeTerpeneName } from "./terpenes";
+
 // =============================================================================
 // ENUMERATIONS
 // =============================================================================
@@ -71,18 +73,6 @@ export const FIXED_TERPENE_ORDER: string[] = [
   "humulene", "terpinolene", "ocimene", "bisabolol",
 ];
 
-/** Archetype centroids (CLR coordinates) - trained from Terprint data */
-const ARCHETYPE_CENTROIDS: Partial<Record<TerpeneArchetype, Record<string, number>>> = {
-  [TerpeneArchetype.ARCH_MYR]: { myrcene: 1.2, limonene: -0.3, caryophyllene: -0.4, pinene: -0.5, linalool: -0.2, humulene: -0.6, terpinolene: -0.8, ocimene: -0.7, bisabolol: -0.5 },
-  [TerpeneArchetype.ARCH_LIM]: { myrcene: -0.2, limonene: 1.1, caryophyllene: -0.2, pinene: 0.3, linalool: -0.4, humulene: -0.5, terpinolene: 0.2, ocimene: -0.3, bisabolol: -0.4 },
-  [TerpeneArchetype.ARCH_BAL]: { myrcene: 0.3, limonene: 0.2, caryophyllene: 0.2, pinene: 0.1, linalool: 0.1, humulene: -0.1, terpinolene: -0.2, ocimene: -0.2, bisabolol: -0.1 },
-  [TerpeneArchetype.ARCH_PIN]: { myrcene: -0.4, limonene: 0.2, caryophyllene: -0.3, pinene: 1.0, linalool: -0.3, humulene: -0.4, terpinolene: 0.1, ocimene: -0.2, bisabolol: -0.3 },
-  [TerpeneArchetype.ARCH_CAR]: { myrcene: -0.3, limonene: -0.4, caryophyllene: 1.0, pinene: -0.2, linalool: 0.2, humulene: 0.6, terpinolene: -0.5, ocimene: -0.4, bisabolol: -0.3 },
-  [TerpeneArchetype.ARCH_TER]: { myrcene: -0.5, limonene: -0.3, caryophyllene: -0.4, pinene: 0.2, linalool: -0.3, humulene: -0.5, terpinolene: 1.3, ocimene: 0.1, bisabolol: -0.4 },
-  [TerpeneArchetype.ARCH_LIN]: { myrcene: 0.2, limonene: -0.2, caryophyllene: 0.1, pinene: -0.3, linalool: 1.0, humulene: -0.2, terpinolene: -0.4, ocimene: -0.3, bisabolol: 0.3 },
-  [TerpeneArchetype.ARCH_OCI]: { myrcene: -0.3, limonene: -0.2, caryophyllene: -0.3, pinene: -0.2, linalool: -0.2, humulene: -0.4, terpinolene: 0.2, ocimene: 1.1, bisabolol: -0.2 },
-};
-
 // =============================================================================
 // INTERFACES
 // =============================================================================
@@ -106,14 +96,36 @@ export interface RatioSignature {
 }
 
 /** CDES v1.5: Archetype classification results. */
-export interface ArchetypeClassification {
-  primaryArchetype: TerpeneArchetype;
+export interface ArchetypeClassification<L extends string = TerpeneArchetype> {
+  primaryArchetype: L | TerpeneArchetype.ARCH_UNK;
   archetypeConfidence: number;
   archetypeDistances: Record<string, number>;
 }
 
+/** Provenance of an archetype model. */
+export interface ArchetypeModelMetadata {
+  version: string;
+  /** Profiles the centroids were fitted on (null if unknown) */
+  trainingSize: number | null;
+  /** ISO 8601 training date (null if unknown) */
+  trainedAt: string | null;
+  /** Ratio-analysis terpene keys the centroids cover, e.g. FIXED_TERPENE_ORDER */
+  terpenePanel: string[];
+  /** Profiles per archetype, when known */
+  sampleCounts?: Record<string, number>;
+  source?: string;
+  description?: string;
+}
+
+/** Archetype centroids in CLR space, with their metadata. Plain JSON. */
+export interface ArchetypeModel<L extends string = TerpeneArchetype> {
+  metadata: ArchetypeModelMetadata;
+  /** Archetype label → CLR centroid keyed by terpene panel key */
+  centroids: Partial<Record<L, Record<string, number>>>;
+}
+
 /** CDES v1.5: Computed ratio analysis metrics for terpene profiles. */
-export interface TerpeneRatioMetrics {
+export interface TerpeneRatioMetrics<L extends string = TerpeneArchetype> {
   dominanceIndex: number;
   dominanceLevel: DominanceLevel;
   balanceScore: number;
@@ -124,7 +136,7 @@ export interface TerpeneRatioMetrics {
   ratioSignature: RatioSignature | null;
   clrCoordinates: Record<string, number>;
   keyRatios: Record<string, number>;
-  archetypeClassification: ArchetypeClassification | null;
+  archetypeClassification: ArchetypeClassification<L> | null;
 }
 
 /** Human-readable archetype description. */
@@ -135,6 +147,31 @@ export interface ArchetypeDescription {
   signaturePattern: string;
 }
 
+// =============================================================================
+// BUILT-IN MODEL
+// =============================================================================
+
+/** Built-in archetype model; centroids (CLR coordinates) trained from Terprint data */
+export const DEFAULT_ARCHETYPE_MODEL: ArchetypeModel = {
+  metadata: {
+    version: "1.5.0",
+    trainingSize: null,
+    trainedAt: null,
+    terpenePanel: [...FIXED_TERPENE_ORDER],
+    source: "Terprint",
+  },
+  centroids: {
+    [TerpeneArchetype.ARCH_MYR]: { myrcene: 1.2, limonene: -0.3, caryophyllene: -0.4, pinene: -0.5, linalool: -0.2, humulene: -0.6, terpinolene: -0.8, ocimene: -0.7, bisabolol: -0.5 },
+    [TerpeneArchetype.ARCH_LIM]: { myrcene: -0.2, limonene: 1.1, caryophyllene: -0.2, pinene: 0.3, linalool: -0.4, humulene: -0.5, terpinolene: 0.2, ocimene: -0.3, bisabolol: -0.4 },
+    [TerpeneArchetype.ARCH_BAL]: { myrcene: 0.3, limonene: 0.2, caryophyllene: 0.2, pinene: 0.1, linalool: 0.1, humulene: -0.1, terpinolene: -0.2, ocimene: -0.2, bisabolol: -0.1 },
+    [TerpeneArchetype.ARCH_PIN]: { myrcene: -0.4, limonene: 0.2, caryophyllene: -0.3, pinene: 1.0, linalool: -0.3, humulene: -0.4, terpinolene: 0.1, ocimene: -0.2, bisabolol: -0.3 },
+    [TerpeneArchetype.ARCH_CAR]: { myrcene: -0.3, limonene: -0.4, caryophyllene: 1.0, pinene: -0.2, linalool: 0.2, humulene: 0.6, terpinolene: -0.5, ocimene: -0.4, bisabolol: -0.3 },
+    [TerpeneArchetype.ARCH_TER]: { myrcene: -0.5, limonene: -0.3, caryophyllene: -0.4, pinene: 0.2, linalool: -0.3, humulene: -0.5, terpinolene: 1.3, ocimene: 0.1, bisabolol: -0.4 },
+    [TerpeneArchetype.ARCH_LIN]: { myrcene: 0.2, limonene: -0.2, caryophyllene: 0.1, pinene: -0.3, linalool: 1.0, humulene: -0.2, terpinolene: -0.4, ocimene: -0.3, bisabolol: 0.3 },
+    [TerpeneArchetype.ARCH_OCI]: { myrcene: -0.3, limonene: -0.2, caryophyllene: -0.3, pinene: -0.2, linalool: -0.2, humulene: -0.4, terpinolene: 0.2, ocimene: 1.1, bisabolol: -0.2 },
+  },
+};
+
 // =============================================================================
 // INTERNAL HELPERS
 // =============================================================================
@@ -184,10 +221,11 @@ function computeClr(values: number[]): number[] {
 /** Compute Aitchison distance between two CLR coordinate sets. */
 function aitchisonDistance(
   clr1: Record<string, number>,
-  clr2: Record<string, number>
+  clr2: Record<string, number>,
+  panel: string[] = FIXED_TERPENE_ORDER
 ): number {
   let squaredDiffSum = 0;
-  for (const key of FIXED_TERPENE_ORDER) {
+  for (const key of panel) {
     const diff = (clr1[key] ?? 0) - (clr2[key] ?? 0);
     squaredDiffSum += diff * diff;
   }
@@ -203,6 +241,45 @@ function round(value: number, decimals: number): number {
 // PUBLIC FUNCTIONS
 // =============================================================================
 
+/**
+ * Centered log-ratio transform of any composition, after multiplicative
+ * replacement of zeros.
+ *
+ * @param values - Non-negative parts (any scale; the composition is closed first)
+ * @param delta - Replacement value for zero parts, as a fraction of the whole
+ * @returns CLR coordinates in the same order
+ */
+export function clrTransform(values: number[], delta = 0.001): number[] {
+  return computeClr(prepareForClr(values, delta));
+}
+
+/**
+ * Re-key a terpene profile by the ratio-analysis keys of FIXED_TERPENE_ORDER.
+ *
+ * Any name `normalizeTerpeneName` recognizes ("beta-Myrcene", "β-Myrcene",
+ * "Limonene") is accepted; terpenes outside FIXED_TERPENE_ORDER are dropped.
+ *
+ * @param terpenes - Map or record of terpene name to concentration (%)
+ * @returns Concentrations keyed by "myrcene", "limonene", ...
+ */
+export function toRatioTerpeneValues(
+  terpenes: Map<string, number> | Record<string, number>
+): Record<string, number> {
+  const keysByName = new Map(
+    FIXED_TERPENE_ORDER.map((key) => [TERPENE_NAMES[key], key])
+  );
+  const entries = terpenes instanceof Map ? terpenes.entries() : Object.entries(terpenes);
+
+  const result: Record<string, number> = {};
+  for (const [name, value] of entries) {
+    const key = FIXED_TERPENE_ORDER.includes(name)
+      ? name
+      : keysByName.get(normalizeTerpeneName(name));
+    if (key) result[key] = (result[key] ?? 0) + value;
+  }
+  return result;
+}
+
 /**
  * Compute CLR coordinates for a terpene profile.
  *
@@ -227,11 +304,24 @@ export function computeClrCoordinates(
  * Compute all CDES v1.5 ratio metrics for a terpene profile.
  *
  * @param terpeneValues - Map of terpene name to concentration (%)
+ * @param model - Archetype model used for classification (default: DEFAULT_ARCHETYPE_MODEL)
  * @returns TerpeneRatioMetrics with all computed values
  */
 export function computeRatioMetrics(
   terpeneValues: Record<string, number>
-): TerpeneRatioMetrics {
+): TerpeneRatioMetrics;
+export function computeRatioMetrics<L extends string>(
+  terpeneValues: Record<string, number>,
+  model: ArchetypeModel<L>
+): TerpeneRatioMetrics<L>;
+export function computeRatioMetrics<L extends string>(
+  terpeneValues: Record<string, number>,
+  model?: ArchetypeModel<L>
+): TerpeneRatioMetrics<L | TerpeneArchetype>;
+export function computeRatioMetrics(
+  terpeneValues: Record<string, number>,
+  model?: ArchetypeModel<string>
+): TerpeneRatioMetrics<string> {
   // Get values in fixed order
   const values: Array<[string, number]> = FIXED_TERPENE_ORDER.map((t) => [
     t,
@@ -345,7 +435,7 @@ export function computeRatioMetrics(
   };
 
   // Classify archetype
-  const archetypeClassification = classifyArchetype(clrCoords);
+  const archetypeClassification = classifyArchetype(clrCoords, model);
 
   return {
     dominanceIndex: round(dominanceIndex, 4),
@@ -366,18 +456,32 @@ export function computeRatioMetrics(
  * Classify a terpene profile into an archetype based on CLR coordinates.
  *
  * @param clrCoordinates - CLR-transformed coordinates
+ * @param model - Archetype centroids (default: DEFAULT_ARCHETYPE_MODEL)
  * @returns ArchetypeClassification with primary archetype and confidence
  */
 export function classifyArchetype(
   clrCoordinates: Record<string, number>
-): ArchetypeClassification {
+): ArchetypeClassification;
+export function classifyArchetype<L extends string>(
+  clrCoordinates: Record<string, number>,
+  model: ArchetypeModel<L>
+): ArchetypeClassification<L>;
+export function classifyArchetype<L extends string>(
+  clrCoordinates: Record<string, number>,
+  model?: ArchetypeModel<L>
+): ArchetypeClassification<L | TerpeneArchetype>;
+export function classifyArchetype(
+  clrCoordinates: Record<string, number>,
+  model: ArchetypeModel<string> = DEFAULT_ARCHETYPE_MODEL
+): ArchetypeClassification<string> {
   const distances: Record<string, number> = {};
 
-  for (const archetype of Object.values(TerpeneArchetype)) {
-    if (archetype === TerpeneArchetype.ARCH_UNK) continue;
-    const centroid = ARCHETYPE_CENTROIDS[archetype];
+  for (const [archetype, centroid] of Object.entries(model.centroids)) {
     if (centroid) {
-      distances[archetype] = round(aitchisonDistance(clrCoordinates, centroid), 4);
+      distances[archetype] = round(
+        aitchisonDistance(clrCoordinates, centroid, model.metadata.terpenePanel),
+        4
+      );
     }
   }
 
@@ -385,11 +489,11 @@ export function classifyArchetype(
     ([, a], [, b]) => a - b
   );
 
-  let primaryArchetype = TerpeneArchetype.ARCH_UNK;
+  let primaryArchetype: string = TerpeneArchetype.ARCH_UNK;
   let confidence = 0;
 
   if (sortedDistances.length >= 2) {
-    primaryArchetype = sortedDistances[0][0] as TerpeneArchetype;
+    primaryArchetype = sortedDistances[0][0];
     const primaryDist = sortedDistances[0][1];
     const secondDist = sortedDistances[1][1];
 
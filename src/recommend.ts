@@ -0,0 +1,332 @@
+/**
+ * CDES Recommendations
+ * Rank batches by how well their cannabinoids and terpenes match desired
+ * effects and steer clear of avoided ones
+ *
+ * Effect labels are parsed into a target and a direction: "Anti-anxiety",
+ * "Pain Relief" and "Appetite Suppression" reduce their target, and in
+ * therapeutic data a bare symptom ("Nausea", "Seizures") means it is
+ * treated. A desired "sleep" is matched by "Sleep" and "Sedation"; an
+ * avoided "anxiety" is helped by "Anti-anxiety" and hurt by effects that
+ * cause anxiety.
+ *
+ * Each matching effect contributes
+ *   ± evidence weight × value / (value + halfSaturation)
+ * so higher concentrations count more, with diminishing returns. Acid
+ * cannabinoids are counted as their decarboxylated form.
+ *
+ * Effect data comes from STANDARD_CANNABINOIDS / STANDARD_TERPENES, or from
+ * reference libraries (`fetchTerpeneLibrary`, `fetchCannabinoidLibrary`)
+ * whose strength and evidence levels set the weights.
+ *
+ * @module recommend
+ */
+
+import { Batch } from "./models";
+import { STANDARD_CANNABINOIDS } from "./cannabinoids";
+import { canonicalCannabinoidName, inputCompounds, measuredCannabinoidName } from "./inputs";
+import { normalizeTerpeneName, STANDARD_TERPENES } from "./terpenes";
+import { ACID_TO_NEUTRAL, DECARBOXYLATION_FACTORS } from "./potency";
+import { CannabinoidRef, TerpeneRef } from "./reference";
+import { UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Effects to look for and to stay away from, e.g. `{ desired: ["sleep"], avoid: ["anxiety"] }` */
+export interface EffectRequest {
+  desired: string[];
+  avoid?: string[];
+}
+
+/** Options for `recommendBatches` */
+export interface RecommendationOptions {
+  /** Maximum results (default: all) */
+  limit?: number;
+  /** Contributing compounds listed per result (default: 3) */
+  topContributors?: number;
+  /** Terpene effects with strength and evidence, replacing built-in data for the terpenes they cover */
+  terpeneReferences?: TerpeneRef[];
+  /** Cannabinoid effects with strength and evidence, replacing built-in data for the cannabinoids they cover */
+  cannabinoidReferences?: CannabinoidRef[];
+  /** Weight per evidence level (default: DEFAULT_EVIDENCE_WEIGHTS) */
+  evidenceWeights?: Record<string, number>;
+  /** Weight per strength level (default: DEFAULT_STRENGTH_WEIGHTS) */
+  strengthWeights?: Record<string, number>;
+  /** Weight of built-in effects, which have no evidence level (default: 0.5) */
+  defaultEffectWeight?: number;
+  /** Concentration in % at which a compound counts half (default: cannabinoid 1, terpene 0.2) */
+  halfSaturation?: { cannabinoid?: number; terpene?: number };
+  /** Product context for results reported in `mg` */
+  unitContext?: UnitContext;
+}
+
+/** What one compound adds to a batch's score */
+export interface CompoundContribution {
+  compound: string;
+  compoundType: "cannabinoid" | "terpene";
+  /** Amount in %, decarboxylated for acid cannabinoids */
+  value: number;
+  /** Positive for desired effects, negative for avoided ones */
+  contribution: number;
+  /** Effect labels that matched the request */
+  effects: string[];
+}
+
+/** One ranked batch */
+export interface Recommendation {
+  batchId: string;
+  batchName: string;
+  strain: string;
+  /** Sum of all contributions; higher is better, negative leans toward avoided effects */
+  score: number;
+  /** Largest contributions by magnitude */
+  contributors: CompoundContribution[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Weight per evidence level of reference effects (lowercase) */
+export const DEFAULT_EVIDENCE_WEIGHTS: Record<string, number> = {
+  clinical: 1,
+  human: 1,
+  preclinical: 0.6,
+  animal: 0.6,
+  "in vivo": 0.6,
+  "in vitro": 0.4,
+  anecdotal: 0.3,
+  traditional: 0.3,
+};
+
+/** Weight per strength level of reference effects (lowercase) */
+export const DEFAULT_STRENGTH_WEIGHTS: Record<string, number> = {
+  strong: 1,
+  moderate: 0.66,
+  weak: 0.33,
+};
+
+/** Effect words grouped under one target; matching is by target */
+export const EFFECT_SYNONYMS: Record<string, string[]> = {
+  sleep: ["sleep", "sedation", "sedative", "sleepy"],
+  relaxation: ["relaxation", "relaxing", "relax", "calm", "calming"],
+  energy: ["energy", "energizing", "alertness", "uplift", "uplifting"],
+  focus: ["focus", "clarity", "concentration"],
+  mood: ["mood", "euphoria"],
+  pain: ["pain", "analgesic"],
+  anxiety: ["anxiety", "anxious", "anxiolytic"],
+  nausea: ["nausea", "antiemetic"],
+  seizure: ["seizure", "seizures", "epilepsy"],
+  inflammation: ["inflammation", "inflammatory"],
+  appetite: ["appetite", "hunger"],
+  stress: ["stress"],
+};
+
+/** Targets that are symptoms: in therapeutic data a bare mention means relief */
+const SYMPTOMS = new Set(["pain", "anxiety", "nausea", "seizure", "inflammation", "stress", "depression", "insomnia"]);
+
+/** Words that mean the target is reduced */
+const REDUCING_WORDS = /\b(relief|suppression|suppressant|reduction)\b/;
+
+/** Words that mean the target is increased, or supported */
+const INCREASING_WORDS = /\b(stimulant|stimulation|induction|elevation|support|booster|enhancement)\b/;
+
+/** Labels that are reducing effects in one word */
+const REDUCING_TERMS = new Set(["analgesic", "anxiolytic", "antiemetic"]);
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface ParsedEffect {
+  label: string;
+  target: string;
+  /** 1 if the effect produces its target, -1 if it reduces it */
+  direction: 1 | -1;
+}
+
+interface CompoundEffect extends ParsedEffect {
+  weight: number;
+}
+
+function canonicalTarget(text: string): string {
+  for (const [target, words] of Object.entries(EFFECT_SYNONYMS)) {
+    if (words.includes(text)) return target;
+  }
+  for (const word of text.split(" ")) {
+    for (const [target, words] of Object.entries(EFFECT_SYNONYMS)) {
+      if (words.includes(word)) return target;
+    }
+  }
+  return text;
+}
+
+/**
+ * @param therapeutic - Whether a bare symptom means relief (therapeutic
+ *   data and desired effects) or the symptom itself (avoided effects)
+ */
+function parseEffect(label: string, therapeutic: boolean): ParsedEffect {
+  let text = label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  let reducing = REDUCING_TERMS.has(text);
+
+  if (/^anti ?/.test(text)) {
+    reducing = true;
+    text = text.replace(/^anti ?/, "");
+  }
+  if (REDUCING_WORDS.test(text)) {
+    reducing = true;
+    text = text.replace(REDUCING_WORDS, " ");
+  }
+  text = text.replace(INCREASING_WORDS, " ").replace(/\s+/g, " ").trim();
+
+  const target = canonicalTarget(text);
+  // "Nausea" or "Seizure Support" in therapeutic data means the symptom is treated
+  if (therapeutic && SYMPTOMS.has(target)) reducing = true;
+  return { label, target, direction: reducing ? -1 : 1 };
+}
+
+function commonPrefix(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+function targetsMatch(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  return a === b || commonPrefix(a, b) >= 6;
+}
+
+function lookupWeight(level: string, weights: Record<string, number>): number {
+  const key = level.toLowerCase().trim();
+  if (weights[key] !== undefined) return weights[key];
+  // Longest level first, so "preclinical (rodent)" is not read as "clinical"
+  const partial = Object.keys(weights).sort((a, b) => b.length - a.length).find((k) => key.includes(k));
+  return partial ? weights[partial] : 0.5;
+}
+
+function buildEffectTable(options: RecommendationOptions): Map<string, CompoundEffect[]> {
+  const table = new Map<string, CompoundEffect[]>();
+  const builtInWeight = options.defaultEffectWeight ?? 0.5;
+  const evidenceWeights = options.evidenceWeights ?? DEFAULT_EVIDENCE_WEIGHTS;
+  const strengthWeights = options.strengthWeights ?? DEFAULT_STRENGTH_WEIGHTS;
+
+  for (const [name, definition] of Object.entries(STANDARD_CANNABINOIDS)) {
+    const labels = (definition.therapeutic ?? "").split(",").map((e) => e.trim()).filter(Boolean);
+    table.set(`cannabinoid:${name}`, labels.map((label) => ({ ...parseEffect(label, true), weight: builtInWeight })));
+  }
+  for (const [name, definition] of Object.entries(STANDARD_TERPENES)) {
+    const labels = definition.therapeutic ?? [];
+    table.set(`terpene:${name}`, labels.map((label) => ({ ...parseEffect(label, true), weight: builtInWeight })));
+  }
+
+  const fromReference = (effects: TerpeneRef["effects"]): CompoundEffect[] =>
+    effects.map(({ effect, strength, evidence }) => ({
+      ...parseEffect(effect, true),
+      weight: lookupWeight(strength, strengthWeights) * lookupWeight(evidence, evidenceWeights),
+    }));
+  for (const ref of options.terpeneReferences ?? []) {
+    table.set(`terpene:${normalizeTerpeneName(ref.name)}`, fromReference(ref.effects ?? []));
+  }
+  for (const ref of options.cannabinoidReferences ?? []) {
+    table.set(`cannabinoid:${canonicalCannabinoidName(ref.name)}`, fromReference(ref.effects ?? []));
+  }
+  return table;
+}
+
+function batchCompounds(
+  batch: Batch,
+  unitContext: UnitContext
+): Array<{ name: string; type: CompoundContribution["compoundType"]; value: number }> {
+  if (!batch.labResult) return [];
+  const measured = inputCompounds(batch, unitContext);
+
+  // Summary rows ("Total THC") are not compounds; acid forms count as their neutral form
+  const cannabinoids = new Map<string, number>();
+  for (const [name, value] of measured.cannabinoids) {
+    if (value <= 0 || measuredCannabinoidName(name) === undefined) continue;
+    const neutral = ACID_TO_NEUTRAL[name];
+    const key = neutral ?? name;
+    cannabinoids.set(key, (cannabinoids.get(key) ?? 0) + (neutral ? value * DECARBOXYLATION_FACTORS[name] : value));
+  }
+  const terpenes = new Map(Array.from(measured.terpenes).filter(([, value]) => value > 0));
+
+  return [
+    ...Array.from(cannabinoids, ([name, value]) => ({ name, type: "cannabinoid" as const, value })),
+    ...Array.from(terpenes, ([name, value]) => ({ name, type: "terpene" as const, value })),
+  ];
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Rank batches by desired and avoided effects.
+ *
+ * Batches without a lab result are left out. Results are sorted by score,
+ * keeping input order for ties.
+ *
+ * @param batches - Batches with lab results
+ * @param request - Desired effects and effects to avoid
+ * @param options - Reference effect data, weights and result size
+ * @returns Ranked batches with their top contributing compounds
+ * @throws Error if no desired or avoided effect is given
+ */
+export function recommendBatches(
+  batches: Batch[],
+  request: EffectRequest,
+  options: RecommendationOptions = {}
+): Recommendation[] {
+  const queries = [
+    ...request.desired.map((effect) => ({ sign: 1, ...parseEffect(effect, true) })),
+    ...(request.avoid ?? []).map((effect) => ({ sign: -1, ...parseEffect(effect, false) })),
+  ].filter((query) => query.target !== "");
+  if (queries.length === 0) {
+    throw new Error("Cannot recommend batches: no desired or avoided effects given");
+  }
+
+  const table = buildEffectTable(options);
+  const halfSaturation = {
+    cannabinoid: options.halfSaturation?.cannabinoid ?? 1,
+    terpene: options.halfSaturation?.terpene ?? 0.2,
+  };
+  const unitContext = options.unitContext ?? {};
+
+  const recommendations: Recommendation[] = [];
+  for (const batch of batches) {
+    if (!batch.labResult) continue;
+
+    const contributions: CompoundContribution[] = [];
+    for (const { name, type, value } of batchCompounds(batch, unitContext)) {
+      const effects = table.get(`${type}:${name}`) ?? [];
+      const level = value / (value + halfSaturation[type]);
+
+      let contribution = 0;
+      const matched = new Set<string>();
+      for (const effect of effects) {
+        for (const query of queries) {
+          if (!targetsMatch(effect.target, query.target)) continue;
+          contribution += query.sign * query.direction * effect.direction * effect.weight * level;
+          matched.add(effect.label);
+        }
+      }
+      if (matched.size > 0) {
+        contributions.push({ compound: name, compoundType: type, value, contribution, effects: [...matched] });
+      }
+    }
+
+    contributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+    recommendations.push({
+      batchId: batch.id,
+      batchName: batch.name,
+      strain: batch.strain,
+      score: contributions.reduce((sum, c) => sum + c.contribution, 0),
+      contributors: contributions.slice(0, options.topContributors ?? 3),
+    });
+  }
+
+  recommendations.sort((a, b) => b.score - a.score);
+  return options.limit !== undefined ? recommendations.slice(0, Math.max(0, options.limit)) : recommendations;
+}
@@ -0,0 +1,477 @@
+/**
+ * CDES Similarity Index
+ * Vantage-point tree over cannabinoid profiles for fast k-NN and radius
+ * queries on large batch catalogs
+ *
+ * Query results are identical to `CDESAnalyzer.findSimilarProfiles` run
+ * over `index.profiles()`: same distances, similarities, filtering and
+ * ordering (ties keep insertion order). The tree only prunes with the
+ * triangle inequality, so it is used for the true metrics (Euclidean,
+ * Manhattan, weighted Euclidean with non-negative weights); cosine,
+ * Bray-Curtis and Aitchison fall back to an exact linear scan.
+ *
+ * @module similarityIndex
+ */
+
+import { CannabinoidProfile, CompoundUnit, MeasuredValue } from "./models";
+import { AnalyzerOptions, SimilarityResult } from "./analyzer";
+import { calculateDistance, DistanceMetric, distanceToSimilarity } from "./distance";
+import { normalizeCannabinoidProfile, UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Options for a SimilarityIndex */
+export interface SimilarityIndexOptions extends AnalyzerOptions {
+  /** Maximum profiles per leaf before it is split (default: 16) */
+  leafSize?: number;
+}
+
+/** JSON form of an indexed profile */
+export interface SerializedIndexProfile {
+  batchId: string;
+  batchName: string;
+  cannabinoids: Record<string, number>;
+  totalCannabinoids: number;
+  unit?: CompoundUnit;
+  measurements?: Record<string, MeasuredValue>;
+}
+
+/** JSON form of a tree node; numbers are entry positions */
+export type SerializedIndexNode =
+  | { leaf: number[] }
+  | {
+      vantage: number;
+      inner: SerializedIndexBranch;
+      outer: SerializedIndexBranch | null;
+    };
+
+/** JSON form of a tree branch with its vantage-distance bounds */
+export interface SerializedIndexBranch {
+  lo: number;
+  hi: number;
+  node: SerializedIndexNode;
+}
+
+/** JSON form of a SimilarityIndex, from `toJSON()` */
+export interface SerializedSimilarityIndex {
+  version: 1;
+  metric: DistanceMetric;
+  weights?: Record<string, number>;
+  unitContext?: UnitContext;
+  leafSize: number;
+  entries: Array<{ profile: SerializedIndexProfile; removed?: boolean }>;
+  root: SerializedIndexNode | null;
+}
+
+// =============================================================================
+// INTERNAL TYPES AND HELPERS
+// =============================================================================
+
+interface IndexEntry {
+  profile: CannabinoidProfile;
+  /** Values in %, exactly as findSimilarProfiles computes them */
+  values: Map<string, number>;
+  removed: boolean;
+}
+
+type IndexNode =
+  | { kind: "leaf"; ids: number[] }
+  | { kind: "vantage"; id: number; inner: IndexBranch; outer: IndexBranch | null };
+
+interface IndexBranch {
+  /** Smallest and largest distance from the vantage point to any entry below */
+  lo: number;
+  hi: number;
+  node: IndexNode;
+}
+
+interface Candidate {
+  id: number;
+  distance: number;
+  similarity: number;
+}
+
+const METRIC_DISTANCES: ReadonlySet<DistanceMetric> = new Set<DistanceMetric>([
+  "euclidean",
+  "manhattan",
+  "weighted-euclidean",
+]);
+
+/** Rounding allowance when pruning, so floating-point error never drops a result */
+function slack(bound: number): number {
+  return bound + 1e-9 * (1 + bound);
+}
+
+/** Ranking used by findSimilarProfiles: similarity desc, then insertion order */
+function ranksBefore(a: Candidate, b: Candidate): boolean {
+  return a.similarity > b.similarity || (a.similarity === b.similarity && a.id < b.id);
+}
+
+function serializeProfile(profile: CannabinoidProfile): SerializedIndexProfile {
+  const result: SerializedIndexProfile = {
+    batchId: profile.batchId,
+    batchName: profile.batchName,
+    cannabinoids: Object.fromEntries(profile.cannabinoids),
+    totalCannabinoids: profile.totalCannabinoids,
+  };
+  if (profile.unit) result.unit = profile.unit;
+  if (profile.measurements) result.measurements = Object.fromEntries(profile.measurements);
+  return result;
+}
+
+function deserializeProfile(profile: SerializedIndexProfile): CannabinoidProfile {
+  const result: CannabinoidProfile = {
+    batchId: profile.batchId,
+    batchName: profile.batchName,
+    cannabinoids: new Map(Object.entries(profile.cannabinoids)),
+    totalCannabinoids: profile.totalCannabinoids,
+  };
+  if (profile.unit) result.unit = profile.unit;
+  if (profile.measurements) result.measurements = new Map(Object.entries(profile.measurements));
+  return result;
+}
+
+function serializeNode(node: IndexNode): SerializedIndexNode {
+  if (node.kind === "leaf") return { leaf: [...node.ids] };
+  const branch = (b: IndexBranch): SerializedIndexBranch => ({ lo: b.lo, hi: b.hi, node: serializeNode(b.node) });
+  return { vantage: node.id, inner: branch(node.inner), outer: node.outer ? branch(node.outer) : null };
+}
+
+function deserializeNode(node: SerializedIndexNode): IndexNode {
+  if ("leaf" in node) return { kind: "leaf", ids: [...node.leaf] };
+  const branch = (b: SerializedIndexBranch): IndexBranch => ({ lo: b.lo, hi: b.hi, node: deserializeNode(b.node) });
+  return {
+    kind: "vantage",
+    id: node.vantage,
+    inner: branch(node.inner),
+    outer: node.outer ? branch(node.outer) : null,
+  };
+}
+
+// =============================================================================
+// SIMILARITY INDEX
+// =============================================================================
+
+/**
+ * Buildable nearest-neighbor index over cannabinoid profiles
+ *
+ * Profiles are keyed by batchId; inserting an existing batchId replaces it
+ * (and moves it to the end of the insertion order). Removed profiles are
+ * tombstoned and the tree is rebuilt once they outnumber live profiles.
+ */
+export class SimilarityIndex {
+  private entries: IndexEntry[] = [];
+  private idsByBatch = new Map<string, number>();
+  private root: IndexNode | null = null;
+  private removedCount = 0;
+  private readonly metric: DistanceMetric;
+  private readonly options: SimilarityIndexOptions;
+  private readonly leafSize: number;
+
+  constructor(options: SimilarityIndexOptions = {}) {
+    this.options = { ...options };
+    this.metric = options.metric ?? "euclidean";
+    this.leafSize = Math.max(1, options.leafSize ?? 16);
+  }
+
+  /**
+   * Build an index over a list of profiles (in list order)
+   */
+  static build(
+    profiles: CannabinoidProfile[],
+    options: SimilarityIndexOptions = {}
+  ): SimilarityIndex {
+    const index = new SimilarityIndex(options);
+    for (const profile of profiles) {
+      const existing = index.idsByBatch.get(profile.batchId);
+      if (existing !== undefined) {
+        index.entries[existing].removed = true;
+        index.removedCount++;
+      }
+      index.idsByBatch.set(profile.batchId, index.entries.length);
+      index.entries.push(index.createEntry(profile));
+    }
+    index.rebuild();
+    return index;
+  }
+
+  /**
+   * Restore an index from `toJSON()` output without recomputing the tree
+   */
+  static fromJSON(json: SerializedSimilarityIndex): SimilarityIndex {
+    if (json?.version !== 1 || !Array.isArray(json.entries)) {
+      throw new Error("Invalid similarity index: expected version 1 JSON");
+    }
+
+    const index = new SimilarityIndex({
+      metric: json.metric,
+      weights: json.weights,
+      unitContext: json.unitContext,
+      leafSize: json.leafSize,
+    });
+    json.entries.forEach(({ profile, removed }, id) => {
+      const entry = index.createEntry(deserializeProfile(profile));
+      entry.removed = removed === true;
+      index.entries.push(entry);
+      if (entry.removed) {
+        index.removedCount++;
+      } else {
+        index.idsByBatch.set(profile.batchId, id);
+      }
+    });
+    index.root = json.root ? deserializeNode(json.root) : null;
+    return index;
+  }
+
+  /** Number of live profiles */
+  get size(): number {
+    return this.idsByBatch.size;
+  }
+
+  /** Whether the tree is used for pruning (false means exact linear scans) */
+  get usesTree(): boolean {
+    return (
+      METRIC_DISTANCES.has(this.metric) &&
+      Object.values(this.options.weights ?? {}).every((w) => w >= 0)
+    );
+  }
+
+  /**
+   * Check whether a batch is indexed
+   */
+  has(batchId: string): boolean {
+    return this.idsByBatch.has(batchId);
+  }
+
+  /**
+   * Live profiles in insertion order; `findSimilarProfiles` over this list
+   * returns the same results as the index
+   */
+  profiles(): CannabinoidProfile[] {
+    return this.entries.filter((entry) => !entry.removed).map((entry) => entry.profile);
+  }
+
+  /**
+   * Add a profile, replacing any profile with the same batchId
+   */
+  insert(profile: CannabinoidProfile): void {
+    this.remove(profile.batchId);
+
+    const id = this.entries.length;
+    this.entries.push(this.createEntry(profile));
+    this.idsByBatch.set(profile.batchId, id);
+    this.root = this.root ? this.insertInto(this.root, id) : { kind: "leaf", ids: [id] };
+  }
+
+  /**
+   * Remove a profile by batchId
+   *
+   * @returns true if the batch was indexed
+   */
+  remove(batchId: string): boolean {
+    const id = this.idsByBatch.get(batchId);
+    if (id === undefined) return false;
+
+    this.entries[id].removed = true;
+    this.idsByBatch.delete(batchId);
+    this.removedCount++;
+    if (this.removedCount > this.idsByBatch.size) this.rebuild();
+    return true;
+  }
+
+  /**
+   * Same contract as `CDESAnalyzer.findSimilarProfiles`: up to `limit`
+   * profiles with similarity >= `minSimilarity`, excluding the target's
+   * batchId, best first
+   */
+  findSimilar(
+    target: CannabinoidProfile,
+    limit: number = 5,
+    minSimilarity: number = 50
+  ): SimilarityResult[] {
+    return this.query(target, limit, minSimilarity, Infinity);
+  }
+
+  /**
+   * The k nearest profiles regardless of similarity
+   */
+  nearest(target: CannabinoidProfile, k: number): SimilarityResult[] {
+    return this.query(target, k, -Infinity, Infinity);
+  }
+
+  /**
+   * Every profile within `maxDistance` of the target, best first
+   */
+  withinDistance(target: CannabinoidProfile, maxDistance: number): SimilarityResult[] {
+    return this.query(target, Infinity, -Infinity, maxDistance);
+  }
+
+  /**
+   * Serialize the profiles, options and tree
+   */
+  toJSON(): SerializedSimilarityIndex {
+    const json: SerializedSimilarityIndex = {
+      version: 1,
+      metric: this.metric,
+      leafSize: this.leafSize,
+      entries: this.entries.map((entry) =>
+        entry.removed
+          ? { profile: serializeProfile(entry.profile), removed: true }
+          : { profile: serializeProfile(entry.profile) }
+      ),
+      root: this.root ? serializeNode(this.root) : null,
+    };
+    if (this.options.weights) json.weights = { ...this.options.weights };
+    if (this.options.unitContext) json.unitContext = { ...this.options.unitContext };
+    return json;
+  }
+
+  private createEntry(profile: CannabinoidProfile): IndexEntry {
+    return {
+      profile,
+      values: normalizeCannabinoidProfile(profile, "%", this.options.unitContext).cannabinoids,
+      removed: false,
+    };
+  }
+
+  private distance(from: Map<string, number>, id: number): number {
+    return calculateDistance(from, this.entries[id].values, this.options);
+  }
+
+  /** Rebuild the tree from live entries, dropping tombstones */
+  private rebuild(): void {
+    this.entries = this.entries.filter((entry) => !entry.removed);
+    this.idsByBatch = new Map(this.entries.map((entry, id) => [entry.profile.batchId, id]));
+    this.removedCount = 0;
+    this.root = this.entries.length > 0
+      ? this.buildNode(this.entries.map((_, id) => id))
+      : null;
+  }
+
+  private buildNode(ids: number[]): IndexNode {
+    if (ids.length <= this.leafSize) return { kind: "leaf", ids };
+
+    const [vantage, ...rest] = ids;
+    const vantageValues = this.entries[vantage].values;
+    const byDistance = rest
+      .map((id) => ({ id, distance: this.distance(vantageValues, id) }))
+      .sort((a, b) => a.distance - b.distance || a.id - b.id);
+
+    const half = Math.ceil(byDistance.length / 2);
+    const branch = (items: typeof byDistance): IndexBranch => ({
+      lo: items[0].distance,
+      hi: items[items.length - 1].distance,
+      node: this.buildNode(items.map((item) => item.id).sort((a, b) => a - b)),
+    });
+
+    return {
+      kind: "vantage",
+      id: vantage,
+      inner: branch(byDistance.slice(0, half)),
+      outer: byDistance.length > half ? branch(byDistance.slice(half)) : null,
+    };
+  }
+
+  private insertInto(node: IndexNode, id: number): IndexNode {
+    if (node.kind === "leaf") {
+      const ids = [...node.ids, id];
+      return ids.length > this.leafSize ? this.buildNode(ids) : { kind: "leaf", ids };
+    }
+
+    const d = this.distance(this.entries[node.id].values, id);
+    const { inner, outer } = node;
+    const toInner =
+      !outer || d <= inner.hi || (d < outer.lo && d - inner.hi < outer.lo - d);
+    const branch = toInner ? inner : outer!;
+
+    branch.lo = Math.min(branch.lo, d);
+    branch.hi = Math.max(branch.hi, d);
+    branch.node = this.insertInto(branch.node, id);
+    return node;
+  }
+
+  /** Largest distance whose similarity can still reach `minSimilarity` */
+  private maxDistanceFor(minSimilarity: number): number {
+    if (distanceToSimilarity(Number.MAX_VALUE, this.metric) >= minSimilarity) return Infinity;
+    let lo = 0;
+    let hi = 1;
+    while (distanceToSimilarity(hi, this.metric) >= minSimilarity) hi *= 2;
+    for (let i = 0; i < 100 && hi - lo > 1e-12 * hi; i++) {
+      const mid = (lo + hi) / 2;
+      if (distanceToSimilarity(mid, this.metric) >= minSimilarity) lo = mid;
+      else hi = mid;
+    }
+    return hi;
+  }
+
+  private query(
+    target: CannabinoidProfile,
+    limit: number,
+    minSimilarity: number,
+    maxDistance: number
+  ): SimilarityResult[] {
+    if (!(limit > 0)) return [];
+
+    const targetValues = normalizeCannabinoidProfile(target, "%", this.options.unitContext).cannabinoids;
+    const radius = Math.min(maxDistance, this.maxDistanceFor(minSimilarity));
+    const best: Candidate[] = [];
+
+    const consider = (id: number, distance: number) => {
+      const entry = this.entries[id];
+      if (entry.removed || entry.profile.batchId === target.batchId) return;
+      if (distance > maxDistance) return;
+
+      const similarity = distanceToSimilarity(distance, this.metric);
+      if (similarity < minSimilarity) return;
+
+      const candidate = { id, distance, similarity };
+      if (best.length >= limit && !ranksBefore(candidate, best[best.length - 1])) return;
+
+      let i = best.length;
+      while (i > 0 && ranksBefore(candidate, best[i - 1])) i--;
+      best.splice(i, 0, candidate);
+      if (best.length > limit) best.pop();
+    };
+
+    const bound = () =>
+      best.length >= limit
+        ? Math.min(radius, best.reduce((max, c) => Math.max(max, c.distance), 0))
+        : radius;
+
+    if (!this.usesTree) {
+      this.entries.forEach((entry, id) => {
+        if (!entry.removed) consider(id, this.distance(targetValues, id));
+      });
+    } else if (this.root) {
+      const search = (node: IndexNode) => {
+        if (node.kind === "leaf") {
+          for (const id of node.ids) {
+            consider(id, this.distance(targetValues, id));
+          }
+          return;
+        }
+
+        const dq = this.distance(targetValues, node.id);
+        consider(node.id, dq);
+
+        const branches = [node.inner, node.outer].filter((b): b is IndexBranch => b !== null);
+        if (branches.length === 2 && dq > node.inner.hi) branches.reverse();
+        for (const branch of branches) {
+          const lowerBound = Math.max(0, branch.lo - dq, dq - branch.hi);
+          if (lowerBound <= slack(bound())) search(branch.node);
+        }
+      };
+      search(this.root);
+    }
+
+    return best.map((candidate, index) => ({
+      profile: this.entries[candidate.id].profile,
+      distance: candidate.distance,
+      similarity: candidate.similarity,
+      metric: this.metric,
+      rank: index + 1,
+    }));
+  }
+}
@@ -0,0 +1,465 @@
+/**
+ * CDES Statistical Process Control
+ * Strain consistency across repeat batches: per-compound statistics,
+ * Shewhart individuals charts, Western Electric rules and archetype drift
+ *
+ * Batches are grouped by strain (optionally per producer) and put in time
+ * order by lab test date, falling back to the processed date. Each compound
+ * becomes a chartable series of points with its centre line and control
+ * limits.
+ *
+ * @module spc
+ */
+
+import { Batch } from "./models";
+import { batchProducer, inputCompounds } from "./inputs";
+import {
+  ArchetypeModel,
+  computeRatioMetrics,
+  TerpeneArchetype,
+  toRatioTerpeneValues,
+} from "./ratioAnalysis";
+import { StrainResolver } from "./strains";
+import { UnitContext } from "./units";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** How batches are grouped */
+export type SPCGrouping = "strain" | "strain-producer";
+
+/** Date that orders batches in time */
+export type SPCDateField = "testDate" | "processedDate";
+
+/**
+ * How the process sigma is estimated
+ * - `moving-range`: average moving range / 1.128 (standard for individuals charts)
+ * - `sample`: sample standard deviation
+ */
+export type SigmaMethod = "moving-range" | "sample";
+
+/**
+ * Western Electric rule
+ * 1. One point beyond 3σ
+ * 2. Two of three consecutive points beyond 2σ on the same side
+ * 3. Four of five consecutive points beyond 1σ on the same side
+ * 4. Eight consecutive points on the same side of the centre line
+ */
+export type WesternElectricRule = 1 | 2 | 3 | 4;
+
+/** Options for `analyzeStrainConsistency` */
+export interface SPCOptions {
+  /** Group by strain, or by strain and producer (`metadata.producer`, else the dispensary); default "strain" */
+  groupBy?: SPCGrouping;
+  /** Date used for time order (default: "testDate", falling back to processedDate) */
+  dateField?: SPCDateField;
+  /** Sigma estimate for control limits (default: "moving-range") */
+  sigmaMethod?: SigmaMethod;
+  /** Rules to check (default: all four) */
+  rules?: WesternElectricRule[];
+  /** Groups with fewer batches are left out (default: 2) */
+  minBatches?: number;
+  /** Include terpene series (default: true) */
+  includeTerpenes?: boolean;
+  /** Product context for results reported in `mg` */
+  unitContext?: UnitContext;
+  /** Archetype model for drift (default: DEFAULT_ARCHETYPE_MODEL) */
+  archetypeModel?: ArchetypeModel<string>;
+  /** Group strain name variants ("GSC", "Girl Scout Cookies") under their canonical name */
+  strainResolver?: StrainResolver;
+}
+
+/** Summary statistics of one compound */
+export interface CompoundStatistics {
+  n: number;
+  mean: number;
+  /** Sample standard deviation (0 for a single value) */
+  sd: number;
+  /** Coefficient of variation in %, or null when the mean is 0 */
+  cv: number | null;
+  min: number;
+  max: number;
+}
+
+/** Centre line and limits of an individuals chart */
+export interface ControlLimits {
+  center: number;
+  sigma: number;
+  /** center ± 3σ; the lower limit is never below 0 */
+  ucl: number;
+  lcl: number;
+  /** center ± 2σ */
+  upperWarning: number;
+  lowerWarning: number;
+}
+
+/** A rule violation, reported at the point that completes the pattern */
+export interface RuleViolation {
+  rule: WesternElectricRule;
+  index: number;
+  batchId: string;
+  date: Date;
+  description: string;
+}
+
+/** One batch on a control chart */
+export interface SPCPoint {
+  batchId: string;
+  date: Date;
+  value: number;
+  /** Distance from the centre line in sigmas */
+  sigmaScore: number;
+  /** Rules this point completes */
+  violations: WesternElectricRule[];
+}
+
+/** Control chart series of one compound */
+export interface SPCSeries {
+  compound: string;
+  compoundType: "cannabinoid" | "terpene";
+  statistics: CompoundStatistics;
+  limits: ControlLimits;
+  points: SPCPoint[];
+  violations: RuleViolation[];
+}
+
+/** Archetype of one batch */
+export interface ArchetypePoint {
+  batchId: string;
+  date: Date;
+  archetype: string;
+  confidence: number;
+}
+
+/** A change in archetype between consecutive runs */
+export interface ArchetypeChange {
+  batchId: string;
+  date: Date;
+  from: string;
+  to: string;
+}
+
+/** How stable the terpene archetype is across runs */
+export interface ArchetypeDrift {
+  points: ArchetypePoint[];
+  /** Most frequent archetype (earliest on ties) */
+  dominantArchetype: string;
+  /** Share of runs classified as the dominant archetype (0-1) */
+  consistency: number;
+  changes: ArchetypeChange[];
+}
+
+/** Consistency report for one strain (and producer) */
+export interface StrainConsistencyReport {
+  strain: string;
+  producerId?: string;
+  producerName?: string;
+  batchCount: number;
+  firstDate: Date;
+  lastDate: Date;
+  series: SPCSeries[];
+  /** Null when no batch has ratio terpenes */
+  archetypeDrift: ArchetypeDrift | null;
+  violationCount: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** d2 constant for moving ranges of two points */
+const D2 = 1.128;
+
+const ALL_RULES: WesternElectricRule[] = [1, 2, 3, 4];
+
+const RULE_DESCRIPTIONS: Record<WesternElectricRule, string> = {
+  1: "One point beyond 3σ",
+  2: "Two of three consecutive points beyond 2σ on the same side",
+  3: "Four of five consecutive points beyond 1σ on the same side",
+  4: "Eight consecutive points on the same side of the centre line",
+};
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface TimedBatch {
+  batch: Batch;
+  date: Date;
+  cannabinoids: Map<string, number>;
+  terpenes: Map<string, number>;
+}
+
+function batchDate(batch: Batch, field: SPCDateField): Date {
+  return field === "testDate" && batch.labResult?.testDate
+    ? batch.labResult.testDate
+    : batch.processedDate;
+}
+
+function strainName(batch: Batch, resolver: StrainResolver | undefined): string {
+  return resolver ? resolver.resolve(batch.strain).canonical : batch.strain.trim();
+}
+
+function groupKey(batch: Batch, groupBy: SPCGrouping, resolver: StrainResolver | undefined): string {
+  const strain = strainName(batch, resolver).toLowerCase();
+  return groupBy === "strain-producer" ? `${strain}\u0000${batchProducer(batch).id}` : strain;
+}
+
+function buildSeries(
+  compound: string,
+  compoundType: SPCSeries["compoundType"],
+  runs: TimedBatch[],
+  options: SPCOptions
+): SPCSeries | null {
+  const observed = runs.filter((run) =>
+    (compoundType === "cannabinoid" ? run.cannabinoids : run.terpenes).has(compound)
+  );
+  if (observed.length === 0) return null;
+
+  const values = observed.map((run) =>
+    (compoundType === "cannabinoid" ? run.cannabinoids : run.terpenes).get(compound)!
+  );
+  const limits = controlLimits(values, options.sigmaMethod);
+  const found = westernElectricViolations(values, limits, options.rules);
+
+  const points = observed.map((run, i): SPCPoint => ({
+    batchId: run.batch.id,
+    date: run.date,
+    value: values[i],
+    sigmaScore: limits.sigma > 0 ? (values[i] - limits.center) / limits.sigma : 0,
+    violations: found.filter((v) => v.index === i).map((v) => v.rule),
+  }));
+
+  return {
+    compound,
+    compoundType,
+    statistics: compoundStatistics(values),
+    limits,
+    points,
+    violations: found.map(({ rule, index }) => ({
+      rule,
+      index,
+      batchId: points[index].batchId,
+      date: points[index].date,
+      description: RULE_DESCRIPTIONS[rule],
+    })),
+  };
+}
+
+function archetypeDrift(runs: TimedBatch[], model?: ArchetypeModel<string>): ArchetypeDrift | null {
+  const points: ArchetypePoint[] = [];
+  for (const run of runs) {
+    const values = toRatioTerpeneValues(run.terpenes);
+    if (!Object.values(values).some((v) => v > 0)) continue;
+    const classification = computeRatioMetrics(values, model).archetypeClassification;
+    points.push({
+      batchId: run.batch.id,
+      date: run.date,
+      archetype: classification?.primaryArchetype ?? TerpeneArchetype.ARCH_UNK,
+      confidence: classification?.archetypeConfidence ?? 0,
+    });
+  }
+  if (points.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  for (const point of points) counts.set(point.archetype, (counts.get(point.archetype) ?? 0) + 1);
+  let dominantArchetype = points[0].archetype;
+  for (const [archetype, count] of counts) {
+    if (count > counts.get(dominantArchetype)!) dominantArchetype = archetype;
+  }
+
+  const changes: ArchetypeChange[] = [];
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].archetype !== points[i - 1].archetype) {
+      changes.push({
+        batchId: points[i].batchId,
+        date: points[i].date,
+        from: points[i - 1].archetype,
+        to: points[i].archetype,
+      });
+    }
+  }
+
+  return {
+    points,
+    dominantArchetype,
+    consistency: counts.get(dominantArchetype)! / points.length,
+    changes,
+  };
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Mean, sample SD, %CV and range of a set of values.
+ *
+ * @param values - Observations
+ * @returns Statistics; all zero for an empty list
+ */
+export function compoundStatistics(values: number[]): CompoundStatistics {
+  const n = values.length;
+  if (n === 0) return { n: 0, mean: 0, sd: 0, cv: null, min: 0, max: 0 };
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const sd = n > 1 ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)) : 0;
+
+  return {
+    n,
+    mean,
+    sd,
+    cv: mean !== 0 ? (sd / Math.abs(mean)) * 100 : null,
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+}
+
+/**
+ * Shewhart individuals-chart limits.
+ *
+ * @param values - Observations in time order
+ * @param sigmaMethod - Sigma estimate (default: "moving-range")
+ * @returns Centre line, sigma, 3σ control limits and 2σ warning limits
+ */
+export function controlLimits(
+  values: number[],
+  sigmaMethod: SigmaMethod = "moving-range"
+): ControlLimits {
+  const { mean, sd } = compoundStatistics(values);
+
+  let sigma = sd;
+  if (sigmaMethod === "moving-range" && values.length > 1) {
+    let movingRange = 0;
+    for (let i = 1; i < values.length; i++) movingRange += Math.abs(values[i] - values[i - 1]);
+    sigma = movingRange / (values.length - 1) / D2;
+  }
+
+  return {
+    center: mean,
+    sigma,
+    ucl: mean + 3 * sigma,
+    lcl: Math.max(0, mean - 3 * sigma),
+    upperWarning: mean + 2 * sigma,
+    lowerWarning: Math.max(0, mean - 2 * sigma),
+  };
+}
+
+/**
+ * Check a series against the Western Electric rules.
+ *
+ * Each violation is reported once, at the point that completes the
+ * pattern (and is itself part of it). Windows are shorter at the start of
+ * the series, so two early points beyond 2σ already break rule 2. No rule
+ * fires when sigma is 0.
+ *
+ * @param values - Observations in time order
+ * @param limits - Centre line and sigma from `controlLimits`
+ * @param rules - Rules to check (default: all four)
+ * @returns Violations in time order
+ */
+export function westernElectricViolations(
+  values: number[],
+  limits: Pick<ControlLimits, "center" | "sigma">,
+  rules: WesternElectricRule[] = ALL_RULES
+): Array<{ rule: WesternElectricRule; index: number }> {
+  const { center, sigma } = limits;
+  if (!(sigma > 0)) return [];
+
+  const z = values.map((v) => (v - center) / sigma);
+  const side = (i: number) => Math.sign(z[i]);
+  const violations: Array<{ rule: WesternElectricRule; index: number }> = [];
+
+  const beyond = (end: number, size: number, threshold: number, needed: number): boolean => {
+    const s = side(end);
+    if (s === 0 || Math.abs(z[end]) <= threshold) return false;
+    let count = 0;
+    for (let i = Math.max(0, end - size + 1); i <= end; i++) {
+      if (side(i) === s && Math.abs(z[i]) > threshold) count++;
+    }
+    return count >= needed;
+  };
+
+  for (let i = 0; i < z.length; i++) {
+    if (rules.includes(1) && Math.abs(z[i]) > 3) violations.push({ rule: 1, index: i });
+    if (rules.includes(2) && beyond(i, 3, 2, 2)) violations.push({ rule: 2, index: i });
+    if (rules.includes(3) && beyond(i, 5, 1, 4)) violations.push({ rule: 3, index: i });
+    if (rules.includes(4) && i >= 7 && side(i) !== 0) {
+      let same = true;
+      for (let j = i - 7; j < i; j++) same = same && side(j) === side(i);
+      if (same) violations.push({ rule: 4, index: i });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check that repeat batches of a strain are chemically consistent.
+ *
+ * Batches without a lab result are skipped. A compound missing from a
+ * batch's lab result is left off that batch's point, not counted as 0.
+ *
+ * @param batches - Batches with lab results
+ * @param options - Grouping, time order, sigma estimate and rules
+ * @returns One report per strain (or strain and producer), in order of first appearance
+ */
+export function analyzeStrainConsistency(
+  batches: Batch[],
+  options: SPCOptions = {}
+): StrainConsistencyReport[] {
+  const groupBy = options.groupBy ?? "strain";
+  const dateField = options.dateField ?? "testDate";
+  const unitContext = options.unitContext ?? {};
+  const minBatches = options.minBatches ?? 2;
+
+  const groups = new Map<string, TimedBatch[]>();
+  for (const batch of batches) {
+    if (!batch.labResult) continue;
+    const run: TimedBatch = {
+      batch,
+      date: batchDate(batch, dateField),
+      ...inputCompounds(batch, unitContext),
+    };
+    const key = groupKey(batch, groupBy, options.strainResolver);
+    const group = groups.get(key);
+    if (group) group.push(run);
+    else groups.set(key, [run]);
+  }
+
+  const reports: StrainConsistencyReport[] = [];
+  for (const runs of groups.values()) {
+    if (runs.length < minBatches) continue;
+    runs.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const cannabinoidNames = Array.from(new Set(runs.flatMap((run) => [...run.cannabinoids.keys()])));
+    const terpeneNames = options.includeTerpenes === false
+      ? []
+      : Array.from(new Set(runs.flatMap((run) => [...run.terpenes.keys()])));
+
+    const series = [
+      ...cannabinoidNames.map((name) => buildSeries(name, "cannabinoid", runs, options)),
+      ...terpeneNames.map((name) => buildSeries(name, "terpene", runs, options)),
+    ].filter((s): s is SPCSeries => s !== null);
+
+    const first = runs[0].batch;
+    const report: StrainConsistencyReport = {
+      strain: strainName(first, options.strainResolver),
+      batchCount: runs.length,
+      firstDate: runs[0].date,
+      lastDate: runs[runs.length - 1].date,
+      series,
+      archetypeDrift: options.includeTerpenes === false ? null : archetypeDrift(runs, options.archetypeModel),
+      violationCount: series.reduce((sum, s) => sum + s.violations.length, 0),
+    };
+    if (groupBy === "strain-producer") {
+      const producer = batchProducer(first);
+      report.producerId = producer.id;
+      if (producer.name) report.producerName = producer.name;
+    }
+    reports.push(report);
+  }
+
+  return reports;
+}
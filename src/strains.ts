@@ -0,0 +1,400 @@
+/**
+ * CDES Strain Names
+ * Resolve free-text strain names ("GSC", "Girl Scout Cookies #4 (Smalls)")
+ * to canonical strain entities
+ *
+ * Names are compared by a compact key: lowercase, accents, punctuation and
+ * spaces removed. Size and product descriptors ("smalls", "3.5g", "flower",
+ * "indica") are dropped, and phenotype suffixes ("#4", "pheno 2") are kept
+ * aside so "Gelato #41" resolves to Gelato with phenotype "#41", while an
+ * alias that includes the number ("Gorilla Glue #4") still matches as a
+ * whole. Names without an exact alias fall back to a fuzzy match by edit
+ * distance.
+ *
+ * @module strains
+ */
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** How a name was resolved */
+export type StrainMatchMethod = "exact" | "alias" | "fuzzy" | "unresolved";
+
+/** Result of `StrainResolver.resolve` */
+export interface StrainResolution {
+  /** The raw name */
+  input: string;
+  /** Canonical strain name, or the cleaned input when unresolved */
+  canonical: string;
+  method: StrainMatchMethod;
+  /** 1 for exact and alias matches, the name similarity (0-1) for fuzzy matches, 0 when unresolved */
+  confidence: number;
+  /** Phenotype suffix found in the input, e.g. "#4" */
+  phenotype?: string;
+  /** Size or cut descriptor found in the input, e.g. "smalls" */
+  size?: string;
+  /** The canonical name or alias that matched */
+  matchedAlias?: string;
+}
+
+/** Options for `StrainResolver` */
+export interface StrainResolverOptions {
+  /** Extra aliases by canonical name, merged with the built-in dictionary */
+  aliases?: Record<string, string[]>;
+  /** Include DEFAULT_STRAIN_ALIASES (default: true) */
+  includeBuiltIn?: boolean;
+  /** Lowest similarity accepted as a fuzzy match (default: 0.8) */
+  minConfidence?: number;
+}
+
+/** Options for `clusterStrainNames` */
+export interface StrainClusterOptions {
+  /** Resolver for known strains (default: a resolver with the built-in dictionary) */
+  resolver?: StrainResolver;
+  /** Lowest similarity that links two unresolved names (default: the resolver's minConfidence) */
+  minSimilarity?: number;
+}
+
+/** One canonical strain entity and the raw names that refer to it */
+export interface StrainNameCluster {
+  canonical: string;
+  /** Whether the canonical name comes from the resolver's dictionary */
+  resolved: boolean;
+  /** Distinct raw names, most frequent first */
+  names: string[];
+  /** Total occurrences of all names */
+  count: number;
+  /** Lowest confidence among the names */
+  confidence: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Built-in aliases by canonical strain name */
+export const DEFAULT_STRAIN_ALIASES: Readonly<Record<string, readonly string[]>> = {
+  "AK-47": ["AK47", "AK 47"],
+  "Blue Dream": ["Blueberry Haze Dream"],
+  "Bruce Banner": ["Bruce Banner #3", "BB3"],
+  "Chemdawg": ["Chem Dawg", "Chem Dog", "Chemdog"],
+  "Do-Si-Dos": ["Dosidos", "Do Si Dos", "Dosi Dos", "Dosi"],
+  "Durban Poison": ["Durban"],
+  "Gelato": ["Gelato #33", "Larry Bird"],
+  "Girl Scout Cookies": ["GSC", "GS Cookies", "Girl Scout Cookie", "Girl Scouts Cookies"],
+  "Gorilla Glue #4": ["GG4", "GG #4", "Gorilla Glue", "Original Glue"],
+  "Granddaddy Purple": ["GDP", "Grand Daddy Purple", "Granddaddy Purps", "Grandaddy Purple"],
+  "Green Crack": ["Green Crush", "Mango Crack"],
+  "Jack Herer": ["Jack", "JH"],
+  "MAC": ["Miracle Alien Cookies", "MAC 1", "MAC1"],
+  "Northern Lights": ["NL"],
+  "OG Kush": ["Ocean Grown Kush", "OGK"],
+  "Pineapple Express": ["Pineapple X"],
+  "Sour Diesel": ["Sour D", "Sour Deez"],
+  "Sunset Sherbet": ["Sunset Sherbert", "Sherbert", "Sherbet"],
+  "Super Lemon Haze": ["SLH"],
+  "White Widow": ["WW"],
+  "Zkittlez": ["Zkittles", "Skittlez", "Skittles"],
+};
+
+/** Size, cut and package descriptors, matched on the lowercase name */
+const SIZE_PATTERNS: RegExp[] = [
+  /\b\d+(?:\.\d+)?\s*(?:g|grams?|oz|ounces?)\b/,
+  /\b1\/[248](?:\s*oz)?\b/,
+  /\b(?:smalls|small buds|mini buds|minis|littles|popcorn|larges|bigs|shake|trim|eighth|quarter|half ounce|ounce)\b/,
+];
+
+/** Phenotype suffixes; the first group is the phenotype label */
+const PHENOTYPE_PATTERNS: RegExp[] = [
+  /#\s*(\d+[a-z]?)\b/,
+  /\bpheno(?:type)?\s*#?\s*([a-z0-9]+)\b/,
+];
+
+/** Words that describe the product or its type rather than the strain */
+const DESCRIPTOR_PATTERN =
+  /\b(?:strain|whole flower|flower|buds?|pre ?rolls?|indica|sativa|hybrid|dominant)\b/g;
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface ParsedStrainName {
+  /** Compact key including the phenotype number */
+  key: string;
+  /** Compact key without the phenotype */
+  base: string;
+  /** Words of the base name, for display */
+  words: string[];
+  phenotype?: string;
+  size?: string;
+}
+
+const compact = (text: string) => text.replace(/[^a-z0-9]+/g, "");
+
+function parseStrainName(raw: string): ParsedStrainName {
+  let text = raw
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’`]/g, "")
+    .replace(/[()[\]{}]/g, " ");
+
+  let size: string | undefined;
+  for (const pattern of SIZE_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    size ??= match[0].trim();
+    text = text.replace(pattern, " ");
+  }
+  text = text.replace(/-/g, " ").replace(DESCRIPTOR_PATTERN, " ");
+
+  let phenotype: string | undefined;
+  let base = text;
+  for (const pattern of PHENOTYPE_PATTERNS) {
+    const match = base.match(pattern);
+    if (!match) continue;
+    phenotype = match[0].startsWith("#") ? `#${match[1]}` : `pheno ${match[1]}`;
+    text = text.replace(pattern, ` ${match[1]} `);
+    base = base.replace(pattern, " ");
+    break;
+  }
+
+  const words = base.split(/[^a-z0-9]+/).filter(Boolean);
+  const parsed: ParsedStrainName = { key: compact(text), base: words.join(""), words };
+  if (phenotype) parsed.phenotype = phenotype;
+  if (size) parsed.size = size;
+  return parsed;
+}
+
+/** Optimal string alignment distance (Levenshtein with adjacent transpositions) */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (__, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+function displayName(words: string[], raw: string): string {
+  if (words.length === 0) return raw.trim();
+  return words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+// =============================================================================
+// STRAIN RESOLVER
+// =============================================================================
+
+/**
+ * Resolves raw strain names against an extendable alias dictionary
+ *
+ * Results are cached per raw name; adding aliases clears the cache.
+ */
+export class StrainResolver {
+  private entries = new Map<string, { canonical: string; alias: string }>();
+  private cache = new Map<string, StrainResolution>();
+  private readonly minConfidence: number;
+
+  constructor(options: StrainResolverOptions = {}) {
+    this.minConfidence = options.minConfidence ?? 0.8;
+    if (options.includeBuiltIn !== false) {
+      for (const [canonical, aliases] of Object.entries(DEFAULT_STRAIN_ALIASES)) {
+        this.addAliases(canonical, aliases);
+      }
+    }
+    for (const [canonical, aliases] of Object.entries(options.aliases ?? {})) {
+      this.addAliases(canonical, aliases);
+    }
+  }
+
+  /** Lowest similarity accepted as a fuzzy match */
+  get threshold(): number {
+    return this.minConfidence;
+  }
+
+  /**
+   * Register a canonical strain and its aliases; an alias registered
+   * earlier for another strain is moved to this one
+   */
+  addAliases(canonical: string, aliases: readonly string[] = []): this {
+    for (const alias of [canonical, ...aliases]) {
+      const key = parseStrainName(alias).key;
+      if (key) this.entries.set(key, { canonical, alias });
+    }
+    this.cache.clear();
+    return this;
+  }
+
+  /** Canonical names in the dictionary, in registration order */
+  canonicalNames(): string[] {
+    return Array.from(new Set(Array.from(this.entries.values(), (entry) => entry.canonical)));
+  }
+
+  /**
+   * Resolve a raw strain name
+   *
+   * The whole name is looked up first, then the name without its phenotype
+   * suffix, then the closest dictionary entry by edit distance.
+   */
+  resolve(name: string): StrainResolution {
+    const cached = this.cache.get(name);
+    if (cached) return { ...cached };
+
+    const parsed = parseStrainName(name);
+    const extras = {
+      ...(parsed.phenotype && { phenotype: parsed.phenotype }),
+      ...(parsed.size && { size: parsed.size }),
+    };
+
+    let resolution: StrainResolution;
+    const whole = this.entries.get(parsed.key);
+    const base = this.entries.get(parsed.base);
+    if (whole) {
+      resolution = {
+        input: name,
+        canonical: whole.canonical,
+        method: whole.alias === whole.canonical ? "exact" : "alias",
+        confidence: 1,
+        ...(parsed.size && { size: parsed.size }),
+        matchedAlias: whole.alias,
+      };
+    } else if (base) {
+      resolution = {
+        input: name,
+        canonical: base.canonical,
+        method: base.alias === base.canonical ? "exact" : "alias",
+        confidence: 1,
+        ...extras,
+        matchedAlias: base.alias,
+      };
+    } else {
+      let best: { canonical: string; alias: string; score: number } | null = null;
+      for (const [key, entry] of this.entries) {
+        const score = Math.max(similarity(parsed.key, key), similarity(parsed.base, key));
+        if (!best || score > best.score) best = { ...entry, score };
+      }
+
+      resolution = best && best.score >= this.minConfidence && parsed.base
+        ? {
+          input: name,
+          canonical: best.canonical,
+          method: "fuzzy",
+          confidence: best.score,
+          ...extras,
+          matchedAlias: best.alias,
+        }
+        : {
+          input: name,
+          canonical: displayName(parsed.words, name),
+          method: "unresolved",
+          confidence: 0,
+          ...extras,
+        };
+    }
+
+    this.cache.set(name, resolution);
+    return { ...resolution };
+  }
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+let defaultResolver: StrainResolver | null = null;
+
+/**
+ * Resolve a raw strain name with the built-in dictionary.
+ *
+ * @param name - Raw strain name
+ * @returns Canonical name, match method and confidence
+ */
+export function resolveStrainName(name: string): StrainResolution {
+  defaultResolver ??= new StrainResolver();
+  return defaultResolver.resolve(name);
+}
+
+/**
+ * Group raw strain names into canonical strain entities.
+ *
+ * Names the resolver knows are grouped under their canonical name. The
+ * rest are linked to each other when their similarity reaches
+ * `minSimilarity`, and each group is named after its most frequent name.
+ *
+ * @param names - Raw strain names; repeats are counted
+ * @param options - Resolver and linking threshold
+ * @returns Clusters, largest first
+ */
+export function clusterStrainNames(
+  names: string[],
+  options: StrainClusterOptions = {}
+): StrainNameCluster[] {
+  const resolver = options.resolver ?? new StrainResolver();
+  const minSimilarity = options.minSimilarity ?? resolver.threshold;
+
+  const counts = new Map<string, number>();
+  for (const name of names) counts.set(name, (counts.get(name) ?? 0) + 1);
+
+  const clusters = new Map<string, { resolved: boolean; names: Map<string, number>; confidence: number }>();
+  const addTo = (canonical: string, resolved: boolean, name: string, confidence: number) => {
+    const cluster = clusters.get(canonical) ?? { resolved, names: new Map(), confidence: 1 };
+    cluster.names.set(name, counts.get(name) ?? 0);
+    cluster.confidence = Math.min(cluster.confidence, confidence);
+    clusters.set(canonical, cluster);
+  };
+
+  const unresolved: Array<{ name: string; parsed: ParsedStrainName }> = [];
+  for (const name of counts.keys()) {
+    const resolution = resolver.resolve(name);
+    if (resolution.method === "unresolved") {
+      unresolved.push({ name, parsed: parseStrainName(name) });
+    } else {
+      addTo(resolution.canonical, true, name, resolution.confidence);
+    }
+  }
+
+  // Single-linkage grouping of unresolved names by base key
+  const parent = unresolved.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < unresolved.length; i++) {
+    for (let j = i + 1; j < unresolved.length; j++) {
+      if (similarity(unresolved[i].parsed.base, unresolved[j].parsed.base) >= minSimilarity) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, typeof unresolved>();
+  unresolved.forEach((entry, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), entry]));
+  for (const members of groups.values()) {
+    const representative = members.reduce((best, entry) =>
+      (counts.get(entry.name) ?? 0) > (counts.get(best.name) ?? 0) ? entry : best
+    );
+    const canonical = displayName(representative.parsed.words, representative.name);
+    for (const { name, parsed } of members) {
+      addTo(canonical, false, name, similarity(parsed.base, representative.parsed.base));
+    }
+  }
+
+  return Array.from(clusters, ([canonical, cluster]) => ({
+    canonical,
+    resolved: cluster.resolved,
+    names: Array.from(cluster.names).sort((a, b) => b[1] - a[1]).map(([name]) => name),
+    count: Array.from(cluster.names.values()).reduce((sum, n) => sum + n, 0),
+    confidence: cluster.confidence,
+  })).sort((a, b) => b.count - a.count || a.canonical.localeCompare(b.canonical));
+}
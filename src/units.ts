@@ -0,0 +1,307 @@
+/**
+ * CDES Unit Normalization
+ * Convert compound amounts between %, mg/g and mg
+ *
+ * - `%` and `mg/g` are concentrations: 1% = 10 mg/g
+ * - `mg` is an absolute amount, so converting it requires the mass it was
+ *   measured over (one unit, the whole package, or one serving)
+ *
+ * @module units
+ */
+
+import {
+  CannabinoidProfile,
+  CompoundUnit,
+  MeasuredValue,
+  TerpeneProfile,
+} from "./models";
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Product context needed to convert absolute `mg` amounts */
+export interface UnitContext {
+  /** Mass of a single unit (one pre-roll, one gummy, one cartridge fill) in grams */
+  unitMassGrams?: number;
+  /** Net mass of the whole package in grams */
+  packageSizeGrams?: number;
+  /** Mass of one serving in grams */
+  servingSizeGrams?: number;
+  /** What `mg` values are reported per (default: "unit") */
+  mgBasis?: "unit" | "package" | "serving";
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+/** Unit label patterns, most specific first */
+const UNIT_PATTERNS: Array<[RegExp, CompoundUnit]> = [
+  [/\bmg\s*\/\s*g\b/i, "mg/g"],
+  [/\bmg\s*per\s*g(ram)?\b/i, "mg/g"],
+  [/%|\bpercent(age)?\b|\bpct\b/i, "%"],
+  [/\bmg\b/i, "mg"],
+];
+
+function toMgPerGram(
+  value: number,
+  from: CompoundUnit,
+  context: UnitContext
+): number {
+  if (from === "mg/g") return value;
+  if (from === "%") return value * 10;
+  return value / requireBasisMass(context);
+}
+
+function fromMgPerGram(
+  value: number,
+  to: CompoundUnit,
+  context: UnitContext
+): number {
+  if (to === "mg/g") return value;
+  if (to === "%") return value / 10;
+  return value * requireBasisMass(context);
+}
+
+function requireBasisMass(context: UnitContext): number {
+  const mass = getBasisMassGrams(context);
+  if (mass === undefined) {
+    const basis = context.mgBasis ?? "unit";
+    throw new Error(
+      `Cannot convert mg values without a ${basis} mass; set UnitContext.${
+        basis === "unit" ? "unitMassGrams" : basis === "package" ? "packageSizeGrams" : "servingSizeGrams"
+      }`
+    );
+  }
+  return mass;
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Resolve the mass (grams) that `mg` values are measured over.
+ *
+ * @param context - Product unit context
+ * @returns Mass in grams, or undefined if the context does not provide it
+ */
+export function getBasisMassGrams(context: UnitContext = {}): number | undefined {
+  const basis = context.mgBasis ?? "unit";
+  const mass =
+    basis === "package"
+      ? context.packageSizeGrams
+      : basis === "serving"
+        ? context.servingSizeGrams
+        : context.unitMassGrams;
+  return mass !== undefined && mass > 0 ? mass : undefined;
+}
+
+/**
+ * Convert a compound amount between units.
+ *
+ * @param value - Amount in the `from` unit
+ * @param from - Source unit
+ * @param to - Target unit
+ * @param context - Product context (required when either unit is `mg`)
+ * @returns Amount in the `to` unit
+ * @throws Error if an `mg` conversion has no basis mass
+ */
+export function convertCompoundValue(
+  value: number,
+  from: CompoundUnit,
+  to: CompoundUnit,
+  context: UnitContext = {}
+): number {
+  if (from === to) return value;
+  return fromMgPerGram(toMgPerGram(value, from, context), to, context);
+}
+
+/**
+ * Check whether a conversion can be performed with the given context.
+ *
+ * @param from - Source unit
+ * @param to - Target unit
+ * @param context - Product context
+ * @returns true if `convertCompoundValue` would succeed
+ */
+export function canConvertUnits(
+  from: CompoundUnit,
+  to: CompoundUnit,
+  context: UnitContext = {}
+): boolean {
+  if (from === to) return true;
+  if (from !== "mg" && to !== "mg") return true;
+  return getBasisMassGrams(context) !== undefined;
+}
+
+/**
+ * Convert every value of a compound Map between units.
+ *
+ * @param values - Map of compound name to amount
+ * @param from - Source unit
+ * @param to - Target unit
+ * @param context - Product context
+ * @returns New Map with converted amounts
+ */
+export function convertCompoundMap(
+  values: Map<string, number>,
+  from: CompoundUnit,
+  to: CompoundUnit,
+  context: UnitContext = {}
+): Map<string, number> {
+  if (from === to) return new Map(values);
+  const result = new Map<string, number>();
+  for (const [name, value] of values) {
+    result.set(name, convertCompoundValue(value, from, to, context));
+  }
+  return result;
+}
+
+/**
+ * Convert a measured value, including its LOD and LOQ, between units.
+ *
+ * @param measured - Measured value in the `from` unit
+ * @param from - Source unit
+ * @param to - Target unit
+ * @param context - Product context
+ * @returns New MeasuredValue in the `to` unit
+ */
+export function convertMeasuredValue(
+  measured: MeasuredValue,
+  from: CompoundUnit,
+  to: CompoundUnit,
+  context: UnitContext = {}
+): MeasuredValue {
+  if (from === to) return { ...measured };
+  const result = { ...measured };
+  for (const key of ["value", "lod", "loq"] as const) {
+    const amount = measured[key];
+    if (amount !== undefined) {
+      result[key] = convertCompoundValue(amount, from, to, context);
+    }
+  }
+  return result;
+}
+
+function convertMeasurementMap(
+  measurements: Map<string, MeasuredValue> | undefined,
+  from: CompoundUnit,
+  to: CompoundUnit,
+  context: UnitContext
+): Map<string, MeasuredValue> | undefined {
+  if (!measurements) return undefined;
+  const result = new Map<string, MeasuredValue>();
+  for (const [name, measured] of measurements) {
+    result.set(name, convertMeasuredValue(measured, from, to, context));
+  }
+  return result;
+}
+
+/**
+ * Bring an array of Cannabinoid/Terpene entries to a single unit.
+ * Entries without a unit are treated as `%`.
+ *
+ * @param compounds - Compounds with mixed units
+ * @param to - Target unit (default: "%")
+ * @param context - Product context
+ * @returns New array with `percentage` expressed in the target unit
+ */
+export function normalizeCompounds<
+  T extends { percentage: number; unit?: CompoundUnit; measurement?: MeasuredValue }
+>(
+  compounds: T[],
+  to: CompoundUnit = "%",
+  context: UnitContext = {}
+): T[] {
+  return compounds.map((compound) => {
+    const from = compound.unit ?? "%";
+    const converted = {
+      ...compound,
+      percentage: convertCompoundValue(compound.percentage, from, to, context),
+      unit: to,
+    };
+    if (compound.measurement) {
+      converted.measurement = convertMeasuredValue(compound.measurement, from, to, context);
+    }
+    return converted;
+  });
+}
+
+/**
+ * Bring a CannabinoidProfile to a single unit.
+ * Profiles without a unit are treated as `%`.
+ *
+ * @param profile - Profile to convert
+ * @param to - Target unit (default: "%")
+ * @param context - Product context
+ * @returns The same profile if already in the target unit, otherwise a converted copy
+ */
+export function normalizeCannabinoidProfile(
+  profile: CannabinoidProfile,
+  to: CompoundUnit = "%",
+  context: UnitContext = {}
+): CannabinoidProfile {
+  const from = profile.unit ?? "%";
+  if (from === to) return profile;
+  return {
+    ...profile,
+    cannabinoids: convertCompoundMap(profile.cannabinoids, from, to, context),
+    totalCannabinoids: convertCompoundValue(profile.totalCannabinoids, from, to, context),
+    unit: to,
+    measurements: convertMeasurementMap(profile.measurements, from, to, context),
+  };
+}
+
+/**
+ * Bring a TerpeneProfile to a single unit.
+ * Profiles without a unit are treated as `%`.
+ *
+ * @param profile - Profile to convert
+ * @param to - Target unit (default: "%")
+ * @param context - Product context
+ * @returns The same profile if already in the target unit, otherwise a converted copy
+ */
+export function normalizeTerpeneProfile(
+  profile: TerpeneProfile,
+  to: CompoundUnit = "%",
+  context: UnitContext = {}
+): TerpeneProfile {
+  const from = profile.unit ?? "%";
+  if (from === to) return profile;
+  return {
+    ...profile,
+    terpenes: convertCompoundMap(profile.terpenes, from, to, context),
+    totalTerpenes: convertCompoundValue(profile.totalTerpenes, from, to, context),
+    unit: to,
+    measurements: convertMeasurementMap(profile.measurements, from, to, context),
+  };
+}
+
+/**
+ * Detect a unit in a column or field label, e.g. "THC (mg/g)" or "THCa mg/g".
+ *
+ * @param label - Header or display name
+ * @returns The unit mentioned in the label, or undefined
+ */
+export function parseUnitFromLabel(label: string): CompoundUnit | undefined {
+  for (const [pattern, unit] of UNIT_PATTERNS) {
+    if (pattern.test(label)) return unit;
+  }
+  return undefined;
+}
+
+/**
+ * Remove unit annotations from a label, e.g. "THC (mg/g)" → "THC".
+ *
+ * @param label - Header or display name
+ * @returns Label without unit text
+ */
+export function stripUnitFromLabel(label: string): string {
+  return label
+    .replace(/[([]\s*(mg\s*\/\s*g|mg|%|percent(age)?|pct)\s*[)\]]/gi, "")
+    .replace(/\bmg\s*\/\s*g\b|\bmg\s*per\s*g(ram)?\b|\bpercent(age)?\b|\bpct\b|\bmg\b|%/gi, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
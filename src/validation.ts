@@ -0,0 +1,499 @@
+/**
+ * CDES COA Validation
+ * Runtime validation of untyped lab JSON against the COA schema (CDES v1.0)
+ *
+ * @module validation
+ */
+
+import {
+  Cannabinoid,
+  COA,
+  CompoundUnit,
+  DetectionState,
+  LabInfo,
+  MeasuredValue,
+  PotencyResults,
+  SafetyTestCategory,
+  SafetyTestResult,
+  SafetyTests,
+  TestMethod,
+  TestStatus,
+  SampleInfo,
+} from "./models";
+
+// =============================================================================
+// ALLOWED VALUES
+// =============================================================================
+
+/** Runtime list of every `TestStatus` value */
+export const TEST_STATUSES: readonly TestStatus[] = [
+  "pass",
+  "fail",
+  "pending",
+  "not-tested",
+  "not-applicable",
+  "detected",
+  "not-detected",
+];
+
+/** Runtime list of every `TestMethod` value */
+export const TEST_METHODS: readonly TestMethod[] = [
+  "HPLC",
+  "GC-MS",
+  "LC-MS",
+  "GC-FID",
+  "ICP-MS",
+  "PCR",
+];
+
+/** Runtime list of every `SampleInfo.productType` value */
+export const PRODUCT_TYPES: readonly NonNullable<SampleInfo["productType"]>[] = [
+  "flower",
+  "pre-roll",
+  "concentrate",
+  "vape",
+  "edible",
+  "tincture",
+  "topical",
+  "capsule",
+  "other",
+];
+
+/** Runtime list of every `COA.overallStatus` value */
+export const OVERALL_STATUSES: readonly COA["overallStatus"][] = [
+  "pass",
+  "fail",
+  "pending",
+  "partial",
+];
+
+/** Runtime list of compound units accepted on cannabinoids and terpenes */
+export const COMPOUND_UNITS: readonly CompoundUnit[] = ["mg/g", "%", "mg"];
+
+/** Runtime list of every `MeasuredValue.state` value */
+export const DETECTION_STATES: readonly DetectionState[] = [
+  "detected",
+  "trace",
+  "below-loq",
+  "not-detected",
+  "not-tested",
+];
+
+/** Safety test categories, in schema order */
+export const SAFETY_TEST_CATEGORIES: readonly (keyof SafetyTests)[] = [
+  "microbials",
+  "pesticides",
+  "heavyMetals",
+  "residualSolvents",
+  "mycotoxins",
+  "moisture",
+  "waterActivity",
+  "foreignMatter",
+];
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/** Reason a value failed validation */
+export type COAValidationErrorCode =
+  | "required"
+  | "type"
+  | "enum"
+  | "range";
+
+/** A single validation failure, located by JSON path */
+export interface COAValidationError {
+  /** JSON path to the offending value, e.g. `safetyTests.pesticides.analytes[3].status` */
+  path: string;
+  code: COAValidationErrorCode;
+  message: string;
+}
+
+/** Result of `validateCOA` — either a typed COA or the list of errors */
+export type COAValidationResult =
+  | { valid: true; coa: COA; errors: [] }
+  | { valid: false; errors: COAValidationError[] };
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+type Checker = (value: unknown, path: string, errors: COAValidationError[]) => void;
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeError(path: string, expected: string, value: unknown): COAValidationError {
+  return {
+    path,
+    code: "type",
+    message: `Expected ${expected}, got ${describeType(value)}`,
+  };
+}
+
+function checkObject(
+  value: unknown,
+  path: string,
+  errors: COAValidationError[],
+  fields: Record<string, { required?: boolean; check: Checker }>
+): void {
+  if (!isRecord(value)) {
+    errors.push(typeError(path, "object", value));
+    return;
+  }
+
+  for (const [key, field] of Object.entries(fields)) {
+    const fieldPath = joinPath(path, key);
+    const fieldValue = value[key];
+    if (fieldValue === undefined) {
+      if (field.required) {
+        errors.push({
+          path: fieldPath,
+          code: "required",
+          message: `Missing required field "${key}"`,
+        });
+      }
+      continue;
+    }
+    field.check(fieldValue, fieldPath, errors);
+  }
+}
+
+const checkString: Checker = (value, path, errors) => {
+  if (typeof value !== "string") errors.push(typeError(path, "string", value));
+};
+
+const checkNonEmptyString: Checker = (value, path, errors) => {
+  if (typeof value !== "string") {
+    errors.push(typeError(path, "string", value));
+  } else if (value.trim() === "") {
+    errors.push({ path, code: "required", message: "Expected a non-empty string" });
+  }
+};
+
+const checkNumber: Checker = (value, path, errors) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push(typeError(path, "finite number", value));
+  }
+};
+
+const checkNonNegativeNumber: Checker = (value, path, errors) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push(typeError(path, "finite number", value));
+  } else if (value < 0) {
+    errors.push({ path, code: "range", message: `Expected a value >= 0, got ${value}` });
+  }
+};
+
+const checkRecord: Checker = (value, path, errors) => {
+  if (!isRecord(value)) errors.push(typeError(path, "object", value));
+};
+
+function checkEnum(allowed: readonly string[]): Checker {
+  return (value, path, errors) => {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      errors.push({
+        path,
+        code: "enum",
+        message: `Expected one of ${allowed.map((v) => `"${v}"`).join(", ")}, got ${
+          typeof value === "string" ? `"${value}"` : describeType(value)
+        }`,
+      });
+    }
+  };
+}
+
+function checkArray(itemCheck: Checker): Checker {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(typeError(path, "array", value));
+      return;
+    }
+    value.forEach((item, i) => itemCheck(item, joinPath(path, i), errors));
+  };
+}
+
+const checkLabInfo: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    name: { required: true, check: checkNonEmptyString },
+    licenseNumber: { check: checkString },
+    phone: { check: checkString },
+    website: { check: checkString },
+    accreditations: { check: checkArray(checkString) },
+  });
+
+const checkSampleInfo: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    batchNumber: { required: true, check: checkNonEmptyString },
+    productName: { required: true, check: checkNonEmptyString },
+    sampleId: { check: checkString },
+    strainName: { check: checkString },
+    productType: { check: checkEnum(PRODUCT_TYPES) },
+    receivedDate: { check: checkString },
+    testedDate: { check: checkString },
+    harvestDate: { check: checkString },
+    producerName: { check: checkString },
+    producerLicense: { check: checkString },
+  });
+
+const checkMeasuredValue: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    state: { required: true, check: checkEnum(DETECTION_STATES) },
+    value: { check: checkNumber },
+    lod: { check: checkNonNegativeNumber },
+    loq: { check: checkNonNegativeNumber },
+    raw: { check: checkString },
+  });
+
+const checkCompound: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    name: { required: true, check: checkNonEmptyString },
+    displayName: { check: checkString },
+    percentage: { required: true, check: checkNonNegativeNumber },
+    unit: { check: checkEnum(COMPOUND_UNITS) },
+    measurement: { check: checkMeasuredValue },
+  });
+
+const checkSafetyTestResult: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    analyte: { required: true, check: checkNonEmptyString },
+    result: { check: checkNumber },
+    resultText: { check: checkString },
+    limit: { check: checkNonNegativeNumber },
+    unit: { check: checkString },
+    status: { required: true, check: checkEnum(TEST_STATUSES) },
+    measurement: { check: checkMeasuredValue },
+  });
+
+const checkSafetyTestCategory: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    status: { required: true, check: checkEnum(TEST_STATUSES) },
+    analytes: { check: checkArray(checkSafetyTestResult) },
+  });
+
+const checkSafetyTests: Checker = (value, path, errors) =>
+  checkObject(
+    value,
+    path,
+    errors,
+    Object.fromEntries(
+      SAFETY_TEST_CATEGORIES.map((category) => [
+        category,
+        { check: checkSafetyTestCategory },
+      ])
+    )
+  );
+
+const checkPotencyResults: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    status: { required: true, check: checkEnum(TEST_STATUSES) },
+    totalThc: { check: checkNonNegativeNumber },
+    totalCbd: { check: checkNonNegativeNumber },
+    totalCannabinoids: { check: checkNonNegativeNumber },
+  });
+
+const checkCOA: Checker = (value, path, errors) =>
+  checkObject(value, path, errors, {
+    id: { required: true, check: checkNonEmptyString },
+    lab: { required: true, check: checkLabInfo },
+    sample: { required: true, check: checkSampleInfo },
+    overallStatus: { required: true, check: checkEnum(OVERALL_STATUSES) },
+    coaNumber: { check: checkString },
+    cannabinoids: { check: checkArray(checkCompound) },
+    terpenes: { check: checkArray(checkCompound) },
+    potencyResults: { check: checkPotencyResults },
+    safetyTests: { check: checkSafetyTests },
+    issuedDate: { check: checkString },
+    expirationDate: { check: checkString },
+    pdfUrl: { check: checkString },
+    qrCode: { check: checkString },
+    notes: { check: checkString },
+    testMethod: { check: checkEnum(TEST_METHODS) },
+    metadata: { check: checkRecord },
+  });
+
+// Builders run after a successful check and copy only the schema fields,
+// so unknown keys never reach the returned COA.
+
+function pickStrings<K extends string>(record: Record<string, unknown>, keys: readonly K[]): Partial<Record<K, string>> {
+  const picked: Partial<Record<K, string>> = {};
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string") picked[key] = value;
+  }
+  return picked;
+}
+
+function pickNumbers<K extends string>(record: Record<string, unknown>, keys: readonly K[]): Partial<Record<K, number>> {
+  const picked: Partial<Record<K, number>> = {};
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "number") picked[key] = value;
+  }
+  return picked;
+}
+
+function oneOf<T extends string>(allowed: readonly T[], value: unknown): T | undefined {
+  return allowed.find((option) => option === value);
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function buildLabInfo(value: Record<string, unknown>): LabInfo {
+  const lab: LabInfo = {
+    name: text(value.name),
+    ...pickStrings(value, ["licenseNumber", "phone", "website"] as const),
+  };
+  if (Array.isArray(value.accreditations)) {
+    lab.accreditations = value.accreditations.filter((a): a is string => typeof a === "string");
+  }
+  return lab;
+}
+
+function buildSampleInfo(value: Record<string, unknown>): SampleInfo {
+  const sample: SampleInfo = {
+    batchNumber: text(value.batchNumber),
+    productName: text(value.productName),
+    ...pickStrings(value, [
+      "sampleId",
+      "strainName",
+      "receivedDate",
+      "testedDate",
+      "harvestDate",
+      "producerName",
+      "producerLicense",
+    ] as const),
+  };
+  const productType = oneOf(PRODUCT_TYPES, value.productType);
+  if (productType) sample.productType = productType;
+  return sample;
+}
+
+function buildMeasuredValue(value: Record<string, unknown>): MeasuredValue {
+  return {
+    state: oneOf(DETECTION_STATES, value.state) ?? "not-tested",
+    ...pickNumbers(value, ["value", "lod", "loq"] as const),
+    ...pickStrings(value, ["raw"] as const),
+  };
+}
+
+function buildCompound(value: Record<string, unknown>): Cannabinoid {
+  const compound: Cannabinoid = {
+    name: text(value.name),
+    percentage: typeof value.percentage === "number" ? value.percentage : 0,
+    ...pickStrings(value, ["displayName"] as const),
+  };
+  const unit = oneOf(COMPOUND_UNITS, value.unit);
+  if (unit) compound.unit = unit;
+  if (isRecord(value.measurement)) compound.measurement = buildMeasuredValue(value.measurement);
+  return compound;
+}
+
+function buildSafetyTestResult(value: Record<string, unknown>): SafetyTestResult {
+  const result: SafetyTestResult = {
+    analyte: text(value.analyte),
+    status: oneOf(TEST_STATUSES, value.status) ?? "pending",
+    ...pickNumbers(value, ["result", "limit"] as const),
+    ...pickStrings(value, ["resultText", "unit"] as const),
+  };
+  if (isRecord(value.measurement)) result.measurement = buildMeasuredValue(value.measurement);
+  return result;
+}
+
+function buildSafetyTests(value: Record<string, unknown>): SafetyTests {
+  const tests: SafetyTests = {};
+  for (const category of SAFETY_TEST_CATEGORIES) {
+    const entry = value[category];
+    if (!isRecord(entry)) continue;
+    const built: SafetyTestCategory = { status: oneOf(TEST_STATUSES, entry.status) ?? "pending" };
+    if (entry.analytes !== undefined) built.analytes = records(entry.analytes).map(buildSafetyTestResult);
+    tests[category] = built;
+  }
+  return tests;
+}
+
+function buildPotencyResults(value: Record<string, unknown>): PotencyResults {
+  return {
+    status: oneOf(TEST_STATUSES, value.status) ?? "pending",
+    ...pickNumbers(value, ["totalThc", "totalCbd", "totalCannabinoids"] as const),
+  };
+}
+
+function buildCOA(value: Record<string, unknown>): COA {
+  const coa: COA = {
+    id: text(value.id),
+    lab: buildLabInfo(isRecord(value.lab) ? value.lab : {}),
+    sample: buildSampleInfo(isRecord(value.sample) ? value.sample : {}),
+    overallStatus: oneOf(OVERALL_STATUSES, value.overallStatus) ?? "pending",
+    ...pickStrings(value, [
+      "coaNumber",
+      "issuedDate",
+      "expirationDate",
+      "pdfUrl",
+      "qrCode",
+      "notes",
+    ] as const),
+  };
+  if (value.cannabinoids !== undefined) coa.cannabinoids = records(value.cannabinoids).map(buildCompound);
+  if (value.terpenes !== undefined) coa.terpenes = records(value.terpenes).map(buildCompound);
+  if (isRecord(value.potencyResults)) coa.potencyResults = buildPotencyResults(value.potencyResults);
+  if (isRecord(value.safetyTests)) coa.safetyTests = buildSafetyTests(value.safetyTests);
+  const testMethod = oneOf(TEST_METHODS, value.testMethod);
+  if (testMethod) coa.testMethod = testMethod;
+  if (isRecord(value.metadata)) coa.metadata = value.metadata;
+  return coa;
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * Validate untyped input against the CDES COA schema.
+ *
+ * Every nested type (`LabInfo`, `SampleInfo`, `SafetyTests`,
+ * `PotencyResults`) is checked, and all failures are collected rather than
+ * stopping at the first one. The returned COA holds only schema fields;
+ * unknown keys are dropped (`metadata` is kept as given).
+ *
+ * @param input - Untyped JSON, e.g. from `JSON.parse`
+ * @returns The typed COA when valid, otherwise the list of errors with JSON paths
+ */
+export function validateCOA(input: unknown): COAValidationResult {
+  const errors: COAValidationError[] = [];
+  checkCOA(input, "", errors);
+
+  if (errors.length > 0 || !isRecord(input)) {
+    return { valid: false, errors };
+  }
+  return { valid: true, coa: buildCOA(input), errors: [] };
+}
+
+/**
+ * Type guard variant of `validateCOA`.
+ *
+ * @param input - Untyped JSON
+ * @returns true if the input is a valid COA
+ */
+export function isValidCOA(input: unknown): input is COA {
+  return validateCOA(input).valid;
+}